@@ -0,0 +1,141 @@
+/**
+ * Class Relay
+ * A small WebSocket server for class mode: every message from a device is passed on to the other
+ * devices in the same room. Rooms are the URL path, e.g. ws://192.168.1.10:8787/salsa-tuesday
+ * It doesn't look inside messages; clock sync and beat following happen on the devices
+ *
+ *   yarn relay [--port <n>] [--cert <cert.pem> --key <key.pem>]
+ */
+
+import { readFile } from 'node:fs/promises';
+import { createServer as createHttpServer, IncomingMessage } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
+import { networkInterfaces } from 'node:os';
+import { WebSocket, WebSocketServer } from 'ws';
+
+interface RelayOptions {
+  port: number;
+  cert?: string; // With key, serve wss:// so pages served over HTTPS can connect
+  key?: string;
+}
+
+const DEFAULT_PORT = 8787;
+const MAX_MESSAGE_BYTES = 4096; // Class messages are tiny; anything bigger isn't ours
+const HEARTBEAT_INTERVAL = 15000; // ms between pings that clear out dead connections
+
+async function main(): Promise<void> {
+  const options = parseArguments(process.argv.slice(2));
+  const server =
+    options.cert && options.key
+      ? createHttpsServer({ cert: await readFile(options.cert), key: await readFile(options.key) })
+      : createHttpServer();
+  const wss = new WebSocketServer({ server, maxPayload: MAX_MESSAGE_BYTES });
+  const rooms = new Map<string, Set<WebSocket>>();
+  const alive = new WeakSet<WebSocket>();
+
+  wss.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+    const room = roomName(request.url);
+    let members = rooms.get(room);
+    if (!members) {
+      members = new Set();
+      rooms.set(room, members);
+    }
+    members.add(socket);
+    alive.add(socket);
+    log(`+ ${request.socket.remoteAddress} joined "${room}" (${members.size} connected)`);
+
+    socket.on('pong', () => alive.add(socket));
+    socket.on('message', (data, isBinary) => {
+      if (isBinary) return;
+      for (const member of members) {
+        if (member !== socket && member.readyState === WebSocket.OPEN) member.send(data, { binary: false });
+      }
+    });
+    socket.on('close', () => {
+      members.delete(socket);
+      if (members.size === 0) rooms.delete(room);
+      log(`- left "${room}" (${members.size} connected)`);
+    });
+    socket.on('error', (err) => log(`! ${err.message}`));
+  });
+
+  // Phones that lose Wi-Fi don't say goodbye
+  const heartbeat = setInterval(() => {
+    for (const socket of wss.clients) {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      alive.delete(socket);
+      socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  server.listen(options.port, () => {
+    const scheme = options.cert ? 'wss' : 'ws';
+    log(`Class relay listening on port ${options.port}. Relay addresses for the app:`);
+    for (const address of localAddresses()) {
+      log(`  ${scheme}://${address}:${options.port}`);
+    }
+  });
+}
+
+function parseArguments(args: string[]): RelayOptions {
+  const options: RelayOptions = { port: DEFAULT_PORT };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+    if (arg === '--port') {
+      options.port = parseInt(value(), 10);
+      if (!Number.isInteger(options.port) || options.port <= 0) throw new Error('--port needs a port number');
+    } else if (arg === '--cert') {
+      options.cert = value();
+    } else if (arg === '--key') {
+      options.key = value();
+    } else if (arg !== '--') {
+      throw new Error('Usage: classRelay [--port <n>] [--cert <cert.pem> --key <key.pem>]');
+    }
+  }
+  if (!options.cert !== !options.key) {
+    throw new Error('--cert and --key go together');
+  }
+  return options;
+}
+
+/**
+ * Room from the request path; the app lowercases it, so codes typed differently still meet
+ */
+function roomName(url: string | undefined): string {
+  const raw = (url ?? '/').split('?')[0];
+  let path: string;
+  try {
+    path = decodeURIComponent(raw);
+  } catch {
+    // A malformed escape (e.g. "/%E0") mustn't take the relay down for everyone; use it as typed
+    path = raw;
+  }
+  path = path.replace(/^\/+|\/+$/g, '');
+  return path.toLowerCase() || 'default';
+}
+
+function localAddresses(): string[] {
+  const addresses = Object.values(networkInterfaces())
+    .flatMap((entries) => entries ?? [])
+    .filter((entry) => entry.family === 'IPv4' && !entry.internal)
+    .map((entry) => entry.address);
+  return addresses.length > 0 ? addresses : ['localhost'];
+}
+
+function log(message: string): void {
+  process.stderr.write(`${message}\n`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,10 @@
+/**
+ * The espeak-ng package ships without types; this covers what renderVoices uses
+ */
+declare module 'espeak-ng' {
+  interface ESpeakNgInstance {
+    FS: { readFile(path: string): Uint8Array };
+  }
+
+  export default function ESpeakNg(options: { arguments: string[] }): Promise<ESpeakNgInstance>;
+}
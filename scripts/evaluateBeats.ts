@@ -0,0 +1,213 @@
+/**
+ * Beat Evaluation Runner
+ * Runs the detector over a folder of WAV files with beat annotations and prints per-track and
+ * aggregate scores for one or more detector configurations
+ *
+ *   yarn evaluate <folder> [--preset <id>]... [--config <tuning.json>]... [--grid] [--skip <s>] [--json <out.json>]
+ */
+
+import { readFile, readdir, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { DEFAULT_DETECTION_TUNING, DetectionTuning } from '../src/utils/beatDetector';
+import { AUDIO_PRESETS, AudioPresetId } from '../src/utils/audioPresets';
+import { analyzeSamples } from '../src/utils/fileAnalyzer';
+import {
+  BeatAnnotation,
+  EvaluationReport,
+  TrackEvaluation,
+  evaluateBeats,
+  formatEvaluationReport,
+  isBarStart,
+  parseBeatAnnotation,
+  summarizeEvaluation,
+} from '../src/utils/beatEvaluation';
+
+interface DetectorConfig {
+  name: string;
+  tuning: Partial<DetectionTuning>;
+}
+
+interface RunnerOptions {
+  folder: string;
+  configs: DetectorConfig[];
+  grid: boolean; // Score the fitted offline grid instead of the beats as detected
+  skip?: number;
+  jsonOutput?: string;
+}
+
+// Looked for next to the audio file, then in an "annotations" subfolder
+const ANNOTATION_EXTENSIONS = ['.beats', '.txt', '.lab', '.json'];
+
+async function main(): Promise<void> {
+  const options = await parseArguments(process.argv.slice(2));
+  const tracks = await findTracks(options.folder);
+  if (tracks.length === 0) {
+    throw new Error(`No WAV files with beat annotations found in ${options.folder}`);
+  }
+
+  const reports: EvaluationReport[] = [];
+  for (const config of options.configs) {
+    const evaluations: TrackEvaluation[] = [];
+    for (const track of tracks) {
+      const { samples, sampleRate } = decodeWav(await readFile(track.audio));
+      const { beats, grid } = await analyzeSamples(samples, sampleRate, config.tuning);
+      const estimated: BeatAnnotation = options.grid
+        ? {
+            beats: grid.beats.map((beat) => beat.time),
+            downbeats: grid.beats.filter((beat) => isBarStart(beat.position)).map((beat) => beat.time),
+          }
+        : {
+            beats: beats.map((beat) => beat.timestamp / 1000),
+            downbeats: beats.filter((beat) => isBarStart(beat.phase.position)).map((beat) => beat.timestamp / 1000),
+          };
+      evaluations.push({
+        track: track.name,
+        referenceBeats: track.reference.beats.length,
+        estimatedBeats: estimated.beats.length,
+        scores: evaluateBeats(track.reference, estimated, { skip: options.skip }),
+      });
+      process.stderr.write(`${config.name}: ${track.name}\n`);
+    }
+    reports.push(summarizeEvaluation(config.name, evaluations));
+  }
+
+  process.stdout.write(formatEvaluationReport(reports));
+  if (options.jsonOutput) {
+    await writeFile(options.jsonOutput, JSON.stringify(reports, null, 2));
+  }
+}
+
+async function parseArguments(args: string[]): Promise<RunnerOptions> {
+  const options: RunnerOptions = { folder: '', configs: [], grid: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+    if (arg === '--preset') {
+      const id = value() as AudioPresetId;
+      if (!AUDIO_PRESETS[id]) throw new Error(`Unknown preset "${id}" (${Object.keys(AUDIO_PRESETS).join(', ')})`);
+      options.configs.push({ name: id, tuning: AUDIO_PRESETS[id].tuning });
+    } else if (arg === '--config') {
+      const path = value();
+      const tuning = JSON.parse(await readFile(path, 'utf8')) as Partial<DetectionTuning>;
+      options.configs.push({ name: basename(path, extname(path)), tuning });
+    } else if (arg === '--grid') {
+      options.grid = true;
+    } else if (arg === '--skip') {
+      options.skip = parseFloat(value());
+    } else if (arg === '--json') {
+      options.jsonOutput = value();
+    } else if (arg !== '--' && !options.folder) {
+      options.folder = arg;
+    } else if (arg !== '--') {
+      throw new Error(`Unexpected argument ${arg}`);
+    }
+  }
+
+  if (!options.folder) {
+    throw new Error('Usage: evaluateBeats <folder> [--preset <id>]... [--config <tuning.json>]... [--grid] [--skip <s>] [--json <out.json>]');
+  }
+  if (options.configs.length === 0) {
+    options.configs.push({ name: 'defaults', tuning: DEFAULT_DETECTION_TUNING });
+  }
+  return options;
+}
+
+interface AnnotatedTrack {
+  name: string;
+  audio: string;
+  reference: BeatAnnotation;
+}
+
+async function findTracks(folder: string): Promise<AnnotatedTrack[]> {
+  const files = (await readdir(folder)).filter((file) => extname(file).toLowerCase() === '.wav').sort();
+  const tracks: AnnotatedTrack[] = [];
+  for (const file of files) {
+    const name = basename(file, extname(file));
+    const candidates = ANNOTATION_EXTENSIONS.flatMap((extension) => [
+      join(folder, name + extension),
+      join(folder, 'annotations', name + extension),
+    ]);
+    let reference: BeatAnnotation | null = null;
+    for (const candidate of candidates) {
+      try {
+        reference = parseBeatAnnotation(await readFile(candidate, 'utf8'));
+        break;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      }
+    }
+    if (reference && reference.beats.length > 0) {
+      tracks.push({ name, audio: join(folder, file), reference });
+    } else {
+      process.stderr.write(`Skipping ${file}: no beat annotation\n`);
+    }
+  }
+  return tracks;
+}
+
+/**
+ * PCM (8/16/24/32-bit) or 32-bit float WAV, downmixed to mono
+ */
+function decodeWav(data: Buffer): { samples: Float32Array; sampleRate: number } {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  for (let offset = 12; offset + 8 <= data.length; ) {
+    const id = data.toString('ascii', offset, offset + 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format === 0xfffe) format = view.getUint16(body + 24, true); // WAVE_FORMAT_EXTENSIBLE sub-format
+    } else if (id === 'data') {
+      const bytesPerSample = bitsPerSample / 8;
+      const frames = Math.floor(Math.min(size, data.length - body) / (bytesPerSample * channels));
+      const samples = new Float32Array(frames);
+      for (let frame = 0; frame < frames; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+          sum += readSample(view, body + (frame * channels + channel) * bytesPerSample, format, bitsPerSample);
+        }
+        samples[frame] = sum / channels;
+      }
+      return { samples, sampleRate };
+    }
+    offset = body + size + (size % 2); // Chunks are word aligned
+  }
+  throw new Error('WAV file has no audio data');
+}
+
+function readSample(view: DataView, offset: number, format: number, bits: number): number {
+  if (format === 3 && bits === 32) return view.getFloat32(offset, true);
+  if (format !== 1) throw new Error(`Unsupported WAV format ${format}`);
+  switch (bits) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24:
+      return ((view.getUint8(offset + 2) << 24) | (view.getUint8(offset + 1) << 16) | (view.getUint8(offset) << 8)) / 2147483648;
+    case 32:
+      return view.getInt32(offset, true) / 2147483648;
+    default:
+      throw new Error(`Unsupported WAV bit depth ${bits}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
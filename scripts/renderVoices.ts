@@ -0,0 +1,111 @@
+/**
+ * Voice Renderer
+ * Renders the spoken voice packs' count words with eSpeak NG into public/voices/<lang>/<word>.wav
+ * Leading silence is trimmed so a cue scheduled on the beat is heard on the beat
+ *
+ *   yarn voices
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import ESpeakNg from 'espeak-ng';
+import { VOICE_PACKS, VoicePackId } from '../src/utils/countCues';
+
+// eSpeak voice for each spoken pack
+const ESPEAK_VOICES: Partial<Record<VoicePackId, string>> = {
+  spanish: 'es',
+  english: 'en-us',
+};
+
+const WORDS_PER_MINUTE = 260; // Brisk, so "seven" is over before the next beat at 200 BPM
+const SILENCE_THRESHOLD = 0.02; // Share of the word's peak below which a sample counts as silence
+const ONSET_MARGIN = 0.005; // s kept before the first sound, so the attack isn't clipped
+const FADE_OUT = 0.02; // s faded out after the last sound
+
+async function main(): Promise<void> {
+  for (const pack of Object.values(VOICE_PACKS)) {
+    const voice = ESPEAK_VOICES[pack.id];
+    if (!pack.samplePath || !voice) continue;
+
+    const folder = join('public', pack.samplePath);
+    await mkdir(folder, { recursive: true });
+    for (const word of [...pack.words, pack.andWord]) {
+      const { samples, sampleRate } = await speak(word, voice);
+      await writeFile(join(folder, `${word}.wav`), encodeWav(trimSilence(samples, sampleRate), sampleRate));
+      log(`${pack.name}: ${word}`);
+    }
+  }
+}
+
+async function speak(word: string, voice: string): Promise<{ samples: Int16Array; sampleRate: number }> {
+  const espeak = await ESpeakNg({ arguments: ['-v', voice, '-s', String(WORDS_PER_MINUTE), '-w', 'word.wav', word] });
+  return decodeWav(espeak.FS.readFile('word.wav'));
+}
+
+/**
+ * 16-bit mono PCM from the WAV eSpeak writes
+ */
+function decodeWav(bytes: Uint8Array): { samples: Int16Array; sampleRate: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const sampleRate = view.getUint32(24, true);
+  for (let at = 12; at + 8 <= bytes.length; ) {
+    const id = String.fromCharCode(...bytes.subarray(at, at + 4));
+    const size = view.getUint32(at + 4, true);
+    if (id === 'data') {
+      const length = Math.min(size, bytes.length - at - 8) >> 1;
+      const samples = new Int16Array(length);
+      for (let i = 0; i < length; i++) samples[i] = view.getInt16(at + 8 + i * 2, true);
+      return { samples, sampleRate };
+    }
+    at += 8 + size + (size % 2);
+  }
+  throw new Error('eSpeak wrote no audio');
+}
+
+function trimSilence(samples: Int16Array, sampleRate: number): Int16Array {
+  const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+  const threshold = peak * SILENCE_THRESHOLD;
+  const first = samples.findIndex((sample) => Math.abs(sample) > threshold);
+  if (first < 0) throw new Error('eSpeak rendered silence');
+  let last = samples.length - 1;
+  while (Math.abs(samples[last]) <= threshold) last--;
+
+  const fade = Math.round(FADE_OUT * sampleRate);
+  const start = Math.max(0, first - Math.round(ONSET_MARGIN * sampleRate));
+  const end = Math.min(samples.length, last + fade);
+  const trimmed = samples.slice(start, end);
+  for (let i = 0; i < fade && i < trimmed.length; i++) {
+    trimmed[trimmed.length - 1 - i] = Math.round(trimmed[trimmed.length - 1 - i] * (i / fade));
+  }
+  return trimmed;
+}
+
+function encodeWav(samples: Int16Array, sampleRate: number): Uint8Array {
+  const bytes = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const text = (at: number, value: string) => [...value].forEach((char, i) => view.setUint8(at + i, char.charCodeAt(0)));
+  text(0, 'RIFF');
+  view.setUint32(4, bytes.length - 8, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  text(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample, true));
+  return bytes;
+}
+
+function log(message: string): void {
+  process.stderr.write(`${message}\n`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -1,9 +1,62 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { AudioProcessor, BeatDetectionResult } from './utils/audioProcessor';
+import {
+  AudioInputStatus,
+  AudioProcessor,
+  BeatDetectionResult,
+  TrackingState,
+  TrackingStatus,
+} from './utils/audioProcessor';
 import { BeatCounter as BeatCounterUtil } from './utils/beatCounter';
+import { BeatCounterState } from './utils/beatCounter';
+import { ClaveReading } from './utils/claveDetector';
 import { HapticFeedback } from './utils/hapticFeedback';
+import { COUNTING_SCHEMES, CountingSchemeId, CountStep, DEFAULT_COUNTING_SCHEME, getCountStep } from './utils/countingScheme';
+import { CountCuePlayer, VoicePackId } from './utils/countCues';
+import {
+  DEFAULT_LATENCY_PROFILE,
+  LatencyProfile,
+  clearLatencyProfile,
+  loadLatencyProfile,
+  saveLatencyProfile,
+} from './utils/latencyCalibration';
+import { AUDIO_PRESETS, AudioPresetId, StoredTuning, loadTuning, saveTuning } from './utils/audioPresets';
+import { DetectionTuning } from './utils/beatDetector';
+import { SessionRecorder, loadRecordAudioPreference, saveRecordAudioPreference } from './utils/sessionRecorder';
+import { saveSession } from './utils/sessionStore';
+import { TapTempo } from './utils/tapTempo';
+import { analyzeAudioFile } from './utils/fileAnalyzer';
+import { TrackPlayer } from './utils/trackPlayer';
+import { BeatGrid, GridBeat } from './utils/beatGrid';
+import { exportFromGrid } from './utils/beatExport';
+import { ALL_PERCUSSION_LAYERS, PracticeMetronome, TempoRamp } from './utils/practiceMetronome';
+import { ScreenWakeLock } from './utils/wakeLock';
 import { BeatCounter } from './components/BeatCounter';
 import { BPMDisplay } from './components/BPMDisplay';
+import { TrackPlayerControls } from './components/TrackPlayerControls';
+import { PracticeControls, PracticeSettings } from './components/PracticeControls';
+import { CountCueControls } from './components/CountCueControls';
+import { LatencyCalibrationWizard } from './components/LatencyCalibrationWizard';
+import { AudioSettingsPanel } from './components/AudioSettingsPanel';
+import { SessionHistory } from './components/SessionHistory';
+import { BeatExportMenu } from './components/BeatExportMenu';
+import { InstallPrompt } from './components/InstallPrompt';
+import { MicrophoneStatus } from './components/MicrophoneStatus';
+import { InputDevicePanel } from './components/InputDevicePanel';
+import { InputPreferences, inputSettingsFor, loadInputPreferences, saveInputPreferences } from './utils/inputDevices';
+import { createInputSource } from './utils/inputSources';
+import { ClassModePanel } from './components/ClassModePanel';
+import {
+  ClassFollower,
+  ClassLeader,
+  ClassSettings,
+  ConnectionStatus,
+  classTransport,
+  loadClassSettings,
+  saveClassSettings,
+} from './utils/classSync';
+import { AudioInputError } from './utils/audioErrors';
+import { MidiOutputPanel } from './components/MidiOutputPanel';
+import { MidiBeatOutput, MidiOutputSettings, loadMidiSettings, openMidiOutput, saveMidiSettings } from './utils/midiOutput';
 import './App.css';
 
 function App() {
@@ -11,23 +64,151 @@ function App() {
   const [currentBeat, setCurrentBeat] = useState(0);
   const [cycle, setCycle] = useState(0);
   const [isDownbeat, setIsDownbeat] = useState(false);
-  const [isDashBeat, setIsDashBeat] = useState(false);
+  const [countStep, setCountStep] = useState<CountStep | null>(null);
+  const [subdivision, setSubdivision] = useState<string | null>(null);
+  const [schemeId, setSchemeId] = useState<CountingSchemeId>(DEFAULT_COUNTING_SCHEME.id);
+  const [clave, setClave] = useState<ClaveReading | null>(null);
   const [bpm, setBPM] = useState(0);
   const currentBPMRef = useRef<number>(0); // Track current BPM for beat counter
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | AudioInputError | null>(null);
+  const [inputStatus, setInputStatus] = useState<AudioInputStatus>('running');
+  const [inputError, setInputError] = useState<AudioInputError | null>(null);
   // Enable haptic feedback by default, especially on mobile
   const isMobileDevice = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent);
   const [hapticEnabled, setHapticEnabled] = useState(isMobileDevice);
-  const [noMusicDetected, setNoMusicDetected] = useState(false);
+  const [trackingState, setTrackingState] = useState<TrackingState>('idle');
+  const [beatConfidence, setBeatConfidence] = useState(0);
+  const [bpmConfidence, setBPMConfidence] = useState(0);
+  const [trackName, setTrackName] = useState<string | null>(null);
+  const [trackGrid, setTrackGrid] = useState<BeatGrid | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null);
+  const [isTrackPlaying, setIsTrackPlaying] = useState(false);
+  const [trackTime, setTrackTime] = useState(0);
+  const [trackDuration, setTrackDuration] = useState(0);
+  const [isManual, setIsManual] = useState(false); // Tempo or "the 1" set by hand
+  const [isPracticeOpen, setIsPracticeOpen] = useState(false);
+  const [cuesEnabled, setCuesEnabled] = useState(false);
+  const [storedLatency, setStoredLatency] = useState<LatencyProfile | null>(() => loadLatencyProfile());
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const latencyProfile = storedLatency ?? DEFAULT_LATENCY_PROFILE;
+  const [audioTuning, setAudioTuning] = useState<StoredTuning>(() => loadTuning());
+  const [isAudioSettingsOpen, setIsAudioSettingsOpen] = useState(false);
+  const [inputPreferences, setInputPreferences] = useState<InputPreferences>(() => loadInputPreferences());
+  const [isInputOpen, setIsInputOpen] = useState(false);
+  const [classSettings, setClassSettings] = useState<ClassSettings>(() => loadClassSettings());
+  const [isClassOpen, setIsClassOpen] = useState(false);
+  const [classStatus, setClassStatus] = useState<ConnectionStatus | null>(null);
+  const [studentCount, setStudentCount] = useState(0);
+  const [isFollowing, setIsFollowing] = useState(false); // Student: beats are arriving from the instructor
+  const [midiSettings, setMidiSettings] = useState<MidiOutputSettings>(() => loadMidiSettings());
+  const [isMidiOpen, setIsMidiOpen] = useState(false);
+  const [isMidiConnected, setIsMidiConnected] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [recordAudio, setRecordAudio] = useState(() => loadRecordAudioPreference());
+  const [voicePack, setVoicePack] = useState<VoicePackId>('spanish');
+  const [cueVolume, setCueVolume] = useState(0.8);
+  const [cueDucking, setCueDucking] = useState(0.5);
+  const [isPracticing, setIsPracticing] = useState(false);
+  const [practiceSettings, setPracticeSettings] = useState<PracticeSettings>({
+    bpm: 150,
+    layers: ALL_PERCUSSION_LAYERS,
+    rampEnabled: false,
+    rampTargetBPM: 200,
+    rampMinutes: 5,
+  });
 
   const audioProcessorRef = useRef<AudioProcessor | null>(null);
   const beatCounterRef = useRef<BeatCounterUtil>(new BeatCounterUtil());
   const hapticFeedbackRef = useRef<HapticFeedback>(new HapticFeedback());
   const lastBeatTimeRef = useRef<number>(0);
-  const noMusicTimerRef = useRef<number | null>(null);
-  const hasDetectedBeatRef = useRef<boolean>(false);
-  const musicStoppedTimerRef = useRef<number | null>(null);
-  const NO_MUSIC_TIMEOUT = 2000; // 2 seconds without beats = music stopped
+  const trackPlayerRef = useRef<TrackPlayer | null>(null);
+  const subdivisionTimersRef = useRef<number[]>([]);
+  const tapTempoRef = useRef<TapTempo>(new TapTempo());
+  const practiceRef = useRef<PracticeMetronome | null>(null);
+  const cuePlayerRef = useRef<CountCuePlayer | null>(null);
+  const sessionRecorderRef = useRef<SessionRecorder | null>(null);
+  const wakeLockRef = useRef<ScreenWakeLock>(new ScreenWakeLock());
+  const classLeaderRef = useRef<ClassLeader | null>(null);
+  const classFollowerRef = useRef<ClassFollower | null>(null);
+  const midiOutputRef = useRef<MidiBeatOutput | null>(null);
+  const midiRequestRef = useRef(0); // Only the latest port choice is opened
+
+  const clearSubdivisions = () => {
+    subdivisionTimersRef.current.forEach((timer) => clearTimeout(timer));
+    subdivisionTimersRef.current = [];
+    setSubdivision(null);
+  };
+
+  const applyCounterState = useCallback((counterState: BeatCounterState) => {
+    // Update UI for all beats (including rests)
+    setCurrentBeat(counterState.currentBeat);
+    setCycle(counterState.cycle);
+    setIsDownbeat(counterState.isDownbeat);
+    setCountStep(counterState.step);
+    setClave(counterState.clave);
+
+    const hapticsOn = hapticEnabled && hapticFeedbackRef.current.isAvailable();
+    // Haptic feedback as the counting scheme describes it (rests don't vibrate)
+    if (hapticsOn) {
+      // Add small delay to ensure vibration API works (some browsers need this)
+      setTimeout(() => hapticFeedbackRef.current.step(counterState.currentBeat), 0);
+    }
+
+    // Spoken count for the next beat, scheduled ahead so it lands on the beat
+    const nextBeatTime = beatCounterRef.current.getExpectedNextBeatTime();
+    if (cuePlayerRef.current && nextBeatTime !== null && currentBPMRef.current > 0) {
+      const nextPosition = (counterState.currentBeat % 8) + 1;
+      const nextStep = getCountStep(beatCounterRef.current.getScheme(), nextPosition);
+      cuePlayerRef.current.scheduleBeat(nextBeatTime, nextPosition, nextStep, 60000 / currentBPMRef.current);
+    }
+
+    // Half-beat calls (e.g. cha-cha's "4-and-5") are spread evenly until the next beat
+    clearSubdivisions();
+    const { subdivisions } = counterState.step;
+    if (subdivisions.length > 0 && currentBPMRef.current > 0) {
+      const interval = 60000 / currentBPMRef.current;
+      subdivisions.forEach((label, i) => {
+        const timer = window.setTimeout(() => {
+          setSubdivision(label);
+          if (hapticsOn) hapticFeedbackRef.current.subdivision();
+        }, (interval * (i + 1)) / (subdivisions.length + 1));
+        subdivisionTimersRef.current.push(timer);
+      });
+    }
+  }, [hapticEnabled]);
+
+  const toggleCues = async (enabled: boolean) => {
+    setCuesEnabled(enabled);
+    if (!enabled) {
+      cuePlayerRef.current?.dispose();
+      cuePlayerRef.current = null;
+      return;
+    }
+    const cuePlayer = new CountCuePlayer({
+      voicePack,
+      volume: cueVolume,
+      ducking: cueDucking,
+      // Only music we play ourselves can be ducked
+      onDuck: (timestamp, depth, duration) => {
+        trackPlayerRef.current?.duck(timestamp, depth, duration);
+        practiceRef.current?.duck(timestamp, depth, duration);
+      },
+    });
+    cuePlayerRef.current = cuePlayer;
+    try {
+      await cuePlayer.start();
+    } catch (err) {
+      console.error('Error starting count cues:', err);
+    }
+  };
+
+  const changeScheme = (id: CountingSchemeId) => {
+    const scheme = COUNTING_SCHEMES[id];
+    setSchemeId(id);
+    beatCounterRef.current.setScheme(scheme);
+    hapticFeedbackRef.current.setScheme(scheme);
+    clearSubdivisions();
+  };
 
   const handleBeat = useCallback((result: BeatDetectionResult) => {
     const now = performance.now();
@@ -37,135 +218,561 @@ function App() {
       return;
     }
     
-    // Only process beats if energy is high enough (actual music, not background noise)
-    // This prevents false beats from background noise when music stops
-    const MIN_VALID_ENERGY = 2.5; // Higher threshold to filter out noise
-    if (result.energy < MIN_VALID_ENERGY) {
-      // Energy too low, don't count as valid beat
-      // Don't reset the timer - let it continue counting
-      return;
-    }
-    
     lastBeatTimeRef.current = now;
+    setBeatConfidence(result.confidence);
+    sessionRecorderRef.current?.addBeat(result);
 
-    // Clear no music warning when valid beats are detected
-    hasDetectedBeatRef.current = true;
-    setNoMusicDetected(false);
-    if (noMusicTimerRef.current) {
-      clearTimeout(noMusicTimerRef.current);
-      noMusicTimerRef.current = null;
-    }
-    if (musicStoppedTimerRef.current) {
-      clearTimeout(musicStoppedTimerRef.current);
-      musicStoppedTimerRef.current = null;
-    }
+    // Update beat counter with current BPM for consistent timing
+    const counterState = beatCounterRef.current.updateBeat(result.phase, result.timestamp, currentBPMRef.current);
     
-    // Set timer to check if music stops (no valid beats for a while)
-    musicStoppedTimerRef.current = setTimeout(() => {
-      setNoMusicDetected(true);
-      // Reset beat counter when music stops
+    applyCounterState(counterState);
+    classLeaderRef.current?.sendBeat(result.timestamp, counterState.currentBeat, currentBPMRef.current, result.confidence);
+    midiOutputRef.current?.beat(counterState.currentBeat, result.timestamp, currentBPMRef.current);
+  }, [applyCounterState]);
+
+  const handleBPMUpdate = useCallback((newBPM: number, confidence = 1) => {
+    setBPM(newBPM);
+    setBPMConfidence(confidence);
+    currentBPMRef.current = newBPM; // Update ref for beat counter
+  }, []);
+
+  const handleStateChange = useCallback((status: TrackingStatus) => {
+    sessionRecorderRef.current?.addState(status);
+    setTrackingState(status.state);
+    setBeatConfidence(status.confidence);
+    // Once the beat is lost the count is stale; start over when the music comes back
+    if (status.state === 'lost' || status.state === 'idle') {
+      classLeaderRef.current?.sendStop();
+      beatCounterRef.current.reset();
       setCurrentBeat(0);
       setCycle(0);
       setIsDownbeat(false);
-      setIsDashBeat(false);
+      setCountStep(null);
+      clearSubdivisions();
+      setClave(null);
       setBPM(0);
-    }, NO_MUSIC_TIMEOUT);
+      setBPMConfidence(0);
+    }
+  }, []);
 
-    // Update beat counter with current BPM for consistent timing
-    const counterState = beatCounterRef.current.updateBeat(result.downbeat, result.timestamp, currentBPMRef.current);
-    
-    // Update UI for all beats (including dash beats 4 and 8)
-    setCurrentBeat(counterState.currentBeat);
-    setCycle(counterState.cycle);
-    setIsDownbeat(counterState.isDownbeat);
-    setIsDashBeat(counterState.isDashBeat);
+  // Beats from an analyzed track come from its precomputed grid, not live detection
+  const handleGridBeat = useCallback((beat: GridBeat, timestamp: number) => {
+    // The grid's count is final, so it's fully confident
+    const phase = { position: beat.position, confidence: 1, realigned: false };
+    const counterState = beatCounterRef.current.updateBeat(phase, timestamp, currentBPMRef.current);
+    applyCounterState(counterState);
+    classLeaderRef.current?.sendBeat(timestamp, counterState.currentBeat, currentBPMRef.current, 1);
+    midiOutputRef.current?.beat(counterState.currentBeat, timestamp, currentBPMRef.current);
+  }, [applyCounterState]);
 
-    // Haptic feedback (skip for dash beats 4 and 8)
-    // Vibrate on beats: 1, 2, 3, 5, 6, 7 (skipping 4 and 8)
-    if (hapticEnabled && hapticFeedbackRef.current.isAvailable() && !counterState.isDashBeat) {
-      // Add small delay to ensure vibration API works (some browsers need this)
-      setTimeout(() => {
-        if (counterState.isDownbeat) {
-          hapticFeedbackRef.current.downbeat();
-        } else {
-          hapticFeedbackRef.current.beat();
-        }
-      }, 0);
+  // Manual corrections while listening: tapped tempo and "this is the 1"
+  const tapTempo = useCallback(() => {
+    const tappedBPM = tapTempoRef.current.tap(performance.now());
+    if (tappedBPM === null || !audioProcessorRef.current) return;
+    audioProcessorRef.current.setManualTempo(tappedBPM);
+    setIsManual(true);
+  }, []);
+
+  const markDownbeat = useCallback(() => {
+    if (!audioProcessorRef.current) return;
+    const now = performance.now();
+    audioProcessorRef.current.markDownbeat(now);
+    setIsManual(true);
+
+    // Show the corrected count now rather than on the next beat
+    const counterState = beatCounterRef.current.markDownbeat(now);
+    if (counterState) {
+      setCurrentBeat(counterState.currentBeat);
+      setCycle(counterState.cycle);
+      setIsDownbeat(counterState.isDownbeat);
+      setCountStep(counterState.step);
     }
-  }, [hapticEnabled]);
+  }, []);
 
-  const handleBPMUpdate = useCallback((newBPM: number) => {
-    setBPM(newBPM);
-    currentBPMRef.current = newBPM; // Update ref for beat counter
+  const releaseToAuto = useCallback(() => {
+    audioProcessorRef.current?.releaseManual();
+    tapTempoRef.current.reset();
+    setIsManual(false);
   }, []);
 
+  useEffect(() => {
+    if (!isListening) return;
+
+    // T taps the tempo, 1 or Enter marks "the 1", A or Escape releases to auto
+    // Keys typed into a control, or Enter activating a focused button, belong to that element
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target;
+      if (
+        e.repeat ||
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLSelectElement ||
+        target instanceof HTMLTextAreaElement ||
+        target instanceof HTMLButtonElement ||
+        (target instanceof HTMLElement && target.isContentEditable)
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === 't') {
+        tapTempo();
+      } else if (key === '1' || key === 'enter') {
+        e.preventDefault();
+        markDownbeat();
+      } else if (key === 'a' || key === 'escape') {
+        releaseToAuto();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isListening, tapTempo, markDownbeat, releaseToAuto]);
+
+  // Practice groove beats are generated, so their count is exact like a track grid
+  const handlePracticeBeat = useCallback((position: number, timestamp: number) => {
+    const phase = { position, confidence: 1, realigned: false };
+    const counterState = beatCounterRef.current.updateBeat(phase, timestamp, currentBPMRef.current);
+    applyCounterState(counterState);
+    classLeaderRef.current?.sendBeat(timestamp, counterState.currentBeat, currentBPMRef.current, 1);
+    midiOutputRef.current?.beat(counterState.currentBeat, timestamp, currentBPMRef.current);
+  }, [applyCounterState]);
+
+  // A student's beats are the instructor's count, so they're taken as they are
+  const handleClassBeat = useCallback((position: number, timestamp: number) => {
+    const phase = { position, confidence: 1, realigned: false };
+    const counterState = beatCounterRef.current.updateBeat(phase, timestamp, currentBPMRef.current);
+    applyCounterState(counterState);
+    midiOutputRef.current?.beat(counterState.currentBeat, timestamp, currentBPMRef.current);
+  }, [applyCounterState]);
+
+  const practiceRamp = (settings: PracticeSettings): TempoRamp | null =>
+    settings.rampEnabled
+      ? { startBPM: settings.bpm, endBPM: settings.rampTargetBPM, durationSeconds: settings.rampMinutes * 60 }
+      : null;
+
+  const startPractice = async () => {
+    setError(null);
+    beatCounterRef.current.reset();
+    const metronome = new PracticeMetronome(
+      { onBeat: handlePracticeBeat, onBPMUpdate: handleBPMUpdate },
+      {
+        bpm: practiceSettings.bpm,
+        layers: practiceSettings.layers,
+        ramp: practiceRamp(practiceSettings),
+        feedbackLead: latencyProfile.feedbackOffset,
+      },
+    );
+    practiceRef.current = metronome;
+    try {
+      await metronome.start();
+      setIsPracticing(true);
+    } catch (err) {
+      // Release the half-started groove so the next attempt starts afresh
+      metronome.stop();
+      if (practiceRef.current === metronome) {
+        practiceRef.current = null;
+      }
+      const errorMessage = err instanceof Error ? err.message : 'Failed to start audio';
+      setError(errorMessage);
+      console.error('Error starting practice groove:', err);
+    }
+  };
+
+  const stopPractice = () => {
+    if (practiceRef.current) {
+      practiceRef.current.stop();
+      practiceRef.current = null;
+    }
+    setIsPracticing(false);
+    beatCounterRef.current.reset();
+    setCurrentBeat(0);
+    setCycle(0);
+    setIsDownbeat(false);
+    setCountStep(null);
+    clearSubdivisions();
+    setClave(null);
+    setBPM(0);
+    currentBPMRef.current = 0;
+  };
+
+  const changePracticeSettings = (settings: PracticeSettings) => {
+    const previous = practiceSettings;
+    setPracticeSettings(settings);
+    const metronome = practiceRef.current;
+    if (!metronome) return;
+
+    metronome.setLayers(settings.layers);
+    const rampChanged =
+      settings.rampEnabled !== previous.rampEnabled ||
+      (settings.rampEnabled &&
+        (settings.rampTargetBPM !== previous.rampTargetBPM || settings.rampMinutes !== previous.rampMinutes));
+    if (settings.bpm === previous.bpm && !rampChanged) return;
+    if (settings.rampEnabled) {
+      // A changed ramp starts over from its start tempo
+      metronome.setRamp(practiceRamp(settings));
+    } else {
+      metronome.setBPM(settings.bpm);
+    }
+  };
+
+  const openHistory = () => {
+    stopListening();
+    closeTrack();
+    closePractice();
+    setIsCalibrating(false);
+    setIsHistoryOpen(true);
+  };
+
+  const openCalibration = () => {
+    stopListening();
+    closeTrack();
+    closePractice();
+    setIsHistoryOpen(false);
+    setIsCalibrating(true);
+  };
+
+  const saveCalibration = (profile: LatencyProfile) => {
+    saveLatencyProfile(profile);
+    setStoredLatency(profile);
+    setIsCalibrating(false);
+  };
+
+  const resetCalibration = () => {
+    clearLatencyProfile();
+    setStoredLatency(null);
+  };
+
+  const applyTuning = (stored: StoredTuning) => {
+    setAudioTuning(stored);
+    saveTuning(stored);
+    // Takes effect immediately if we're listening
+    audioProcessorRef.current?.updateOptions(stored.tuning);
+  };
+
+  const changeAudioPreset = (presetId: AudioPresetId) => {
+    applyTuning({ presetId, tuning: AUDIO_PRESETS[presetId].tuning });
+  };
+
+  const changeAudioTuning = (tuning: DetectionTuning) => {
+    applyTuning({ presetId: audioTuning.presetId, tuning });
+  };
+
+  const changeInputPreferences = (preferences: InputPreferences) => {
+    setInputPreferences(preferences);
+    saveInputPreferences(preferences);
+    // Switches the live input if we're listening
+    audioProcessorRef.current?.updateOptions({
+      source: createInputSource(preferences.source, inputSettingsFor(preferences)),
+    });
+  };
+
+  const openPractice = () => {
+    leaveClassAsStudent();
+    stopListening();
+    closeTrack();
+    setIsPracticeOpen(true);
+  };
+
+  const closePractice = () => {
+    stopPractice();
+    setIsPracticeOpen(false);
+  };
+
+  const closeTrack = () => {
+    if (trackPlayerRef.current) {
+      trackPlayerRef.current.dispose();
+      trackPlayerRef.current = null;
+    }
+    setTrackName(null);
+    setTrackGrid(null);
+    setIsTrackPlaying(false);
+    setTrackTime(0);
+    setTrackDuration(0);
+    beatCounterRef.current.reset();
+    setCurrentBeat(0);
+    setCycle(0);
+    setIsDownbeat(false);
+    setCountStep(null);
+    clearSubdivisions();
+    setClave(null);
+    setBPM(0);
+    currentBPMRef.current = 0;
+  };
+
+  const loadTrack = async (file: File) => {
+    leaveClassAsStudent();
+    stopListening();
+    closeTrack();
+    setError(null);
+    setAnalysisProgress(0);
+    try {
+      const { buffer, grid } = await analyzeAudioFile(file, audioTuning.tuning, setAnalysisProgress);
+      if (grid.beats.length === 0) {
+        throw new Error('No beats found in this track');
+      }
+      trackPlayerRef.current = new TrackPlayer(buffer, grid, {
+        onBeat: handleGridBeat,
+        onTimeUpdate: setTrackTime,
+        onEnded: () => setIsTrackPlaying(false),
+      });
+      trackPlayerRef.current.setFeedbackLead(latencyProfile.feedbackOffset);
+      const trackBPM = Math.round(grid.bpm);
+      setBPM(trackBPM);
+      currentBPMRef.current = trackBPM;
+      setTrackName(file.name);
+      setTrackGrid(grid);
+      setTrackDuration(buffer.duration);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to analyze track';
+      setError(errorMessage);
+      console.error('Error analyzing track:', err);
+    } finally {
+      setAnalysisProgress(null);
+    }
+  };
+
+  const playTrack = async () => {
+    if (!trackPlayerRef.current) return;
+    setError(null);
+    try {
+      await trackPlayerRef.current.play();
+      setIsTrackPlaying(true);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to start playback';
+      setError(errorMessage);
+      console.error('Error playing track:', err);
+    }
+  };
+
+  const pauseTrack = () => {
+    trackPlayerRef.current?.pause();
+    setIsTrackPlaying(false);
+  };
+
   const startListening = async () => {
     try {
+      leaveClassAsStudent();
+      closeTrack();
       setError(null);
-      const processor = new AudioProcessor({
-        onBeat: handleBeat,
-        onBPMUpdate: handleBPMUpdate,
-      });
+      const processor = new AudioProcessor(
+        {
+          onBeat: handleBeat,
+          onBPMUpdate: (newBPM, _candidates, confidence) => {
+            sessionRecorderRef.current?.addTempo(newBPM, confidence, performance.now());
+            handleBPMUpdate(newBPM, confidence);
+          },
+          onStateChange: handleStateChange,
+          onEnergy: (energy, timestamp) => sessionRecorderRef.current?.addEnergy(energy, timestamp),
+          onInputStatus: (status, inputErr) => {
+            setInputStatus(status);
+            setInputError(inputErr ?? null);
+          },
+        },
+        {
+          ...audioTuning.tuning,
+          inputLatency: latencyProfile.inputLatency,
+          feedbackOffset: latencyProfile.feedbackOffset,
+          source: createInputSource(inputPreferences.source, inputSettingsFor(inputPreferences)),
+        },
+      );
       
       await processor.start();
       audioProcessorRef.current = processor;
+      sessionRecorderRef.current = new SessionRecorder(
+        {
+          userAgent: navigator.userAgent,
+          analysis: processor.getAnalysisMode(),
+          sampleRate: processor.getSampleRate(),
+          countingScheme: schemeId,
+          presetId: audioTuning.presetId,
+          tuning: audioTuning.tuning,
+          latency: latencyProfile,
+          calibrated: storedLatency !== null,
+        },
+        recordAudio ? processor.getStream() : null,
+      );
       setIsListening(true);
+      setInputStatus('running');
+      setInputError(null);
       beatCounterRef.current.reset();
       setCurrentBeat(0);
       setCycle(0);
       setIsDownbeat(false);
-      setIsDashBeat(false);
+      setCountStep(null);
+      clearSubdivisions();
+      setClave(null);
       setBPM(0);
-      setNoMusicDetected(false);
-      hasDetectedBeatRef.current = false;
-      
-      // Set timer to check if no beats are detected after 5 seconds
-      noMusicTimerRef.current = setTimeout(() => {
-        if (!hasDetectedBeatRef.current) {
-          setNoMusicDetected(true);
-        }
-      }, 5000);
+      setBPMConfidence(0);
+      setBeatConfidence(0);
+      setTrackingState('idle');
+      setIsManual(false);
+      tapTempoRef.current.reset();
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to access microphone';
-      setError(errorMessage);
+      // start() throws AudioInputError, which carries its own explanation
+      setError(err instanceof AudioInputError ? err : 'Failed to access microphone');
       console.error('Error starting audio processor:', err);
     }
   };
 
   const stopListening = () => {
+    // The recorder has to stop before the microphone does, or the audio is cut short
+    const recorder = sessionRecorderRef.current;
+    sessionRecorderRef.current = null;
+    if (recorder) {
+      recorder
+        .finish()
+        .then((session) => {
+          // A session that never found a beat has nothing to look back at
+          if (session.record.beats.length > 0) return saveSession(session);
+        })
+        .catch((err) => console.warn('Failed to save the session:', err));
+    }
     if (audioProcessorRef.current) {
       audioProcessorRef.current.stop();
       audioProcessorRef.current = null;
     }
-    if (noMusicTimerRef.current) {
-      clearTimeout(noMusicTimerRef.current);
-      noMusicTimerRef.current = null;
-    }
-    if (musicStoppedTimerRef.current) {
-      clearTimeout(musicStoppedTimerRef.current);
-      musicStoppedTimerRef.current = null;
-    }
     setIsListening(false);
     setCurrentBeat(0);
     setCycle(0);
     setIsDownbeat(false);
-    setIsDashBeat(false);
+    setCountStep(null);
+    clearSubdivisions();
+    setClave(null);
     setBPM(0);
-    setNoMusicDetected(false);
-    hasDetectedBeatRef.current = false;
+    setBPMConfidence(0);
+    setBeatConfidence(0);
+    setTrackingState('idle');
+    setIsManual(false);
+    tapTempoRef.current.reset();
+  };
+
+  const closeClass = () => {
+    classLeaderRef.current?.close();
+    classLeaderRef.current = null;
+    if (classFollowerRef.current) {
+      classFollowerRef.current.close();
+      classFollowerRef.current = null;
+      handleStateChange({ state: 'idle', confidence: 0, timestamp: performance.now() });
+    }
+    setClassStatus(null);
+    setStudentCount(0);
+    setIsFollowing(false);
   };
 
+  const changeClassSettings = (settings: ClassSettings) => {
+    closeClass();
+    setClassSettings(settings);
+    saveClassSettings(settings);
+    if (settings.role === 'off') return;
+
+    const connect = classTransport(settings);
+    if (settings.role === 'instructor') {
+      classLeaderRef.current = new ClassLeader(connect, {
+        onStudentsChange: setStudentCount,
+        onStatusChange: setClassStatus,
+      });
+      return;
+    }
+
+    // Students count from the instructor only; their own audio stays off
+    stopListening();
+    closeTrack();
+    closePractice();
+    beatCounterRef.current.reset();
+    handleStateChange({ state: 'searching', confidence: 0, timestamp: performance.now() });
+    classFollowerRef.current = new ClassFollower(
+      connect,
+      {
+        onBeat: handleClassBeat,
+        onBPMUpdate: (newBPM) => handleBPMUpdate(newBPM),
+        onFollowingChange: (following) => {
+          setIsFollowing(following);
+          handleStateChange({ state: following ? 'locked' : 'lost', confidence: following ? 1 : 0, timestamp: performance.now() });
+        },
+        onStatusChange: setClassStatus,
+      },
+      latencyProfile.feedbackOffset,
+    );
+  };
+
+  // Listening, a track or the practice groove all take over from the instructor
+  const leaveClassAsStudent = () => {
+    if (classSettings.role === 'student') {
+      changeClassSettings({ ...classSettings, role: 'off' });
+    }
+  };
+
+  // Opens the chosen port; settings changes on the same port apply without reopening it
+  const connectMidi = useCallback(async (settings: MidiOutputSettings) => {
+    const current = midiOutputRef.current;
+    if (current && current.getPortId() === settings.portId) {
+      current.updateSettings(settings);
+      return;
+    }
+    current?.close();
+    midiOutputRef.current = null;
+    setIsMidiConnected(false);
+    const request = ++midiRequestRef.current;
+    if (!settings.portId) return;
+    try {
+      const port = await openMidiOutput(settings.portId);
+      // Not plugged in, the panel shows it as not connected; or another port was chosen meanwhile
+      if (!port || request !== midiRequestRef.current) return;
+      midiOutputRef.current = new MidiBeatOutput(port, settings);
+      setIsMidiConnected(true);
+    } catch (err) {
+      console.warn('Failed to open the MIDI output:', err);
+    }
+  }, []);
+
+  const changeMidiSettings = (settings: MidiOutputSettings) => {
+    setMidiSettings(settings);
+    saveMidiSettings(settings);
+    void connectMidi(settings);
+  };
+
+  // A port chosen in an earlier visit is opened again (the browser only asks the first time)
+  useEffect(() => {
+    const saved = loadMidiSettings();
+    if (saved.portId) void connectMidi(saved);
+  }, [connectMidi]);
+
+  // MIDI Start/Stop follows the beat: a locked tracker, a playing track or the practice groove
+  const isBeatLocked = isPracticing || isTrackPlaying || trackingState === 'locked' || trackingState === 'drifting';
+  useEffect(() => {
+    midiOutputRef.current?.setLocked(isBeatLocked);
+  }, [isBeatLocked, isMidiConnected]);
+
+  // Students stop counting as soon as the instructor does
+  useEffect(() => {
+    if (!isListening && !isPracticing && !isTrackPlaying) {
+      classLeaderRef.current?.sendStop();
+    }
+  }, [isListening, isPracticing, isTrackPlaying]);
+
+  // Keep the screen on while the beat is on display; a sleeping phone stops the animation loop
+  useEffect(() => {
+    if (isListening || isPracticing || isTrackPlaying || isFollowing) {
+      void wakeLockRef.current.acquire();
+    } else {
+      void wakeLockRef.current.release();
+    }
+  }, [isListening, isPracticing, isTrackPlaying, isFollowing]);
+
   useEffect(() => {
+    const wakeLock = wakeLockRef.current;
     return () => {
+      void wakeLock.release();
       if (audioProcessorRef.current) {
         audioProcessorRef.current.stop();
       }
-      if (noMusicTimerRef.current) {
-        clearTimeout(noMusicTimerRef.current);
-      }
-      if (musicStoppedTimerRef.current) {
-        clearTimeout(musicStoppedTimerRef.current);
+      if (trackPlayerRef.current) {
+        trackPlayerRef.current.dispose();
       }
+      practiceRef.current?.stop();
+      classLeaderRef.current?.close();
+      classFollowerRef.current?.close();
+      midiOutputRef.current?.close();
+      cuePlayerRef.current?.dispose();
+      subdivisionTimersRef.current.forEach((timer) => clearTimeout(timer));
     };
   }, []);
 
@@ -179,35 +786,96 @@ function App() {
 
         {error && (
           <div className="error-message">
-            <p>⚠️ {error}</p>
-            <p className="error-hint">
-              Please ensure you've granted microphone permissions and try again.
-            </p>
+            <p>⚠️ {typeof error === 'string' ? error : error.help.title}</p>
+            {typeof error !== 'string' && <p className="error-hint">{error.help.hint}</p>}
           </div>
         )}
 
+        {isListening && (
+          <MicrophoneStatus
+            status={inputStatus}
+            sourceKind={inputPreferences.source}
+            error={inputError}
+            onResume={() => audioProcessorRef.current?.resume()}
+            onReconnect={() => audioProcessorRef.current?.reconnect()}
+          />
+        )}
+
         <div className="main-content">
           <div className="bpm-section">
-            <BPMDisplay bpm={bpm} />
+            <BPMDisplay
+              bpm={bpm}
+              confidence={isListening ? bpmConfidence : undefined}
+              trackingState={isListening || classSettings.role === 'student' ? trackingState : undefined}
+            />
           </div>
 
           <BeatCounter
             currentBeat={currentBeat || 0}
             cycle={cycle}
             isDownbeat={isDownbeat}
-            isDashBeat={isDashBeat}
+            step={countStep ?? undefined}
+            subdivision={subdivision}
+            clave={clave}
             isActive={currentBeat > 0}
-            noMusicDetected={noMusicDetected && isListening}
+            trackingState={isListening || classSettings.role === 'student' ? trackingState : undefined}
+            confidence={isListening ? beatConfidence : undefined}
           />
 
           <div className="controls">
-            {!isListening ? (
+            {isHistoryOpen ? (
+              <SessionHistory onClose={() => setIsHistoryOpen(false)} />
+            ) : isCalibrating ? (
+              <LatencyCalibrationWizard
+                current={storedLatency}
+                onSave={saveCalibration}
+                onReset={resetCalibration}
+                onClose={() => setIsCalibrating(false)}
+              />
+            ) : isPracticeOpen ? (
+              <PracticeControls
+                settings={practiceSettings}
+                isRunning={isPracticing}
+                onChange={changePracticeSettings}
+                onStart={startPractice}
+                onStop={stopPractice}
+                onClose={closePractice}
+              />
+            ) : trackName ? (
+              <>
+                <TrackPlayerControls
+                  fileName={trackName}
+                  isPlaying={isTrackPlaying}
+                  currentTime={trackTime}
+                  duration={trackDuration}
+                  onPlay={playTrack}
+                  onPause={pauseTrack}
+                  onSeek={(time) => trackPlayerRef.current?.seek(time)}
+                  onClose={closeTrack}
+                />
+                {trackGrid && (
+                  <BeatExportMenu
+                    grid={exportFromGrid(trackGrid, trackName)}
+                    scheme={COUNTING_SCHEMES[schemeId]}
+                    fileName={trackName.replace(/\.[^.]+$/, '')}
+                  />
+                )}
+              </>
+            ) : analysisProgress !== null ? (
+              <p className="analysis-progress">
+                Analyzing track… {Math.round(analysisProgress * 100)}%
+              </p>
+            ) : classSettings.role === 'student' ? (
+              <button className="btn btn-secondary" onClick={() => changeClassSettings({ ...classSettings, role: 'off' })}>
+                ⏹ Leave class
+              </button>
+            ) : !isListening ? (
               <button
                 className="btn btn-primary"
                 onClick={startListening}
-                disabled={!!error}
+                disabled={error instanceof AudioInputError && !error.help.canRetry}
               >
-                🎤 Start Listening
+                {error instanceof AudioInputError ? '🔄 Try again' : '🎤 Start Listening'}
               </button>
             ) : (
               <button
@@ -218,6 +886,76 @@ function App() {
               </button>
             )}
 
+            {isListening && (
+              <div className="manual-controls">
+                <button className="btn btn-tap" onClick={tapTempo} title="Tap along to set the tempo (T)">
+                  👆 Tap tempo
+                </button>
+                <button className="btn btn-tap" onClick={markDownbeat} title="Press on the 1 to re-align the count (1 / Enter)">
+                  1️⃣ This is the 1
+                </button>
+                {isManual && (
+                  <button className="btn btn-auto" onClick={releaseToAuto} title="Go back to automatic detection (A / Esc)">
+                    ↺ Auto
+                  </button>
+                )}
+              </div>
+            )}
+
+            {!isListening && !trackName && !isPracticeOpen && !isCalibrating && analysisProgress === null && (
+              <button className="btn btn-tap" onClick={openPractice}>
+                🥁 Practice groove
+              </button>
+            )}
+
+            {!isListening && !trackName && !isPracticeOpen && !isCalibrating && analysisProgress === null && (
+              <label className="file-input">
+                <input
+                  type="file"
+                  accept="audio/*"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) {
+                      loadTrack(file);
+                    }
+                  }}
+                />
+                <span>📂 Analyze a track</span>
+              </label>
+            )}
+
+            <label className="scheme-select">
+              <span>Count</span>
+              <select value={schemeId} onChange={(e) => changeScheme(e.target.value as CountingSchemeId)}>
+                {Object.values(COUNTING_SCHEMES).map((scheme) => (
+                  <option key={scheme.id} value={scheme.id} title={scheme.description}>
+                    {scheme.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <CountCueControls
+              enabled={cuesEnabled}
+              voicePack={voicePack}
+              volume={cueVolume}
+              ducking={cueDucking}
+              onEnabledChange={toggleCues}
+              onVoicePackChange={(id) => {
+                setVoicePack(id);
+                cuePlayerRef.current?.setVoicePack(id);
+              }}
+              onVolumeChange={(volume) => {
+                setCueVolume(volume);
+                cuePlayerRef.current?.setVolume(volume);
+              }}
+              onDuckingChange={(ducking) => {
+                setCueDucking(ducking);
+                cuePlayerRef.current?.setDucking(ducking);
+              }}
+            />
+
             <label className="haptic-toggle">
               <input
                 type="checkbox"
@@ -232,6 +970,91 @@ function App() {
                 <span className="hint">(Not available on this device)</span>
               )}
             </label>
+
+            <label className="haptic-toggle">
+              <input
+                type="checkbox"
+                checked={recordAudio}
+                onChange={(e) => {
+                  setRecordAudio(e.target.checked);
+                  saveRecordAudioPreference(e.target.checked);
+                }}
+              />
+              <span>Keep the audio with each session</span>
+            </label>
+
+            {!isHistoryOpen && (
+              <button className="calibrate-link" onClick={openHistory}>
+                📜 Session history
+              </button>
+            )}
+
+            {!isCalibrating && (
+              <button className="calibrate-link" onClick={openCalibration}>
+                ⏱ {storedLatency ? 'Recalibrate latency' : 'Calibrate latency for this device'}
+              </button>
+            )}
+
+            {isAudioSettingsOpen ? (
+              <AudioSettingsPanel
+                presetId={audioTuning.presetId}
+                tuning={audioTuning.tuning}
+                onPresetChange={changeAudioPreset}
+                onTuningChange={changeAudioTuning}
+                onClose={() => setIsAudioSettingsOpen(false)}
+              />
+            ) : (
+              <button className="calibrate-link" onClick={() => setIsAudioSettingsOpen(true)}>
+                ⚙️ Audio settings ({AUDIO_PRESETS[audioTuning.presetId].name})
+              </button>
+            )}
+
+            {isInputOpen ? (
+              <InputDevicePanel
+                preferences={inputPreferences}
+                isListening={isListening}
+                onChange={changeInputPreferences}
+                onClose={() => setIsInputOpen(false)}
+              />
+            ) : (
+              <button className="calibrate-link" onClick={() => setIsInputOpen(true)}>
+                {inputPreferences.source === 'tab'
+                  ? '🖥 Input: tab audio'
+                  : `🎙 Microphone${inputPreferences.deviceId ? ' (custom)' : ''}`}
+              </button>
+            )}
+
+            {isClassOpen ? (
+              <ClassModePanel
+                settings={classSettings}
+                status={classStatus}
+                studentCount={studentCount}
+                isFollowing={isFollowing}
+                onChange={changeClassSettings}
+                onClose={() => setIsClassOpen(false)}
+              />
+            ) : (
+              <button className="calibrate-link" onClick={() => setIsClassOpen(true)}>
+                👥 Class mode
+                {classSettings.role === 'instructor' && ` (leading, ${studentCount} following)`}
+                {classSettings.role === 'student' && (isFollowing ? ' (following)' : ' (waiting for the instructor)')}
+              </button>
+            )}
+
+            {isMidiOpen ? (
+              <MidiOutputPanel
+                settings={midiSettings}
+                isConnected={isMidiConnected}
+                onChange={changeMidiSettings}
+                onClose={() => setIsMidiOpen(false)}
+              />
+            ) : (
+              <button className="calibrate-link" onClick={() => setIsMidiOpen(true)}>
+                🎹 MIDI output{midiSettings.portId ? (isMidiConnected ? ' (on)' : ' (not connected)') : ''}
+              </button>
+            )}
+
+            <InstallPrompt />
           </div>
         </div>
       </div>
@@ -0,0 +1,108 @@
+import { AUDIO_PRESETS, AudioPresetId } from '../utils/audioPresets';
+import { DetectionTuning } from '../utils/beatDetector';
+
+interface AudioSettingsPanelProps {
+  presetId: AudioPresetId;
+  tuning: DetectionTuning;
+  onPresetChange: (presetId: AudioPresetId) => void;
+  onTuningChange: (tuning: DetectionTuning) => void;
+  onClose: () => void;
+}
+
+type NumericSetting = Exclude<keyof DetectionTuning, 'bandWeights'>;
+
+interface SliderSpec {
+  key: NumericSetting;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  hint: string;
+}
+
+const SLIDERS: SliderSpec[] = [
+  { key: 'minBeatEnergy', label: 'Beat energy floor', min: 0, max: 10, step: 0.5, hint: 'Beats quieter than this are ignored' },
+  { key: 'minEnergyThreshold', label: 'Silence level', min: 0, max: 8, step: 0.25, hint: 'Average level treated as no music' },
+  { key: 'onsetThreshold', label: 'Onset strength', min: 0.1, max: 2, step: 0.05, hint: 'Hits weaker than this don\'t move the beat grid' },
+  { key: 'thresholdMultiplier', label: 'Onset sensitivity', min: 0.5, max: 3, step: 0.05, hint: 'Lower catches more hits, higher ignores noise' },
+  { key: 'historySize', label: 'History (frames)', min: 15, max: 120, step: 1, hint: 'Longer adapts more slowly to level changes' },
+  { key: 'minBPM', label: 'Min BPM', min: 40, max: 160, step: 1, hint: '' },
+  { key: 'maxBPM', label: 'Max BPM', min: 120, max: 300, step: 1, hint: '' },
+];
+
+const BAND_LABELS = ['Bass', 'Congas', 'Timbales / piano', 'Cowbell / clave'];
+
+export function AudioSettingsPanel({ presetId, tuning, onPresetChange, onTuningChange, onClose }: AudioSettingsPanelProps) {
+  const edited = JSON.stringify(tuning) !== JSON.stringify(AUDIO_PRESETS[presetId].tuning);
+
+  const setValue = (key: NumericSetting, value: number) => {
+    const next = { ...tuning, [key]: value };
+    // Keep the tempo range valid while dragging either end
+    if (key === 'minBPM') next.maxBPM = Math.max(next.maxBPM, value + 20);
+    if (key === 'maxBPM') next.minBPM = Math.min(next.minBPM, value - 20);
+    onTuningChange(next);
+  };
+
+  const setBandWeight = (band: number, weight: number) => {
+    const bandWeights = tuning.bandWeights.map((w, i) => (i === band ? weight : w));
+    onTuningChange({ ...tuning, bandWeights });
+  };
+
+  return (
+    <div className="audio-settings">
+      <div className="track-player-header">
+        <span className="track-name">⚙️ Audio settings</span>
+        <button className="track-close" onClick={onClose} aria-label="Close audio settings">
+          ✕
+        </button>
+      </div>
+
+      <label className="scheme-select">
+        <span>Preset</span>
+        <select value={presetId} onChange={(e) => onPresetChange(e.target.value as AudioPresetId)}>
+          {Object.values(AUDIO_PRESETS).map((preset) => (
+            <option key={preset.id} value={preset.id} title={preset.description}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        {edited && (
+          <button className="calibrate-link" onClick={() => onPresetChange(presetId)}>
+            Reset
+          </button>
+        )}
+      </label>
+      <p className="hint">{AUDIO_PRESETS[presetId].description}</p>
+
+      {SLIDERS.map((slider) => (
+        <label key={slider.key} className="practice-row" title={slider.hint}>
+          <span className="setting-label">{slider.label}</span>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={tuning[slider.key]}
+            onChange={(e) => setValue(slider.key, Number(e.target.value))}
+          />
+          <span className="practice-value">{tuning[slider.key]}</span>
+        </label>
+      ))}
+
+      {tuning.bandWeights.map((weight, band) => (
+        <label key={band} className="practice-row">
+          <span className="setting-label">{BAND_LABELS[band] ?? `Band ${band + 1}`} weight</span>
+          <input
+            type="range"
+            min={0}
+            max={3}
+            step={0.1}
+            value={weight}
+            onChange={(e) => setBandWeight(band, Number(e.target.value))}
+          />
+          <span className="practice-value">{weight.toFixed(1)}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -1,10 +1,23 @@
 import { motion } from 'framer-motion';
+import { TrackingState } from '../utils/trackingState';
 
 interface BPMDisplayProps {
   bpm: number;
+  confidence?: number; // 0-1 tempo confidence while listening
+  trackingState?: TrackingState;
 }
 
-export function BPMDisplay({ bpm }: BPMDisplayProps) {
+const STATE_LABELS: Record<TrackingState, string> = {
+  idle: 'waiting for music',
+  searching: 'searching',
+  locked: 'locked',
+  drifting: 'drifting',
+  lost: 'lost',
+};
+
+export function BPMDisplay({ bpm, confidence = 1, trackingState }: BPMDisplayProps) {
+  // Until the beat is locked the tempo is a guess
+  const isTentative = trackingState !== undefined && trackingState !== 'locked';
   return (
     <motion.div
       initial={{ opacity: 0, y: -20 }}
@@ -24,10 +37,15 @@ export function BPMDisplay({ bpm }: BPMDisplayProps) {
         initial={{ scale: 1.2 }}
         animate={{ scale: 1 }}
         transition={{ duration: 0.3 }}
-        style={{ color: '#d63384' }}
+        style={{ color: isTentative ? '#aaa' : '#d63384', opacity: 0.5 + 0.5 * confidence }}
       >
-        {bpm || '--'}
+        {bpm ? `${isTentative ? '~' : ''}${bpm}` : '--'}
       </motion.span>
+      {trackingState && (
+        <span style={{ fontSize: '0.9rem', fontWeight: 'normal', color: trackingState === 'locked' ? '#2a9d8f' : '#999' }}>
+          {STATE_LABELS[trackingState]}
+        </span>
+      )}
     </motion.div>
   );
 }
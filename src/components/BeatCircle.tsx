@@ -1,52 +1,57 @@
 import { useEffect } from 'react';
 import { useSpring, animated } from '@react-spring/web';
+import { CountStep } from '../utils/countingScheme';
 
 interface BeatCircleProps {
   isActive: boolean;
   isDownbeat: boolean;
   beatNumber: number;
-  isDashBeat?: boolean;
+  step?: CountStep; // Label/accent/rest for the current position; plain number when omitted
 }
 
-export function BeatCircle({ isActive, isDownbeat, beatNumber, isDashBeat = false }: BeatCircleProps) {
+export function BeatCircle({ isActive, isDownbeat, beatNumber, step }: BeatCircleProps) {
   const [spring, api] = useSpring(() => ({
     scale: 1,
     opacity: 0.3,
     config: { tension: 300, friction: 20 },
   }));
 
+  const isRest = step?.rest ?? false;
+  const isAccented = step ? step.accent === 'strong' : isDownbeat;
+  const isMedium = step ? step.accent === 'medium' : beatNumber === 5 || beatNumber === 7;
+
   useEffect(() => {
     if (isActive && beatNumber > 0) {
-      // Animate pulse on beat (subtle for dash beats)
+      // Animate pulse on beat (subtle for rests)
       api.start({
-        scale: isDashBeat ? 1.1 : isDownbeat ? 1.5 : 1.3,
-        opacity: isDashBeat ? 0.5 : isDownbeat ? 1 : 0.8,
+        scale: isRest ? 1.1 : isAccented ? 1.5 : 1.3,
+        opacity: isRest ? 0.5 : isAccented ? 1 : 0.8,
         config: { tension: 400, friction: 15 },
       });
       
       // Return to rest state
       api.start({
         scale: 1,
-        opacity: isDashBeat ? 0.2 : 0.3,
+        opacity: isRest ? 0.2 : 0.3,
         config: { tension: 200, friction: 25 },
         delay: 150,
       });
     }
-  }, [isActive, isDownbeat, beatNumber, isDashBeat, api]);
+  }, [isActive, isAccented, beatNumber, isRest, api]);
 
   // Don't render if beat is 0 or invalid
   if (beatNumber === 0) {
     return null;
   }
 
-  const size = isDashBeat ? 70 : isDownbeat ? 120 : 80;
-  const color = isDashBeat
-    ? '#ccc' // Gray for dash beats
-    : isDownbeat 
-    ? '#ff6b6b' // Red for downbeat
-    : beatNumber === 5 || beatNumber === 7
-    ? '#4ecdc4' // Teal for beats 5 and 7
-    : '#95e1d3'; // Light teal for beats 2 and 3
+  const size = isRest ? 70 : isAccented ? 120 : 80;
+  const color = isRest
+    ? '#ccc' // Gray for rests
+    : isAccented 
+    ? '#ff6b6b' // Red for strong accents
+    : isMedium
+    ? '#4ecdc4' // Teal for medium accents
+    : '#95e1d3'; // Light teal for other beats
 
   return (
     <animated.div
@@ -58,18 +63,18 @@ export function BeatCircle({ isActive, isDownbeat, beatNumber, isDashBeat = fals
         display: 'flex',
         alignItems: 'center',
         justifyContent: 'center',
-        fontSize: isDashBeat ? '2rem' : isDownbeat ? '2.5rem' : '1.5rem',
+        fontSize: isRest ? '2rem' : isAccented ? '2.5rem' : '1.5rem',
         fontWeight: 'bold',
         color: '#fff',
-        boxShadow: isDashBeat
+        boxShadow: isRest
           ? 'none'
-          : isDownbeat 
+          : isAccented 
           ? `0 0 30px ${color}, 0 0 60px ${color}`
           : `0 0 15px ${color}`,
         ...spring,
       }}
     >
-      {isDashBeat ? '—' : beatNumber}
+      {step ? step.label : beatNumber}
     </animated.div>
   );
 }
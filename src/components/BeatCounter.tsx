@@ -1,28 +1,46 @@
 import { useEffect } from 'react';
 import { useSpring, animated } from '@react-spring/web';
+import { ClaveReading } from '../utils/claveDetector';
+import { CountStep } from '../utils/countingScheme';
+import { TrackingState } from '../utils/trackingState';
 
 interface BeatCounterProps {
   currentBeat: number;
   cycle: number;
   isDownbeat: boolean;
-  isDashBeat?: boolean;
+  step?: CountStep; // Label/accent/rest for the current position; plain number when omitted
+  subdivision?: string | null; // Half-beat call currently showing, e.g. "and"
+  clave?: ClaveReading | null;
   isActive?: boolean;
-  noMusicDetected?: boolean;
+  trackingState?: TrackingState; // Live lock state; omitted for tracks and practice, whose counts are exact
+  confidence?: number; // 0-1 beat confidence while listening
 }
 
-export function BeatCounter({ currentBeat, cycle, isDownbeat, isDashBeat = false, isActive = false, noMusicDetected = false }: BeatCounterProps) {
+const TRACKING_LABELS: Partial<Record<TrackingState, string>> = {
+  searching: 'finding the beat…',
+  drifting: 're-syncing…',
+};
+
+export function BeatCounter({ currentBeat, cycle, isDownbeat, step, subdivision = null, clave = null, isActive = false, trackingState, confidence = 1 }: BeatCounterProps) {
   const [spring, api] = useSpring(() => ({
     scale: 1,
     opacity: 1,
     config: { tension: 300, friction: 20 },
   }));
 
+  const isRest = step?.rest ?? false;
+  const isAccented = step ? step.accent === 'strong' : isDownbeat;
+  // Counts are shown greyed out until the beat is locked, and fade as a lock drifts
+  const isTentative = trackingState === 'searching';
+  const countOpacity = trackingState === 'drifting' ? 0.4 + 0.6 * confidence : 1;
+  const trackingLabel = trackingState ? TRACKING_LABELS[trackingState] : undefined;
+
   useEffect(() => {
     if (isActive && currentBeat > 0) {
-      // Animate pulse on beat (subtle for dash beats)
+      // Animate pulse on beat (subtle for rests)
       api.start({
-        scale: isDashBeat ? 1.1 : isDownbeat ? 1.5 : 1.3,
-        opacity: isDashBeat ? 0.7 : 1,
+        scale: isRest ? 1.1 : isAccented ? 1.5 : step?.accent === 'medium' ? 1.4 : 1.3,
+        opacity: isRest ? 0.7 : 1,
         config: { tension: 400, friction: 15 },
       });
       
@@ -34,10 +52,10 @@ export function BeatCounter({ currentBeat, cycle, isDownbeat, isDashBeat = false
         delay: 150,
       });
     }
-  }, [isActive, isDownbeat, currentBeat, isDashBeat, api]);
+  }, [isActive, isAccented, currentBeat, isRest, step, api]);
 
-  // Show "give me salsa" message when no music is detected
-  if (noMusicDetected) {
+  // Show "give me salsa" message when there's no music or the beat was lost
+  if (trackingState === 'idle' || trackingState === 'lost') {
     return (
       <div style={{ 
         display: 'flex', 
@@ -70,7 +88,11 @@ export function BeatCounter({ currentBeat, cycle, isDownbeat, isDashBeat = false
 
   // Don't render if beat is 0 (not initialized)
   if (currentBeat === 0) {
-    return null;
+    return trackingLabel ? (
+      <div style={{ fontSize: '1.5rem', color: '#999', flex: 1, display: 'flex', alignItems: 'center' }}>
+        {trackingLabel}
+      </div>
+    ) : null;
   }
 
   return (
@@ -82,16 +104,18 @@ export function BeatCounter({ currentBeat, cycle, isDownbeat, isDashBeat = false
       gap: '2rem',
       flex: 1,
       width: '100%',
+      opacity: countOpacity,
+      transition: 'opacity 0.3s',
     }}>
       <animated.div
         key={currentBeat}
         style={{
           fontSize: '8rem',
           fontWeight: 'bold',
-          color: isDashBeat ? '#b91c5c' : isDownbeat ? '#c41e3a' : '#b91c5c',
-          textShadow: isDashBeat 
+          color: isTentative ? '#aaa' : isRest ? '#b91c5c' : isAccented ? '#c41e3a' : '#b91c5c',
+          textShadow: isRest || isTentative
             ? 'none'
-            : isDownbeat 
+            : isAccented 
             ? '0 0 20px rgba(196, 30, 58, 0.8)'
             : '0 0 10px rgba(185, 28, 92, 0.5)',
           lineHeight: 1,
@@ -101,8 +125,14 @@ export function BeatCounter({ currentBeat, cycle, isDownbeat, isDashBeat = false
           ...spring,
         }}
       >
-        {isDashBeat ? '—' : currentBeat}
+        {step ? step.label : currentBeat}
       </animated.div>
+
+      {subdivision && (
+        <div style={{ fontSize: '2rem', color: '#b91c5c', marginTop: '-1.5rem' }}>
+          {subdivision}
+        </div>
+      )}
       
       <div style={{ 
         fontSize: '1rem', 
@@ -112,6 +142,12 @@ export function BeatCounter({ currentBeat, cycle, isDownbeat, isDashBeat = false
         alignItems: 'center',
       }}>
         <span>Cycle {cycle}</span>
+        {trackingLabel && <span>• {trackingLabel}</span>}
+        {clave && (
+          <span style={{ color: clave.side === 3 ? '#c41e3a' : '#b91c5c', opacity: 0.5 + clave.confidence * 0.5 }}>
+            • {clave.side} side ({clave.pattern} {clave.direction})
+          </span>
+        )}
         {isDownbeat && (
           <span style={{ color: '#c41e3a', fontWeight: 'bold' }}>
             • DOWNBEAT
@@ -0,0 +1,35 @@
+import { CountingScheme } from '../utils/countingScheme';
+import { BeatExport, beatGridToAudacityLabels, beatGridToJSON, beatGridToMidi } from '../utils/beatExport';
+import { downloadFile } from '../utils/sessionExport';
+
+interface BeatExportMenuProps {
+  grid: BeatExport;
+  scheme: CountingScheme; // Count labels in the exported files
+  fileName: string; // Without extension
+}
+
+export function BeatExportMenu({ grid, scheme, fileName }: BeatExportMenuProps) {
+  return (
+    <div className="session-actions">
+      <span className="hint">Export beats:</span>
+      <button
+        className="calibrate-link"
+        onClick={() => downloadFile(new Blob([beatGridToMidi(grid, scheme)], { type: 'audio/midi' }), `${fileName}.mid`)}
+      >
+        MIDI
+      </button>
+      <button
+        className="calibrate-link"
+        onClick={() => downloadFile(beatGridToAudacityLabels(grid, scheme), `${fileName}-labels.txt`, 'text/plain')}
+      >
+        Audacity labels
+      </button>
+      <button
+        className="calibrate-link"
+        onClick={() => downloadFile(beatGridToJSON(grid, scheme), `${fileName}-beats.json`, 'application/json')}
+      >
+        Beat grid JSON
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { ClassRole, ClassSettings, ConnectionStatus, normalizeRelayUrl } from '../utils/classSync';
+
+interface ClassModePanelProps {
+  settings: ClassSettings;
+  status: ConnectionStatus | null; // null while class mode is off
+  studentCount: number; // Instructor: devices following
+  isFollowing: boolean; // Student: beats are arriving from the instructor
+  onChange: (settings: ClassSettings) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  disconnected: 'Disconnected, retrying…',
+};
+
+export function ClassModePanel({ settings, status, studentCount, isFollowing, onChange, onClose }: ClassModePanelProps) {
+  // Edited here and only applied on join, so typing doesn't reconnect on every key
+  const [room, setRoom] = useState(settings.room);
+  const [relayUrl, setRelayUrl] = useState(settings.relayUrl);
+  const joined = settings.role !== 'off';
+  const relay = normalizeRelayUrl(relayUrl); // null: not an address we can connect to
+  const canJoin = room.trim() !== '' && relay !== null;
+
+  const join = (role: ClassRole) => {
+    if (relay === null) return;
+    onChange({ role, room: room.trim(), relayUrl: relay });
+  };
+
+  return (
+    <div className="audio-settings">
+      <div className="track-player-header">
+        <span className="track-name">👥 Class mode</span>
+        <button className="track-close" onClick={onClose} aria-label="Close class mode">
+          ✕
+        </button>
+      </div>
+
+      {joined ? (
+        <>
+          <p className="calibration-text">
+            {settings.role === 'instructor' ? '📣 Leading' : '🎧 Following'} class <strong>{settings.room}</strong>
+            {' · '}
+            {status ? STATUS_LABELS[status] : ''}
+          </p>
+          <p className="hint">
+            {settings.role === 'instructor'
+              ? `${studentCount} ${studentCount === 1 ? 'student' : 'students'} following. Start listening, a track or the practice groove and they count along with you.`
+              : isFollowing
+                ? 'Counting with the instructor. Your microphone is off.'
+                : 'Waiting for the instructor to start…'}
+          </p>
+          <button className="btn btn-secondary" onClick={() => onChange({ ...settings, role: 'off' })}>
+            Leave class
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="hint">
+            One device leads; everyone else counts the same 1 from it instead of their own microphone.
+          </p>
+          <label className="practice-row">
+            <span className="setting-label">Class code</span>
+            <input type="text" value={room} placeholder="e.g. tuesday-salsa" onChange={(e) => setRoom(e.target.value)} />
+          </label>
+          <label className="practice-row">
+            <span className="setting-label">Relay</span>
+            <input
+              type="text"
+              value={relayUrl}
+              placeholder="ws://192.168.1.10:8787 (empty: this browser only)"
+              onChange={(e) => setRelayUrl(e.target.value)}
+            />
+          </label>
+          {relay === null && <p className="error-hint">That isn't a relay address. Use the one the relay prints, e.g. ws://192.168.1.10:8787</p>}
+          <div className="session-actions">
+            <button className="btn btn-primary" disabled={!canJoin} onClick={() => join('instructor')}>
+              📣 Lead
+            </button>
+            <button className="btn btn-secondary" disabled={!canJoin} onClick={() => join('student')}>
+              🎧 Follow
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
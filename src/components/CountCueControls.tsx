@@ -0,0 +1,69 @@
+import { VOICE_PACKS, VoicePackId } from '../utils/countCues';
+
+interface CountCueControlsProps {
+  enabled: boolean;
+  voicePack: VoicePackId;
+  volume: number;
+  ducking: number;
+  onEnabledChange: (enabled: boolean) => void;
+  onVoicePackChange: (voicePack: VoicePackId) => void;
+  onVolumeChange: (volume: number) => void;
+  onDuckingChange: (ducking: number) => void;
+}
+
+export function CountCueControls({
+  enabled,
+  voicePack,
+  volume,
+  ducking,
+  onEnabledChange,
+  onVoicePackChange,
+  onVolumeChange,
+  onDuckingChange,
+}: CountCueControlsProps) {
+  return (
+    <div className="count-cues">
+      <label className="haptic-toggle">
+        <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+        <span>Count out loud</span>
+      </label>
+
+      {enabled && (
+        <div className="count-cue-settings">
+          <label className="scheme-select">
+            <span>Voice</span>
+            <select value={voicePack} onChange={(e) => onVoicePackChange(e.target.value as VoicePackId)}>
+              {Object.values(VOICE_PACKS).map((pack) => (
+                <option key={pack.id} value={pack.id}>
+                  {pack.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="practice-row">
+            <span>Volume</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={volume}
+              onChange={(e) => onVolumeChange(Number(e.target.value))}
+            />
+          </label>
+          <label className="practice-row" title="How much the track or practice groove is lowered under each cue">
+            <span>Ducking</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={ducking}
+              onChange={(e) => onDuckingChange(Number(e.target.value))}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
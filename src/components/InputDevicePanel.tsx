@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  InputDevice,
+  InputPreferences,
+  InputProcessing,
+  inputSettingsFor,
+  listInputDevices,
+  withProcessing,
+} from '../utils/inputDevices';
+import { InputLevel, InputLevelMeter } from '../utils/inputLevel';
+import { AudioInputError } from '../utils/audioErrors';
+import { DisplayCaptureSource } from '../utils/inputSources';
+
+interface InputDevicePanelProps {
+  preferences: InputPreferences;
+  isListening: boolean; // The live microphone is switched over instead of metered separately
+  onChange: (preferences: InputPreferences) => void;
+  onClose: () => void;
+}
+
+const PROCESSING_OPTIONS: { key: keyof InputProcessing; label: string; hint: string }[] = [
+  { key: 'autoGainControl', label: 'Auto gain', hint: 'Evens out the level; flattens accents, so leave off with a good mic' },
+  { key: 'noiseSuppression', label: 'Noise suppression', hint: 'Can mistake percussion for noise' },
+  { key: 'echoCancellation', label: 'Echo cancellation', hint: 'Only helps when count cues play through a speaker' },
+];
+
+const METER_FLOOR = -60; // dBFS at the left end of the meter
+
+function meterPercent(db: number): number {
+  return Math.min(100, Math.max(0, ((db - METER_FLOOR) / -METER_FLOOR) * 100));
+}
+
+export function InputDevicePanel({ preferences, isListening, onChange, onClose }: InputDevicePanelProps) {
+  const [devices, setDevices] = useState<InputDevice[]>([]);
+  const [level, setLevel] = useState<InputLevel | null>(null);
+  const [meterError, setMeterError] = useState<AudioInputError | null>(null);
+  const [isMetering, setIsMetering] = useState(false);
+  const meterRef = useRef<InputLevelMeter | null>(null);
+  const input = inputSettingsFor(preferences);
+  const isTab = preferences.source === 'tab';
+
+  const refreshDevices = useCallback(() => {
+    listInputDevices()
+      .then(setDevices)
+      .catch((err) => console.warn('Failed to list audio inputs:', err));
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  // Re-open the meter whenever the input or its processing changes
+  const inputKey = JSON.stringify(input);
+  useEffect(() => {
+    if (!isMetering || isListening || isTab) return;
+    const meter = (meterRef.current ??= new InputLevelMeter(setLevel));
+    setMeterError(null);
+    meter
+      .start(JSON.parse(inputKey))
+      // Labels only show up once the page has had microphone access
+      .then(refreshDevices)
+      .catch((err: AudioInputError) => {
+        setMeterError(err);
+        setIsMetering(false);
+      });
+    return () => {
+      meter.stop();
+      setLevel(null);
+    };
+  }, [isMetering, isListening, isTab, inputKey, refreshDevices]);
+
+  const selectDevice = (deviceId: string | null) => {
+    onChange({ ...preferences, deviceId });
+  };
+
+  const setProcessing = (key: keyof InputProcessing, enabled: boolean) => {
+    onChange(withProcessing(preferences, input.deviceId, { ...input.processing, [key]: enabled }));
+  };
+
+  // A saved device that isn't plugged in stays selectable, so the choice isn't lost
+  const missing = input.deviceId !== null && !devices.some((device) => device.deviceId === input.deviceId);
+
+  return (
+    <div className="audio-settings">
+      <div className="track-player-header">
+        <span className="track-name">🎙 Input</span>
+        <button className="track-close" onClick={onClose} aria-label="Close input settings">
+          ✕
+        </button>
+      </div>
+
+      {(isTab || DisplayCaptureSource.isSupported()) && (
+        <label className="scheme-select">
+          <span>Listen to</span>
+          <select
+            value={preferences.source}
+            onChange={(e) => onChange({ ...preferences, source: e.target.value as InputPreferences['source'] })}
+          >
+            <option value="microphone">Microphone</option>
+            <option value="tab">Another tab or system audio</option>
+          </select>
+        </label>
+      )}
+
+      {isTab ? (
+        <p className="hint">
+          Pick the tab playing the music and turn on "Share tab audio" (or "Share system audio" for a whole screen).
+          The sound is taken before the speakers, so there's no room noise or microphone delay. Chrome and Edge on
+          desktop only.
+        </p>
+      ) : (
+        <>
+          <label className="scheme-select">
+            <span>Microphone</span>
+            <select value={input.deviceId ?? ''} onChange={(e) => selectDevice(e.target.value || null)}>
+              <option value="">System default</option>
+              {devices.map((device) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label}
+                </option>
+              ))}
+              {missing && <option value={input.deviceId ?? ''}>Saved microphone (not connected)</option>}
+            </select>
+          </label>
+
+          {PROCESSING_OPTIONS.map((option) => (
+            <label key={option.key} className="practice-row" title={option.hint}>
+              <input
+                type="checkbox"
+                checked={input.processing[option.key]}
+                onChange={(e) => setProcessing(option.key, e.target.checked)}
+              />
+              <span>{option.label}</span>
+              <span className="hint">{option.hint}</span>
+            </label>
+          ))}
+        </>
+      )}
+
+      {isListening ? (
+        <p className="hint">Changes switch the input straight away; the count carries on.</p>
+      ) : (
+        !isTab && (
+          <>
+            <button className="calibrate-link" onClick={() => setIsMetering(!isMetering)}>
+              {isMetering ? '⏹ Stop test' : '🔊 Test input level'}
+            </button>
+            {isMetering && (
+              <div className="input-meter" role="meter" aria-valuemin={METER_FLOOR} aria-valuemax={0} aria-valuenow={level?.rms ?? METER_FLOOR}>
+                <div className={`input-meter-fill${level?.clipping ? ' clipping' : ''}`} style={{ width: `${meterPercent(level?.rms ?? METER_FLOOR)}%` }} />
+                <div className="input-meter-peak" style={{ left: `${meterPercent(level?.peak ?? METER_FLOOR)}%` }} />
+              </div>
+            )}
+            {isMetering && level && (
+              <p className="hint">
+                {level.clipping
+                  ? 'Too loud: the input is clipping. Turn the source or its gain down.'
+                  : level.peak < -40
+                    ? 'Very quiet: move closer to the speaker or turn the gain up.'
+                    : 'Level looks good.'}
+              </p>
+            )}
+            {meterError && (
+              <p className="error-hint">
+                {meterError.help.title}. {meterError.help.hint}
+              </p>
+            )}
+          </>
+        )
+      )}
+    </div>
+  );
+}
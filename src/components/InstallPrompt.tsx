@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { loadInstallDismissed, needsManualInstall, onInstallAvailable, promptInstall, saveInstallDismissed } from '../utils/pwa';
+
+export function InstallPrompt() {
+  const [canInstall, setCanInstall] = useState(false);
+  const [dismissed, setDismissed] = useState(() => loadInstallDismissed());
+
+  useEffect(() => onInstallAvailable(setCanInstall), []);
+
+  if (dismissed) return null;
+
+  const dismiss = () => {
+    saveInstallDismissed();
+    setDismissed(true);
+  };
+
+  if (canInstall) {
+    return (
+      <div className="install-prompt">
+        <button
+          className="calibrate-link"
+          onClick={() => promptInstall().catch((err) => console.warn('Install prompt failed:', err))}
+        >
+          📲 Install Baila Beat (works offline)
+        </button>
+        <button className="track-close" onClick={dismiss} aria-label="Don't offer to install">
+          ✕
+        </button>
+      </div>
+    );
+  }
+
+  if (needsManualInstall()) {
+    return (
+      <div className="install-prompt">
+        <span className="hint">To use Baila Beat offline, tap Share → Add to Home Screen</span>
+        <button className="track-close" onClick={dismiss} aria-label="Hide install hint">
+          ✕
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  LatencyCalibrator,
+  LatencyProfile,
+  buildLatencyProfile,
+  predictionOffsetFor,
+} from '../utils/latencyCalibration';
+
+interface LatencyCalibrationWizardProps {
+  current: LatencyProfile | null; // Stored calibration for this device, if any
+  onSave: (profile: LatencyProfile) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+type Step = 'intro' | 'round-trip' | 'tap-intro' | 'tap-along' | 'result' | 'error';
+
+export function LatencyCalibrationWizard({ current, onSave, onReset, onClose }: LatencyCalibrationWizardProps) {
+  const [step, setStep] = useState<Step>('intro');
+  const [progress, setProgress] = useState(0);
+  const [pulse, setPulse] = useState(-1);
+  const [roundTrip, setRoundTrip] = useState<{ roundTrip: number; outputLatency: number } | null>(null);
+  const [result, setResult] = useState<LatencyProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const calibratorRef = useRef<LatencyCalibrator | null>(null);
+
+  useEffect(() => {
+    return () => calibratorRef.current?.dispose();
+  }, []);
+
+  const fail = (err: unknown) => {
+    setError(err instanceof Error ? err.message : 'Calibration failed');
+    setStep('error');
+    calibratorRef.current?.dispose();
+    calibratorRef.current = null;
+  };
+
+  const measureRoundTrip = async () => {
+    calibratorRef.current?.dispose();
+    calibratorRef.current = new LatencyCalibrator();
+    setProgress(0);
+    setStep('round-trip');
+    try {
+      setRoundTrip(await calibratorRef.current.measureRoundTrip(setProgress));
+      setStep('tap-intro');
+    } catch (err) {
+      fail(err);
+    }
+  };
+
+  const runTapAlong = async () => {
+    if (!calibratorRef.current || !roundTrip) return;
+    setPulse(-1);
+    setStep('tap-along');
+    try {
+      const tapAlong = await calibratorRef.current.runTapAlong(setPulse);
+      setResult(buildLatencyProfile(roundTrip.roundTrip, roundTrip.outputLatency, tapAlong));
+      setStep('result');
+    } catch (err) {
+      fail(err);
+    }
+  };
+
+  const tap = () => calibratorRef.current?.tap(performance.now());
+
+  return (
+    <div className="calibration">
+      <div className="track-player-header">
+        <span className="track-name">⏱ Latency calibration</span>
+        <button className="track-close" onClick={onClose} aria-label="Close calibration">
+          ✕
+        </button>
+      </div>
+
+      {step === 'intro' && (
+        <>
+          <p className="calibration-text">
+            Step 1: turn the volume up, use the speaker you dance with and keep the room quiet. We'll play a few
+            clicks and time how long they take to come back through the microphone.
+          </p>
+          {current && (
+            <p className="hint">
+              Current: input {Math.round(current.inputLatency)} ms, feedback {Math.round(current.feedbackOffset)} ms
+            </p>
+          )}
+          <button className="btn btn-primary" onClick={measureRoundTrip}>
+            Start
+          </button>
+          {current && (
+            <button className="btn btn-auto" onClick={onReset}>
+              Reset to defaults
+            </button>
+          )}
+        </>
+      )}
+
+      {step === 'round-trip' && (
+        <p className="calibration-text">Listening for clicks… {Math.round(progress * 100)}%</p>
+      )}
+
+      {step === 'tap-intro' && (
+        <>
+          <p className="calibration-text">
+            Step 2: the circle will flash (and your phone vibrate) on a steady beat. Tap the button exactly with
+            each pulse, the way you'd step on the count.
+          </p>
+          <button className="btn btn-primary" onClick={runTapAlong}>
+            Start tapping
+          </button>
+        </>
+      )}
+
+      {step === 'tap-along' && (
+        <button
+          // Alternate classes so the flash animation restarts on every pulse
+          className={`calibration-pad ${pulse < 0 ? '' : pulse % 2 === 0 ? 'flash' : 'flash-alt'}`}
+          onPointerDown={tap}
+        >
+          {pulse < 0 ? 'Get ready…' : 'Tap!'}
+        </button>
+      )}
+
+      {step === 'result' && result && (
+        <>
+          <p className="calibration-text">
+            Input latency {Math.round(result.inputLatency)} ms, feedback offset {Math.round(result.feedbackOffset)} ms.
+            Live beats will be predicted {Math.round(predictionOffsetFor(result, true))} ms ahead from the
+            microphone, {Math.round(predictionOffsetFor(result, false))} ms from tab or system audio.
+          </p>
+          <button className="btn btn-primary" onClick={() => onSave(result)}>
+            Save for this device
+          </button>
+          <button className="btn btn-auto" onClick={measureRoundTrip}>
+            Start over
+          </button>
+        </>
+      )}
+
+      {step === 'error' && (
+        <>
+          <p className="calibration-text">⚠️ {error}</p>
+          <button className="btn btn-primary" onClick={measureRoundTrip}>
+            Try again
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import type { AudioInputStatus } from '../utils/audioProcessor';
+import type { AudioInputError } from '../utils/audioErrors';
+import type { InputSourceKind } from '../utils/inputSources';
+
+interface MicrophoneStatusProps {
+  status: AudioInputStatus;
+  sourceKind: InputSourceKind;
+  error: AudioInputError | null; // Why re-opening failed, or why the source ended
+  onResume: () => void;
+  onReconnect: () => void;
+}
+
+/**
+ * Notice shown while listening when the input stops delivering sound
+ * The count keeps its tempo and the 1 through all of these, so the dancer can pick up where they were
+ */
+export function MicrophoneStatus({ status, sourceKind, error, onResume, onReconnect }: MicrophoneStatusProps) {
+  if (status === 'running') return null;
+
+  if (status === 'interrupted') {
+    return (
+      <div className="warning-message">
+        <p>⏸ Listening was paused by another app or a call</p>
+        <button className="btn btn-primary" onClick={onResume}>
+          ▶ Resume
+        </button>
+      </div>
+    );
+  }
+
+  if (status === 'reconnecting') {
+    return (
+      <div className="warning-message">
+        <p>🎤 {sourceKind === 'microphone' ? 'Microphone changed' : 'Input lost'}, reconnecting…</p>
+      </div>
+    );
+  }
+
+  if (status === 'ended') {
+    return (
+      <div className="warning-message">
+        <p>⏹ {error?.help.title ?? 'The input finished'}</p>
+        {error && <p className="warning-hint">{error.help.hint}</p>}
+        {sourceKind === 'tab' && (
+          <button className="btn btn-primary" onClick={onReconnect}>
+            🖥 Share again
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="error-message">
+      <p>⚠️ {error?.help.title ?? 'The input stopped'}</p>
+      <p className="error-hint">{error?.help.hint ?? 'Check your input and try again.'}</p>
+      {(error?.help.canRetry ?? true) && (
+        <button className="btn btn-primary" onClick={onReconnect}>
+          🔄 Try again
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  MidiMessageKind,
+  MidiOutputSettings,
+  MidiPortInfo,
+  MidiTrigger,
+  isMidiSupported,
+  listMidiOutputs,
+  onMidiOutputsChange,
+} from '../utils/midiOutput';
+
+interface MidiOutputPanelProps {
+  settings: MidiOutputSettings;
+  isConnected: boolean; // The chosen port is open
+  onChange: (settings: MidiOutputSettings) => void;
+  onClose: () => void;
+}
+
+type TriggerKey = 'downbeat' | 'count';
+
+const TRIGGER_OPTIONS: { key: TriggerKey; label: string; hint: string; initial: MidiTrigger }[] = [
+  {
+    key: 'downbeat',
+    label: 'On the 1',
+    hint: 'e.g. a kick for the DAW, or a flash on the lighting desk',
+    initial: { kind: 'note', channel: 10, number: 36, value: 127 },
+  },
+  {
+    key: 'count',
+    label: 'On every count',
+    hint: 'Notes go up one per count (1-8); a CC sends the count as its value',
+    initial: { kind: 'note', channel: 1, number: 60, value: 100 },
+  },
+];
+
+export function MidiOutputPanel({ settings, isConnected, onChange, onClose }: MidiOutputPanelProps) {
+  const [outputs, setOutputs] = useState<MidiPortInfo[]>([]);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const supported = isMidiSupported();
+
+  const refreshOutputs = useCallback(() => {
+    listMidiOutputs()
+      .then((ports) => {
+        setOutputs(ports);
+        setAccessError(null);
+      })
+      .catch((err) => {
+        console.warn('Failed to list MIDI outputs:', err);
+        setAccessError('MIDI access was refused. Allow it in the site settings and reopen this panel.');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!supported) return;
+    refreshOutputs();
+    return onMidiOutputsChange(refreshOutputs);
+  }, [supported, refreshOutputs]);
+
+  const setTrigger = (key: TriggerKey, trigger: MidiTrigger | null) => {
+    onChange({ ...settings, [key]: trigger });
+  };
+
+  // A saved port that isn't plugged in stays selectable, so the choice isn't lost
+  const missing = settings.portId !== null && !outputs.some((output) => output.id === settings.portId);
+
+  return (
+    <div className="audio-settings">
+      <div className="track-player-header">
+        <span className="track-name">🎹 MIDI output</span>
+        <button className="track-close" onClick={onClose} aria-label="Close MIDI output">
+          ✕
+        </button>
+      </div>
+
+      {!supported ? (
+        <p className="hint">This browser has no Web MIDI. Try Chrome, Edge or Firefox on desktop.</p>
+      ) : (
+        <>
+          <label className="scheme-select">
+            <span>Send to</span>
+            <select value={settings.portId ?? ''} onChange={(e) => onChange({ ...settings, portId: e.target.value || null })}>
+              <option value="">Off</option>
+              {outputs.map((output) => (
+                <option key={output.id} value={output.id}>
+                  {output.name}
+                </option>
+              ))}
+              {missing && <option value={settings.portId ?? ''}>Saved port (not connected)</option>}
+            </select>
+          </label>
+          {accessError && <p className="error-hint">{accessError}</p>}
+          {settings.portId && !isConnected && !accessError && <p className="hint">Waiting for the port…</p>}
+
+          <label className="practice-row">
+            <input type="checkbox" checked={settings.clock} onChange={(e) => onChange({ ...settings, clock: e.target.checked })} />
+            <span>Clock</span>
+            <span className="hint">24 ticks per beat, so the DAW follows the tempo</span>
+          </label>
+          <label className="practice-row">
+            <input
+              type="checkbox"
+              checked={settings.transport}
+              onChange={(e) => onChange({ ...settings, transport: e.target.checked })}
+            />
+            <span>Start / Stop</span>
+            <span className="hint">Start on the 1 once the beat locks, Stop when it's lost</span>
+          </label>
+
+          {TRIGGER_OPTIONS.map((option) => {
+            const trigger = settings[option.key];
+            return (
+              <div key={option.key}>
+                <label className="practice-row" title={option.hint}>
+                  <input
+                    type="checkbox"
+                    checked={trigger !== null}
+                    onChange={(e) => setTrigger(option.key, e.target.checked ? option.initial : null)}
+                  />
+                  <span>{option.label}</span>
+                  <span className="hint">{option.hint}</span>
+                </label>
+                {trigger && (
+                  <TriggerEditor
+                    trigger={trigger}
+                    countValue={option.key === 'count'}
+                    onChange={(next) => setTrigger(option.key, next)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface TriggerEditorProps {
+  trigger: MidiTrigger;
+  countValue: boolean; // A CC's value is the count, so it isn't set here
+  onChange: (trigger: MidiTrigger) => void;
+}
+
+function TriggerEditor({ trigger, countValue, onChange }: TriggerEditorProps) {
+  const numberField = (key: 'channel' | 'number' | 'value', label: string, min: number, max: number) => (
+    <label className="practice-row">
+      <span className="setting-label">{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={trigger[key]}
+        onChange={(e) => {
+          const value = parseInt(e.target.value, 10);
+          if (Number.isInteger(value)) onChange({ ...trigger, [key]: Math.min(max, Math.max(min, value)) });
+        }}
+      />
+    </label>
+  );
+
+  return (
+    <>
+      <label className="practice-row">
+        <span className="setting-label">Send</span>
+        <select value={trigger.kind} onChange={(e) => onChange({ ...trigger, kind: e.target.value as MidiMessageKind })}>
+          <option value="note">Note</option>
+          <option value="cc">Control change</option>
+        </select>
+      </label>
+      {numberField('channel', 'Channel', 1, 16)}
+      {numberField('number', trigger.kind === 'note' ? 'Note' : 'Controller', 0, 127)}
+      {trigger.kind === 'note'
+        ? numberField('value', 'Velocity', 1, 127)
+        : !countValue && numberField('value', 'Value', 0, 127)}
+    </>
+  );
+}
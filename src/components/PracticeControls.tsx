@@ -0,0 +1,108 @@
+import { PercussionLayer, ALL_PERCUSSION_LAYERS } from '../utils/practiceMetronome';
+
+export interface PracticeSettings {
+  bpm: number;
+  layers: PercussionLayer[];
+  rampEnabled: boolean;
+  rampTargetBPM: number;
+  rampMinutes: number;
+}
+
+interface PracticeControlsProps {
+  settings: PracticeSettings;
+  isRunning: boolean;
+  onChange: (settings: PracticeSettings) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const LAYER_LABELS: Record<PercussionLayer, string> = {
+  clave: 'Clave',
+  cowbell: 'Cowbell',
+  conga: 'Conga',
+  bass: 'Bass',
+};
+
+export function PracticeControls({ settings, isRunning, onChange, onStart, onStop, onClose }: PracticeControlsProps) {
+  const toggleLayer = (layer: PercussionLayer) => {
+    const layers = settings.layers.includes(layer)
+      ? settings.layers.filter((l) => l !== layer)
+      : [...settings.layers, layer];
+    onChange({ ...settings, layers });
+  };
+
+  return (
+    <div className="practice-panel">
+      <div className="track-player-header">
+        <span className="track-name">🥁 Practice groove</span>
+        <button className="track-close" onClick={onClose} aria-label="Close practice">
+          ✕
+        </button>
+      </div>
+
+      <label className="practice-row">
+        <span>{settings.rampEnabled ? 'From' : 'Tempo'}</span>
+        <input
+          type="range"
+          min={80}
+          max={240}
+          value={settings.bpm}
+          onChange={(e) => onChange({ ...settings, bpm: Number(e.target.value) })}
+        />
+        <span className="practice-value">{settings.bpm} BPM</span>
+      </label>
+
+      <label className="practice-row">
+        <input
+          type="checkbox"
+          checked={settings.rampEnabled}
+          onChange={(e) => onChange({ ...settings, rampEnabled: e.target.checked })}
+        />
+        <span>Ramp to</span>
+        <input
+          type="number"
+          min={80}
+          max={240}
+          value={settings.rampTargetBPM}
+          disabled={!settings.rampEnabled}
+          onChange={(e) => onChange({ ...settings, rampTargetBPM: Number(e.target.value) })}
+        />
+        <span>BPM over</span>
+        <input
+          type="number"
+          min={0.5}
+          max={60}
+          step={0.5}
+          value={settings.rampMinutes}
+          disabled={!settings.rampEnabled}
+          onChange={(e) => onChange({ ...settings, rampMinutes: Number(e.target.value) })}
+        />
+        <span>min</span>
+      </label>
+
+      <div className="practice-layers">
+        {ALL_PERCUSSION_LAYERS.map((layer) => (
+          <label key={layer} className="haptic-toggle">
+            <input
+              type="checkbox"
+              checked={settings.layers.includes(layer)}
+              onChange={() => toggleLayer(layer)}
+            />
+            <span>{LAYER_LABELS[layer]}</span>
+          </label>
+        ))}
+      </div>
+
+      {isRunning ? (
+        <button className="btn btn-secondary" onClick={onStop}>
+          ⏹ Stop
+        </button>
+      ) : (
+        <button className="btn btn-primary" onClick={onStart}>
+          ▶ Start groove
+        </button>
+      )}
+    </div>
+  );
+}
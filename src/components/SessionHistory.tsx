@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { SessionRecord } from '../utils/sessionRecorder';
+import { deleteSession, getSessionAudio, listSessions } from '../utils/sessionStore';
+import { downloadFile, sessionBaseName, sessionFileName, sessionToCSV, sessionToJSON } from '../utils/sessionExport';
+import { exportFromSession } from '../utils/beatExport';
+import { COUNTING_SCHEMES } from '../utils/countingScheme';
+import { BeatExportMenu } from './BeatExportMenu';
+
+interface SessionHistoryProps {
+  onClose: () => void;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+function medianBPM(session: SessionRecord): number {
+  const values = session.tempo.map((point) => point.bpm).sort((a, b) => a - b);
+  return values.length > 0 ? values[Math.floor(values.length / 2)] : 0;
+}
+
+const GRAPH_WIDTH = 300;
+const GRAPH_HEIGHT = 60;
+
+function TempoGraph({ session }: { session: SessionRecord }) {
+  if (session.tempo.length < 2 || session.duration <= 0) {
+    return <div className="hint">Not enough tempo readings to graph</div>;
+  }
+  const bpms = session.tempo.map((point) => point.bpm);
+  const low = Math.min(...bpms) - 5;
+  const high = Math.max(...bpms) + 5;
+  const points = session.tempo
+    .map((point) => {
+      const x = (point.time / session.duration) * GRAPH_WIDTH;
+      const y = GRAPH_HEIGHT - ((point.bpm - low) / (high - low)) * GRAPH_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg className="tempo-graph" viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`} preserveAspectRatio="none">
+      {/* Stretches where the beat wasn't locked are shaded */}
+      {session.states.map((change, i) => {
+        if (change.state === 'locked') return null;
+        const end = session.states[i + 1]?.time ?? session.duration;
+        return (
+          <rect
+            key={i}
+            x={(change.time / session.duration) * GRAPH_WIDTH}
+            width={(Math.max(0, end - change.time) / session.duration) * GRAPH_WIDTH}
+            y={0}
+            height={GRAPH_HEIGHT}
+            fill="#eee"
+          />
+        );
+      })}
+      <polyline points={points} fill="none" stroke="#d63384" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
+
+export function SessionHistory({ onClose }: SessionHistoryProps) {
+  const [sessions, setSessions] = useState<SessionRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load sessions'));
+  }, []);
+
+  const remove = async (session: SessionRecord) => {
+    if (!window.confirm('Delete this session?')) return;
+    try {
+      await deleteSession(session.id);
+      setSessions((current) => current?.filter((s) => s.id !== session.id) ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the session');
+    }
+  };
+
+  const exportAudio = async (session: SessionRecord) => {
+    const audio = await getSessionAudio(session.id);
+    if (audio) {
+      const extension = audio.type.includes('mp4') ? 'm4a' : audio.type.includes('ogg') ? 'ogg' : 'webm';
+      downloadFile(audio, sessionFileName(session, extension));
+    }
+  };
+
+  return (
+    <div className="session-history">
+      <div className="track-player-header">
+        <span className="track-name">📜 Session history</span>
+        <button className="track-close" onClick={onClose} aria-label="Close history">
+          ✕
+        </button>
+      </div>
+
+      {error && <p className="calibration-text">⚠️ {error}</p>}
+      {!error && sessions === null && <p className="calibration-text">Loading…</p>}
+      {sessions?.length === 0 && (
+        <p className="calibration-text">No sessions yet. Every time you listen, the beats and tempo are saved here.</p>
+      )}
+
+      {sessions?.map((session) => (
+        <div key={session.id} className="session-item">
+          <div className="session-summary">
+            <span>{new Date(session.startedAt).toLocaleString()}</span>
+            <span className="hint">
+              {formatDuration(session.duration)} • {session.beats.length} beats
+              {session.tempo.length > 0 && ` • ~${medianBPM(session)} BPM`}
+            </span>
+          </div>
+          <TempoGraph session={session} />
+          <div className="session-actions">
+            <button
+              className="calibrate-link"
+              onClick={() => downloadFile(sessionToJSON(session), sessionFileName(session, 'json'), 'application/json')}
+            >
+              JSON
+            </button>
+            <button
+              className="calibrate-link"
+              onClick={() => downloadFile(sessionToCSV(session), sessionFileName(session, 'csv'), 'text/csv')}
+            >
+              CSV
+            </button>
+            {session.hasAudio && (
+              <button className="calibrate-link" onClick={() => exportAudio(session)}>
+                Audio
+              </button>
+            )}
+            <button className="calibrate-link" onClick={() => remove(session)}>
+              Delete
+            </button>
+          </div>
+          <BeatExportMenu
+            grid={exportFromSession(session)}
+            scheme={COUNTING_SCHEMES[session.metadata.countingScheme]}
+            fileName={sessionBaseName(session)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
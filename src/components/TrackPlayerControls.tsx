@@ -0,0 +1,64 @@
+interface TrackPlayerControlsProps {
+  fileName: string;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (time: number) => void;
+  onClose: () => void;
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+export function TrackPlayerControls({
+  fileName,
+  isPlaying,
+  currentTime,
+  duration,
+  onPlay,
+  onPause,
+  onSeek,
+  onClose,
+}: TrackPlayerControlsProps) {
+  return (
+    <div className="track-player">
+      <div className="track-player-header">
+        <span className="track-name" title={fileName}>🎵 {fileName}</span>
+        <button className="track-close" onClick={onClose} aria-label="Close track">
+          ✕
+        </button>
+      </div>
+
+      <input
+        className="track-seek"
+        type="range"
+        min={0}
+        max={duration}
+        step={0.01}
+        value={currentTime}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        aria-label="Seek"
+      />
+
+      <div className="track-player-footer">
+        <span className="track-time">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
+        {isPlaying ? (
+          <button className="btn btn-secondary" onClick={onPause}>
+            ⏸ Pause
+          </button>
+        ) : (
+          <button className="btn btn-primary" onClick={onPlay}>
+            ▶ Play
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Service Worker
+ * Precaches the app shell at install so the app opens and keeps working with no connection,
+ * then serves same-origin requests from the cache first
+ * Built to /sw.js by the plugin in vite.config.ts, which fills in the precache manifest
+ */
+
+// ServiceWorkerGlobalScope isn't part of the DOM typings
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+interface FetchEvent extends ExtendableEvent {
+  readonly request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+declare const clients: { claim(): Promise<void> };
+declare function addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+declare function addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+declare const __PRECACHE_MANIFEST__: { version: string; files: string[] };
+
+const PRECACHE = __PRECACHE_MANIFEST__;
+const CACHE_PREFIX = 'baila-beat-';
+const CACHE_NAME = `${CACHE_PREFIX}${PRECACHE.version}`;
+const APP_SHELL = '/';
+
+addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll([APP_SHELL, ...PRECACHE.files])));
+});
+
+// A new version only activates once every tab of the old one is closed, so a page never loses
+// files it is still using mid-session
+addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names.filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME).map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => clients.claim()),
+  );
+});
+
+addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== location.origin) return;
+
+  // Every page is the single-page app; the cached shell opens instantly even on a bad connection
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match(APP_SHELL).then((cached) => cached ?? fetch(request)));
+    return;
+  }
+  event.respondWith(cacheFirst(request));
+});
+
+/**
+ * Cached response if there is one; otherwise the network, keeping a copy for next time
+ */
+async function cacheFirst(request: Request): Promise<Response> {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+export {};
@@ -0,0 +1,189 @@
+/**
+ * Synthetic Signals
+ * Deterministic test audio with known beat times, and helpers to run it through the BeatDetector
+ * and score what comes out
+ */
+
+import { BeatDetectionResult, BeatDetector, BeatDetectorOptions, TrackingState } from '../utils/beatDetector';
+
+export const SAMPLE_RATE = 44100;
+const FRAME_SIZE = 2048; // Same as the live analyser fftSize
+const HOP_SIZE = SAMPLE_RATE / 60; // 60 frames a second, like the live loop
+
+export interface SyntheticSignal {
+  samples: Float32Array;
+  beats: number[]; // True beat times in seconds
+  downbeats: number[]; // True "1"s in seconds
+}
+
+export type ClavePattern = 'son32' | 'son23' | 'rumba32' | 'rumba23';
+
+// Clave strokes as 8th-note steps over a 2-bar (8 beat) cycle starting on the 1
+const CLAVE_STEPS: Record<ClavePattern, number[]> = {
+  son32: [0, 3, 6, 10, 12],
+  son23: [2, 4, 8, 11, 14],
+  rumba32: [0, 3, 7, 10, 12],
+  rumba23: [2, 4, 8, 11, 15],
+};
+
+/**
+ * Park-Miller generator, so noise is identical on every run
+ */
+export function seededRandom(seed = 1): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+// Pitch-dropping sine, like a kick drum or a metronome click
+export function addKick(samples: Float32Array, time: number, amplitude = 0.8): void {
+  const start = Math.round(time * SAMPLE_RATE);
+  for (let i = 0; i < 4000 && start + i < samples.length; i++) {
+    const frequency = 60 + 60 * Math.exp(-i / 300);
+    samples[start + i] += Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * Math.exp(-i / 900) * amplitude;
+  }
+}
+
+// Decaying sine: cowbell, conga, bass or clave depending on the frequency
+export function addTone(samples: Float32Array, time: number, frequency: number, amplitude = 0.4, decay = 0.05): void {
+  const start = Math.round(time * SAMPLE_RATE);
+  const length = Math.round(decay * 4 * SAMPLE_RATE);
+  for (let i = 0; i < length && start + i < samples.length; i++) {
+    samples[start + i] +=
+      Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * Math.exp(-i / (decay * SAMPLE_RATE)) * amplitude;
+  }
+}
+
+export function addNoise(samples: Float32Array, amplitude: number, random = seededRandom()): void {
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] += (random() * 2 - 1) * amplitude;
+  }
+}
+
+/**
+ * Silence a stretch of the signal, like the band stopping or the mic cutting out
+ */
+export function addDropout(signal: SyntheticSignal, from: number, to: number): SyntheticSignal {
+  signal.samples.fill(0, Math.round(from * SAMPLE_RATE), Math.round(to * SAMPLE_RATE));
+  const outside = (time: number) => time < from || time >= to;
+  return { ...signal, beats: signal.beats.filter(outside), downbeats: signal.downbeats.filter(outside) };
+}
+
+/**
+ * Beat times for a tempo that moves linearly from startBPM to endBPM over the duration
+ */
+export function beatTimes(startBPM: number, endBPM: number, duration: number, start = 0.5): number[] {
+  const times: number[] = [];
+  for (let time = start; time < duration; ) {
+    times.push(time);
+    const bpm = startBPM + ((endBPM - startBPM) * time) / duration;
+    time += 60 / bpm;
+  }
+  return times;
+}
+
+/**
+ * One kick per beat
+ */
+export function clickTrack(bpm: number, duration: number, endBPM = bpm): SyntheticSignal {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  const beats = beatTimes(bpm, endBPM, duration);
+  for (const time of beats) addKick(samples, time);
+  return { samples, beats, downbeats: beats.filter((_, i) => i % 8 === 0) };
+}
+
+/**
+ * Salsa-like groove: cowbell on every beat (accented on odd counts), tumbao congas on 4 and 4&,
+ * anticipated bass on 2& and 4, and a clave pattern, so most of the energy is off the beat
+ */
+export function salsaPattern(bpm: number, duration: number, clave: ClavePattern = 'son32'): SyntheticSignal {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  const beats = beatTimes(bpm, bpm, duration);
+  const half = 30 / bpm;
+  beats.forEach((time, i) => {
+    const position = i % 8;
+    addTone(samples, time, 800, position % 2 === 0 ? 0.35 : 0.2, 0.03); // Cowbell
+    if (position % 4 === 1) {
+      addTone(samples, time, 260, 0.15, 0.05); // Heel tone on 2
+      addTone(samples, time + half, 70, 0.5, 0.15); // Bass on 2&
+    }
+    if (position % 4 === 3) {
+      addTone(samples, time, 330, 0.35, 0.06); // Open conga on 4
+      addTone(samples, time + half, 330, 0.4, 0.06); // And on 4&
+      addTone(samples, time, 70, 0.5, 0.15); // Bass on 4
+    }
+    for (const step of CLAVE_STEPS[clave]) {
+      if (Math.floor(step / 2) === position) addTone(samples, time + (step % 2) * half, 2500, 0.3, 0.015);
+    }
+  });
+  return { samples, beats, downbeats: beats.filter((_, i) => i % 8 === 0) };
+}
+
+export interface DetectionRun {
+  beats: BeatDetectionResult[]; // Timestamps in ms from the start of the signal
+  bpmReadings: { bpm: number; timestamp: number }[];
+  states: { state: TrackingState; timestamp: number }[];
+  finalBPM: number;
+}
+
+/**
+ * Feed a signal to a fresh BeatDetector frame by frame, timestamped in ms from the start of the signal
+ */
+export function runDetector(samples: Float32Array, options: BeatDetectorOptions = {}): DetectionRun {
+  const run: DetectionRun = { beats: [], bpmReadings: [], states: [], finalBPM: 0 };
+  const detector = new BeatDetector(
+    {
+      onBeat: (result) => run.beats.push(result),
+      onBPMUpdate: (bpm) => run.bpmReadings.push({ bpm, timestamp: run.beats[run.beats.length - 1]?.timestamp ?? 0 }),
+      onStateChange: (status) => run.states.push({ state: status.state, timestamp: status.timestamp }),
+    },
+    { sampleRate: SAMPLE_RATE, predictionOffset: 0, ...options },
+  );
+  for (let position = 0; position + FRAME_SIZE <= samples.length; position += HOP_SIZE) {
+    const start = Math.round(position);
+    detector.processPCM(samples.subarray(start, start + FRAME_SIZE), ((start + FRAME_SIZE) / SAMPLE_RATE) * 1000);
+  }
+  run.finalBPM = detector.getBPM();
+  return run;
+}
+
+export interface BeatScore {
+  fMeasure: number; // 0-1, harmonic mean of precision and recall
+  meanError: number; // Mean absolute timing error of matched beats, ms
+  matches: { detected: number; reference: number }[]; // Index pairs into the detected and reference lists
+}
+
+/**
+ * Match detected beats (ms) to reference beats (s) one to one within the tolerance, counting only
+ * beats at or after `from` seconds so the detector has time to settle
+ */
+export function scoreBeats(detected: number[], reference: number[], from = 0, tolerance = 70): BeatScore {
+  const candidates = detected.map((time, index) => ({ time, index })).filter(({ time }) => time >= from * 1000 - tolerance);
+  const references = reference.map((time, index) => ({ time: time * 1000, index })).filter(({ time }) => time >= from * 1000);
+  const used = new Set<number>();
+  const matches: BeatScore['matches'] = [];
+  let totalError = 0;
+  for (const ref of references) {
+    let best: { time: number; index: number } | null = null;
+    for (const candidate of candidates) {
+      if (used.has(candidate.index)) continue;
+      const error = Math.abs(candidate.time - ref.time);
+      if (error < tolerance && (!best || error < Math.abs(best.time - ref.time))) best = candidate;
+    }
+    if (best) {
+      used.add(best.index);
+      matches.push({ detected: best.index, reference: ref.index });
+      totalError += Math.abs(best.time - ref.time);
+    }
+  }
+  const candidatesInRange = candidates.filter(({ time }) => time <= references[references.length - 1]?.time + tolerance);
+  const precision = candidatesInRange.length > 0 ? matches.length / candidatesInRange.length : 0;
+  const recall = references.length > 0 ? matches.length / references.length : 0;
+  return {
+    fMeasure: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    meanError: matches.length > 0 ? totalError / matches.length : Infinity,
+    matches,
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Audio Clock helpers
+ * Maps performance.now() times (used for beats and the count) onto an AudioContext's clock,
+ * and schedules level changes on it
+ */
+
+/**
+ * AudioContext time at which a sound must be scheduled to be heard at the given performance.now() time
+ * Uses the context's output timestamp when available, which already accounts for output latency
+ */
+export function contextTimeAt(context: AudioContext, timestamp: number): number {
+  if (typeof context.getOutputTimestamp === 'function') {
+    const output = context.getOutputTimestamp();
+    if (output.contextTime !== undefined && output.performanceTime !== undefined && output.performanceTime > 0) {
+      return output.contextTime + (timestamp - output.performanceTime) / 1000;
+    }
+  }
+  const latency = (context.outputLatency || 0) + (context.baseLatency || 0);
+  return context.currentTime + (timestamp - performance.now()) / 1000 - latency;
+}
+
+/**
+ * Milliseconds to add to an AudioContext time (in ms) to get the performance.now() time it was processed at
+ * For times on the analysis side, like beats found by a worklet; output latency doesn't apply
+ */
+export function processingClockOffset(context: BaseAudioContext): number {
+  return performance.now() - context.currentTime * 1000;
+}
+
+/**
+ * Dip a gain parameter around a point in time and bring it back
+ * @param time - AudioContext time of the dip
+ * @param depth - 0-1 fraction of the level to take away
+ * @param duration - Seconds to stay ducked
+ * @param level - Level to return to
+ */
+export function duckGain(gain: AudioParam, time: number, depth: number, duration: number, level = 1): void {
+  const start = Math.max(time - 0.02, 0);
+  gain.cancelScheduledValues(start);
+  gain.setTargetAtTime(level * (1 - depth), start, 0.01);
+  gain.setTargetAtTime(level, time + duration, 0.08);
+}
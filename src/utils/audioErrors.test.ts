@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AudioInputError, checkAudioSupport, toAudioInputError } from './audioErrors';
+
+function domError(name: string) {
+  return new DOMException('getUserMedia failed', name);
+}
+
+describe('toAudioInputError', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    ['NotAllowedError', 'permission-denied'],
+    ['PermissionDeniedError', 'permission-denied'],
+    ['SecurityError', 'permission-denied'],
+    ['NotFoundError', 'no-device'],
+    ['DevicesNotFoundError', 'no-device'],
+    ['OverconstrainedError', 'no-device'],
+    ['NotReadableError', 'device-busy'],
+    ['TrackStartError', 'device-busy'],
+    ['AbortError', 'device-busy'],
+  ])('classifies %s as %s', (name, kind) => {
+    const error = toAudioInputError(domError(name));
+    expect(error).toBeInstanceOf(AudioInputError);
+    expect(error.kind).toBe(kind);
+    expect(error.cause).toBeInstanceOf(DOMException);
+  });
+
+  it('passes an AudioInputError through unchanged', () => {
+    const original = new AudioInputError('no-device');
+    expect(toAudioInputError(original)).toBe(original);
+  });
+
+  it('explains an unknown failure by what the page is missing', () => {
+    vi.stubGlobal('window', { isSecureContext: false });
+    expect(toAudioInputError(new TypeError('mediaDevices is undefined')).kind).toBe('insecure-context');
+  });
+
+  it('falls back to unknown when the environment looks fine', () => {
+    vi.stubGlobal('window', { isSecureContext: true });
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: () => {} } });
+    vi.stubGlobal('AudioContext', class {});
+    expect(toAudioInputError(new Error('boom')).kind).toBe('unknown');
+  });
+});
+
+describe('checkAudioSupport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('needs a secure context before anything else', () => {
+    vi.stubGlobal('window', { isSecureContext: false });
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: () => {} } });
+    vi.stubGlobal('AudioContext', class {});
+    expect(checkAudioSupport()?.kind).toBe('insecure-context');
+  });
+
+  it('reports a browser without getUserMedia as unsupported', () => {
+    vi.stubGlobal('window', { isSecureContext: true });
+    vi.stubGlobal('navigator', {});
+    vi.stubGlobal('AudioContext', class {});
+    const error = checkAudioSupport();
+    expect(error?.kind).toBe('unsupported');
+    expect(error?.help.canRetry).toBe(false);
+  });
+
+  it('checks for screen sharing when capturing a tab', () => {
+    vi.stubGlobal('window', { isSecureContext: true });
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: () => {} } });
+    vi.stubGlobal('AudioContext', class {});
+    expect(checkAudioSupport('display')?.kind).toBe('unsupported');
+    expect(checkAudioSupport()).toBeNull();
+  });
+
+  it('only needs Web Audio for sources that capture nothing', () => {
+    vi.stubGlobal('window', { isSecureContext: false });
+    vi.stubGlobal('navigator', {});
+    vi.stubGlobal('AudioContext', class {});
+    expect(checkAudioSupport(null)).toBeNull();
+  });
+
+  it('passes when the microphone can be asked for', () => {
+    vi.stubGlobal('window', { isSecureContext: true });
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: () => {} } });
+    vi.stubGlobal('AudioContext', class {});
+    expect(checkAudioSupport()).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Audio Input Errors
+ * Turns whatever getUserMedia, getDisplayMedia and the Web Audio API throw into a few kinds the
+ * UI can explain and offer a way out of
+ */
+
+export type AudioErrorKind =
+  | 'permission-denied' // The user or the browser settings refused the microphone
+  | 'no-device' // No microphone, or none that meets the constraints
+  | 'device-busy' // Another app or tab holds the microphone, or the hardware failed
+  | 'insecure-context' // Page not served over HTTPS (or localhost)
+  | 'unsupported' // No getUserMedia / getDisplayMedia / Web Audio at all
+  | 'capture-cancelled' // Tab capture: the share picker was closed
+  | 'capture-no-audio' // Tab capture: something was shared, but without its audio
+  | 'capture-ended' // Tab capture: sharing was stopped, which only a new share can undo
+  | 'unknown';
+
+export interface AudioErrorHelp {
+  title: string;
+  hint: string;
+  canRetry: boolean; // Trying again can succeed without reloading the page
+}
+
+export const AUDIO_ERROR_HELP: Record<AudioErrorKind, AudioErrorHelp> = {
+  'permission-denied': {
+    title: 'Microphone access was blocked',
+    hint: 'Allow the microphone for this site (the 🔒 or ⓘ next to the address, or your phone\'s browser settings), then try again.',
+    canRetry: true,
+  },
+  'no-device': {
+    title: 'No microphone found',
+    hint: 'Connect a microphone or headset, check that it is enabled in your system settings, or pick another input, then try again.',
+    canRetry: true,
+  },
+  'device-busy': {
+    title: 'The microphone is in use',
+    hint: 'Another app or tab (a call, a voice recorder) may be holding it. Close it and try again.',
+    canRetry: true,
+  },
+  'insecure-context': {
+    title: 'The microphone needs a secure connection',
+    hint: 'Open Baila Beat over https:// (or on localhost when developing).',
+    canRetry: false,
+  },
+  unsupported: {
+    title: 'This browser can\'t listen to music',
+    hint: 'Use a recent Chrome, Edge, Firefox or Safari.',
+    canRetry: false,
+  },
+  'capture-cancelled': {
+    title: 'Nothing was shared',
+    hint: 'Start again and pick the tab or screen playing the music.',
+    canRetry: true,
+  },
+  'capture-no-audio': {
+    title: 'The share has no sound',
+    hint: 'Start again, pick the tab playing the music and turn on "Share tab audio" (or "Share system audio" for a screen). Only Chrome and Edge on desktop can share audio.',
+    canRetry: true,
+  },
+  'capture-ended': {
+    title: 'Tab sharing stopped',
+    hint: 'Share the tab again to keep counting.',
+    canRetry: true,
+  },
+  unknown: {
+    title: 'Could not start the microphone',
+    hint: 'Check your microphone and try again.',
+    canRetry: true,
+  },
+};
+
+export class AudioInputError extends Error {
+  readonly kind: AudioErrorKind;
+  readonly cause: unknown; // The original error, for logging
+
+  constructor(kind: AudioErrorKind, cause?: unknown) {
+    super(AUDIO_ERROR_HELP[kind].title);
+    this.name = 'AudioInputError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+
+  get help(): AudioErrorHelp {
+    return AUDIO_ERROR_HELP[this.kind];
+  }
+}
+
+/**
+ * Reasons an input can't work on this page at all, checked before asking for it
+ * @param capture The media API the input needs, if any
+ */
+export function checkAudioSupport(capture: 'microphone' | 'display' | null = 'microphone'): AudioInputError | null {
+  if (capture && typeof window !== 'undefined' && window.isSecureContext === false) {
+    return new AudioInputError('insecure-context');
+  }
+  const mediaDevices = typeof navigator === 'undefined' ? undefined : navigator.mediaDevices;
+  const api = capture === 'microphone' ? mediaDevices?.getUserMedia : capture === 'display' ? mediaDevices?.getDisplayMedia : true;
+  if (!api || typeof AudioContext === 'undefined') {
+    return new AudioInputError('unsupported');
+  }
+  return null;
+}
+
+/**
+ * Classify an error from getUserMedia or starting the audio graph
+ */
+export function toAudioInputError(error: unknown): AudioInputError {
+  if (error instanceof AudioInputError) return error;
+  const name = error instanceof Error || error instanceof DOMException ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError': // Older Chrome
+    case 'SecurityError':
+      return new AudioInputError('permission-denied', error);
+    case 'NotFoundError':
+    case 'DevicesNotFoundError': // Older Chrome
+    case 'OverconstrainedError':
+      return new AudioInputError('no-device', error);
+    case 'NotReadableError':
+    case 'TrackStartError': // Older Chrome
+    case 'AbortError':
+      return new AudioInputError('device-busy', error);
+    default:
+      return checkAudioSupport() ?? new AudioInputError('unknown', error);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Audio Presets
+ * Named detection tunings for typical listening situations, and storage for the user's own edits
+ */
+
+import { DEFAULT_DETECTION_TUNING, DetectionTuning } from './beatDetector';
+
+export type AudioPresetId = 'default' | 'loud-club' | 'quiet-studio' | 'phone-speaker' | 'live-band';
+
+export interface AudioPreset {
+  id: AudioPresetId;
+  name: string;
+  description: string;
+  tuning: DetectionTuning;
+}
+
+export interface StoredTuning {
+  presetId: AudioPresetId; // Preset the tuning started from
+  tuning: DetectionTuning; // Possibly edited in the advanced settings
+}
+
+export const AUDIO_PRESETS: Record<AudioPresetId, AudioPreset> = {
+  default: {
+    id: 'default',
+    name: 'Default',
+    description: 'Recorded salsa from a decent speaker',
+    tuning: { ...DEFAULT_DETECTION_TUNING, minBeatEnergy: 2.5 },
+  },
+  'loud-club': {
+    id: 'loud-club',
+    name: 'Loud club',
+    description: 'High noise floor and crowd chatter; only strong hits count',
+    tuning: {
+      ...DEFAULT_DETECTION_TUNING,
+      minEnergyThreshold: 4,
+      onsetThreshold: 0.7,
+      thresholdMultiplier: 1.6,
+      minBeatEnergy: 5,
+      bandWeights: [1.8, 1.2, 0.8, 0.8],
+    },
+  },
+  'quiet-studio': {
+    id: 'quiet-studio',
+    name: 'Quiet studio',
+    description: 'Low volume in a quiet room; picks up softer hits',
+    tuning: {
+      ...DEFAULT_DETECTION_TUNING,
+      minEnergyThreshold: 0.5,
+      onsetThreshold: 0.4,
+      thresholdMultiplier: 1.2,
+      minBeatEnergy: 1,
+    },
+  },
+  'phone-speaker': {
+    id: 'phone-speaker',
+    name: 'Phone speaker',
+    description: 'Little or no bass; relies on congas, timbales and cowbell',
+    tuning: {
+      ...DEFAULT_DETECTION_TUNING,
+      minEnergyThreshold: 1,
+      minBeatEnergy: 1.5,
+      bandWeights: [0.3, 1.2, 1.3, 1.2],
+    },
+  },
+  'live-band': {
+    id: 'live-band',
+    name: 'Live band',
+    description: 'Drifting tempo and a busy mix; longer history, percussion-led',
+    tuning: {
+      ...DEFAULT_DETECTION_TUNING,
+      historySize: 60,
+      thresholdMultiplier: 1.4,
+      minBeatEnergy: 2.5,
+      bandWeights: [1.2, 1.4, 1.1, 1],
+      minBPM: 70,
+      maxBPM: 230,
+    },
+  },
+};
+
+const STORAGE_KEY = 'baila-beat:tuning';
+
+export function loadTuning(): StoredTuning {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as StoredTuning;
+      const preset = AUDIO_PRESETS[parsed.presetId] ?? AUDIO_PRESETS.default;
+      return { presetId: preset.id, tuning: { ...preset.tuning, ...parsed.tuning } };
+    }
+  } catch {
+    // Fall through to the default preset
+  }
+  return { presetId: 'default', tuning: AUDIO_PRESETS.default.tuning };
+}
+
+export function saveTuning(stored: StoredTuning): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (err) {
+    console.warn('Failed to store audio settings:', err);
+  }
+}
@@ -1,471 +1,475 @@
 /**
  * Audio Processor for real-time beat detection
  * Uses Web Audio API for low-latency audio analysis
+ * Wires an input source (the microphone by default) into the platform-independent BeatDetector,
+ * running it in an AudioWorklet where supported and falling back to polling an AnalyserNode every
+ * display frame
+ * Survives interruptions (calls, other apps taking audio) and input changes: the source is
+ * re-opened into the same audio graph, so the detector keeps its tempo and phase
  */
 
-export interface BeatDetectionResult {
-  beat: boolean;
-  downbeat: boolean;
-  timestamp: number;
-  energy: number;
+import {
+  BeatDetector,
+  BeatDetectionResult,
+  BeatDetectorCallbacks,
+  DetectionTuning,
+  TempoCandidate,
+  TrackingState,
+  TrackingStatus,
+} from './beatDetector';
+import { AUDIO_PRESETS } from './audioPresets';
+import { processingClockOffset } from './audioClock';
+import { predictionOffsetFor } from './latencyCalibration';
+import type { BeatWorkletCommand, BeatWorkletEvent, BeatWorkletOptions } from './beatWorklet';
+import beatWorkletUrl from './beatWorklet.ts?worker&url';
+import { AudioInputError, checkAudioSupport, toAudioInputError } from './audioErrors';
+import { InputSource, MicrophoneSource } from './inputSources';
+
+export type { BeatDetectionResult, DetectionTuning, TempoCandidate, TrackingState, TrackingStatus };
+
+// Health of the input while listening
+export type AudioInputStatus =
+  | 'running'
+  | 'interrupted' // The system paused audio (a call, Siri, another app); resume() may need a tap
+  | 'reconnecting' // The input went away (unplugged, taken over); it is being opened again
+  | 'ended' // A source that can't be re-opened without a tap stopped (tab sharing, a file); reconnect() re-opens it
+  | 'failed'; // Re-opening gave up; reconnect() tries again
+
+export interface AudioProcessorCallbacks extends BeatDetectorCallbacks {
+  onInputStatus?: (status: AudioInputStatus, error?: AudioInputError) => void;
 }
 
-export interface AudioProcessorCallbacks {
-  onBeat: (result: BeatDetectionResult) => void;
-  onBPMUpdate: (bpm: number) => void;
+export interface AudioProcessorOptions extends Partial<DetectionTuning> {
+  inputLatency?: number; // ms from sound reaching the mic to analysis; frames are back-dated by this
+  feedbackOffset?: number; // ms the count is perceived late; beats are emitted this much ahead, plus the input latency
+  source?: InputSource; // The default microphone if omitted
 }
 
+const WORKLET_PROCESSOR = 'beat-detector'; // Registered by beatWorklet.ts
+const RECONNECT_DELAYS = [0, 500, 1500, 3000]; // ms before each attempt to re-open the input
+
 export class AudioProcessor {
   private audioContext: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
-  private microphone: MediaStreamAudioSourceNode | null = null;
-  private stream: MediaStream | null = null;
+  private spectrumData: Uint8Array<ArrayBuffer> | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private source: InputSource;
+  private sourceNode: AudioNode | null = null;
+  private recordingNode: MediaStreamAudioDestinationNode | null = null; // Outlives the source across reconnects
   private animationFrameId: number | null = null;
   private callbacks: AudioProcessorCallbacks;
+  private detector: BeatDetector | null = null; // Only on the fallback path; the worklet runs its own
+  private bpm = 0; // Last BPM reported by the worklet
+  private inputLatency: number;
+  private feedbackOffset: number;
+  private tuning: DetectionTuning;
+  private inputStatus: AudioInputStatus = 'running';
+  private reconnecting: Promise<void> | null = null;
+  private reconnectingSource: InputSource | null = null; // The source the reconnect in flight is opening
+  private running = false; // Between start() and stop()
   
-  // Beat detection parameters
-  private energyHistory: number[] = [];
-  private beatHistory: number[] = [];
-  private previousEnergy: number = 0; // For onset detection
-  private readonly historySize = 43; // ~1 second at 44.1kHz with 1024 buffer
-  private readonly energyThresholdMultiplier = 1.3; // More sensitive for accurate detection
-  private readonly downbeatInterval = 8; // 8 beats per cycle
-  private readonly minEnergyThreshold = 1.5; // Lower threshold to catch quieter music
-  private readonly onsetThreshold = 0.12; // Lower onset threshold (12%) for better detection
-  
-  // BPM calculation
-  private bpmHistory: number[] = [];
-  private readonly bpmHistorySize = 20; // Increased for more stability
-  private currentStableBPM: number = 0; // Current stabilized BPM value
-  private lastBeatTime = 0;
-  private beatCount = 0;
-  private predictedNextBeatTime: number = 0; // Predicted time for next beat
-  private readonly predictionOffset = 250; // Predict beats 250ms ahead to compensate for latency
-  private lastPredictedBeatTime: number = 0; // Track last predicted beat to prevent double-triggering
-  
-  // Band-pass filter for percussion frequencies (80-200 Hz)
-  private bandpassFilter: BiquadFilterNode | null = null;
-  
-  constructor(callbacks: AudioProcessorCallbacks) {
+  constructor(callbacks: AudioProcessorCallbacks, options: AudioProcessorOptions = {}) {
     this.callbacks = callbacks;
+    const { inputLatency, feedbackOffset, source, ...tuning } = options;
+    this.inputLatency = inputLatency ?? 0;
+    this.feedbackOffset = feedbackOffset ?? 0;
+    this.tuning = { ...AUDIO_PRESETS.default.tuning, ...tuning };
+    this.source = source ?? new MicrophoneSource();
+  }
+
+  /**
+   * Change options while running; omitted fields keep their current value
+   * A new source is swapped in like a reconnect, so the count carries on
+   */
+  updateOptions(options: Partial<AudioProcessorOptions>): void {
+    const { inputLatency, feedbackOffset, source, ...tuning } = options;
+    if (source !== undefined && source !== this.source) {
+      this.source.close();
+      this.source = source;
+      void this.reconnect();
+    }
+    if (inputLatency !== undefined) {
+      this.inputLatency = inputLatency;
+    }
+    if (feedbackOffset !== undefined) {
+      this.feedbackOffset = feedbackOffset;
+    }
+    this.tuning = { ...this.tuning, ...tuning };
+    this.detector?.setTuning(tuning);
+
+    // Both depend on the source: only sound through the air has input latency to make up for
+    if (inputLatency !== undefined || feedbackOffset !== undefined || source !== undefined) {
+      this.detector?.setPredictionOffset(this.lookahead());
+      this.postToWorklet({ type: 'latency', inputLatency: this.sourceLatency(), predictionOffset: this.lookahead() });
+    }
+    this.postToWorklet({ type: 'tuning', tuning });
+  }
+
+  getOptions(): AudioProcessorOptions {
+    return { inputLatency: this.inputLatency, feedbackOffset: this.feedbackOffset, source: this.source, ...this.tuning };
   }
 
+  /**
+   * Open the input source and start detection
+   * @throws AudioInputError describing why the input couldn't be used
+   */
   async start(): Promise<void> {
+    const unsupported = checkAudioSupport(null);
+    if (unsupported) throw unsupported;
+
     try {
-      // Detect mobile device once
-      const isMobile = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent);
-      
-      // Request microphone access
-      // On mobile, allow browser to optimize audio settings
-      this.stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: isMobile ? true : false, // Enable on mobile for better quality
-          noiseSuppression: isMobile ? true : false, // Enable on mobile
-          autoGainControl: isMobile ? true : false, // Enable on mobile for consistent levels
-          sampleRate: 44100,
-        },
-      });
+      this.running = true;
 
       // Create audio context
       // Use 44.1kHz for consistency across devices (standard audio sample rate)
       this.audioContext = new AudioContext({ sampleRate: 44100 });
+
+      // Open the source first: the tab share picker needs the tap that started listening
+      this.sourceNode = await this.source.open(this.audioContext, this.sourceEvents, false);
       
       // iOS requires audio context to be resumed after user interaction
       // Resume if suspended (common on iOS)
       if (this.audioContext.state === 'suspended') {
         await this.audioContext.resume();
       }
-      
-      // Create microphone source
-      this.microphone = this.audioContext.createMediaStreamSource(this.stream);
+      // iOS also suspends or interrupts it again for calls and other apps taking audio
+      this.audioContext.onstatechange = () => this.handleContextStateChange();
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+
+      if (await this.startWorklet()) {
+        return;
+      }
       
       // Create analyser node
       this.analyser = this.audioContext.createAnalyser();
       this.analyser.fftSize = 2048;
       this.analyser.smoothingTimeConstant = 0.3; // Same smoothing for both mobile and desktop
       
-      // Use bandpass filter for kick drum frequencies (60-100 Hz)
-      // Kick drums are the most reliable indicator of beats in salsa music
-      this.bandpassFilter = this.audioContext.createBiquadFilter();
-      this.bandpassFilter.type = 'bandpass';
-      this.bandpassFilter.frequency.value = 80; // Center on kick drum frequency
-      this.bandpassFilter.Q.value = 2; // Higher Q for sharper filtering
-      this.microphone.connect(this.bandpassFilter);
-      this.bandpassFilter.connect(this.analyser);
+      // Feed the full spectrum: the detector splits it into bands itself so
+      // congas, timbales and cowbell count as well as the kick
+      this.sourceNode.connect(this.analyser);
+      this.spectrumData = new Uint8Array(this.analyser.frequencyBinCount);
+      
+      this.detector = new BeatDetector(this.callbacks, {
+        ...this.tuning,
+        sampleRate: this.audioContext.sampleRate,
+        predictionOffset: this.lookahead(),
+      });
       
       // Start processing
       this.processAudio();
     } catch (error) {
-      console.error('Error accessing microphone:', error);
-      throw error;
+      console.error('Error opening the audio input:', error);
+      this.stop();
+      throw toAudioInputError(error);
     }
   }
 
   stop(): void {
+    this.running = false;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+
     if (this.animationFrameId !== null) {
       cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
     
-    if (this.stream) {
-      this.stream.getTracks().forEach(track => track.stop());
-      this.stream = null;
-    }
+    this.source.close();
+    this.sourceNode = null;
     
-    if (this.microphone) {
-      this.microphone.disconnect();
-      this.microphone = null;
-    }
-    
-    if (this.bandpassFilter) {
-      this.bandpassFilter.disconnect();
-      this.bandpassFilter = null;
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+      this.workletNode = null;
     }
     
     if (this.audioContext) {
+      this.audioContext.onstatechange = null;
       this.audioContext.close();
       this.audioContext = null;
     }
     
     this.analyser = null;
-    this.energyHistory = [];
-    this.beatHistory = [];
-    this.bpmHistory = [];
-    this.beatCount = 0;
-    this.lastBeatTime = 0;
-    this.previousEnergy = 0;
-    this.currentStableBPM = 0;
-    this.predictedNextBeatTime = 0;
-    this.lastPredictedBeatTime = 0;
+    this.spectrumData = null;
+    this.recordingNode = null;
+    this.detector = null;
+    this.bpm = 0;
+    this.inputStatus = 'running';
   }
 
-  private processAudio(): void {
-    if (!this.analyser) return;
-    
-    // Ensure audio context is running (iOS sometimes suspends it)
-    if (this.audioContext && this.audioContext.state === 'suspended') {
-      this.audioContext.resume().catch(err => {
-        console.warn('Failed to resume audio context:', err);
-      });
+  /**
+   * Resume after a system interruption; call from a tap or click, which iOS requires
+   * @returns True if audio is running again
+   */
+  async resume(): Promise<boolean> {
+    if (!this.audioContext) return false;
+    try {
+      await this.audioContext.resume();
+    } catch (err) {
+      console.warn('Failed to resume audio context:', err);
     }
+    const running = this.audioContext?.state === 'running';
+    if (running && this.inputStatus === 'interrupted') {
+      this.setInputStatus('running');
+    }
+    return running;
+  }
 
-    const now = performance.now();
-    
-    // Check if we should predict a beat based on timing
-    if (this.predictedNextBeatTime > 0 && now >= this.predictedNextBeatTime - this.predictionOffset) {
-      // We're close to predicted beat time, check if energy is rising
-      const bufferLength = this.analyser.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-      this.analyser.getByteFrequencyData(dataArray);
-      
-      // Calculate energy quickly for prediction check
-      const sampleRate = this.audioContext?.sampleRate || 44100;
-      const nyquist = sampleRate / 2;
-      const binWidth = nyquist / bufferLength;
-      
-      let energy = 0;
-      let totalWeight = 0;
-      
-      for (let i = 0; i < bufferLength; i++) {
-        const freq = i * binWidth;
-        let weight = 1;
-        if (freq >= 40 && freq <= 120) {
-          weight = 3;
-        } else if (freq >= 120 && freq <= 200) {
-          weight = 1.5;
-        } else {
-          weight = 0.5;
-        }
-        energy += dataArray[i] * weight;
-        totalWeight += weight;
-      }
-      energy = energy / totalWeight;
-      
-      // If energy is above threshold and we're at predicted time, trigger beat early
-      if (this.energyHistory.length >= this.historySize) {
-        const avgEnergy = this.energyHistory.reduce((a, b) => a + b, 0) / this.energyHistory.length;
-        if (energy > avgEnergy * 1.05 && energy > this.minEnergyThreshold) {
-          // Check if we haven't already triggered a beat recently
-          if (now - this.lastPredictedBeatTime > 100) {
-            // Trigger predicted beat
-            const timestamp = now + this.predictionOffset; // Use predicted time
-            const isDownbeat = this.isDownbeat();
-            
-            this.lastBeatTime = timestamp;
-            this.beatCount++;
-            this.lastPredictedBeatTime = now;
-            
-            // Update prediction for next beat
-            this.updateBeatPrediction(timestamp);
-            
-            this.callbacks.onBeat({
-              beat: true,
-              downbeat: isDownbeat,
-              timestamp,
-              energy,
-            });
-            
-            // Continue processing to update energy history
-          }
+  /**
+   * Open the source again and plug it into the running audio graph
+   * The detector isn't touched, so tempo and phase carry over
+   */
+  reconnect(): Promise<void> {
+    if (!this.running || !this.audioContext) return Promise.resolve();
+    const pending = this.reconnecting;
+    if (pending && this.reconnectingSource === this.source) return pending;
+
+    // A source swapped in while another was being opened gets its own attempt once that one gives way
+    const reconnecting: Promise<void> = (pending ?? Promise.resolve())
+      .then(() => this.reopenSource())
+      .finally(() => {
+        if (this.reconnecting !== reconnecting) return;
+        this.reconnecting = null;
+        this.reconnectingSource = null;
+      });
+    this.reconnecting = reconnecting;
+    this.reconnectingSource = this.source;
+    return reconnecting;
+  }
+
+  getInputStatus(): AudioInputStatus {
+    return this.inputStatus;
+  }
+
+  private async reopenSource(): Promise<void> {
+    const source = this.source;
+    this.setInputStatus('reconnecting');
+    source.close();
+    this.sourceNode = null;
+
+    // A source that needs a tap gets one attempt, made straight away while the tap still counts
+    const delays = source.canReopen ? RECONNECT_DELAYS : [0];
+    let lastError: unknown = null;
+    for (const delay of delays) {
+      if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+      // Stopped, or swapped for another source that is opened next
+      if (!this.running || !this.audioContext || source !== this.source) return;
+      try {
+        const node = await source.open(this.audioContext, this.sourceEvents, true);
+        // Stopped, or swapped for another source, while opening
+        if (!this.running || source !== this.source) {
+          source.close();
+          return;
         }
+        this.sourceNode = node;
+        const destination = this.workletNode ?? this.analyser;
+        if (destination) node.connect(destination);
+        if (this.recordingNode) node.connect(this.recordingNode);
+        this.setInputStatus(this.audioContext?.state === 'running' ? 'running' : 'interrupted');
+        return;
+      } catch (error) {
+        lastError = error;
+        // Waiting won't change a refusal
+        if (toAudioInputError(error).kind === 'permission-denied') break;
       }
     }
+    console.error('Could not re-open the audio input:', lastError);
+    this.setInputStatus('failed', toAudioInputError(lastError));
+  }
 
-    const bufferLength = this.analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    this.analyser.getByteFrequencyData(dataArray);
-
-    // Calculate energy with emphasis on low frequencies (kick drum range)
-    // Weight lower frequencies more heavily since they contain the beat
-    const sampleRate = this.audioContext?.sampleRate || 44100;
-    const nyquist = sampleRate / 2;
-    const binWidth = nyquist / bufferLength;
-    
-    let energy = 0;
-    let totalWeight = 0;
-    
-    for (let i = 0; i < bufferLength; i++) {
-      const freq = i * binWidth;
-      let weight = 1;
-      
-      // Heavily emphasize kick drum frequencies (40-120 Hz)
-      if (freq >= 40 && freq <= 120) {
-        weight = 3; // Triple weight for kick drum range
-      } else if (freq >= 120 && freq <= 200) {
-        weight = 1.5; // Moderate weight for other percussion
+  private sourceEvents = {
+    onEnded: () => {
+      if (this.source.canReopen) {
+        void this.reconnect();
       } else {
-        weight = 0.5; // Reduce weight for higher frequencies
+        this.source.close();
+        this.sourceNode = null;
+        this.setInputStatus('ended', this.source.kind === 'tab' ? new AudioInputError('capture-ended') : undefined);
       }
-      
-      energy += dataArray[i] * weight;
-      totalWeight += weight;
+    },
+    onMute: (muted: boolean) => {
+      if (muted) {
+        this.setInputStatus('interrupted');
+      } else if (this.audioContext?.state === 'running') {
+        this.setInputStatus('running');
+      }
+    },
+  };
+
+  /**
+   * Calibrated input latency only applies to sound picked up through the air
+   */
+  private sourceLatency(): number {
+    return this.source.acoustic ? this.inputLatency : 0;
+  }
+
+  /**
+   * How far ahead (ms) beats are emitted so the count lands on the music for this source
+   */
+  private lookahead(): number {
+    return predictionOffsetFor(
+      { inputLatency: this.inputLatency, feedbackOffset: this.feedbackOffset },
+      this.source.acoustic,
+    );
+  }
+
+  private handleContextStateChange(): void {
+    // Safari reports 'interrupted', which isn't in the standard AudioContextState
+    const state: string | undefined = this.audioContext?.state;
+    if (state === 'running') {
+      if (this.inputStatus === 'interrupted') this.setInputStatus('running');
+    } else if (state === 'suspended' || state === 'interrupted') {
+      this.setInputStatus('interrupted');
+      // Works once the interruption is over, or if nothing is blocking it; otherwise it takes a tap
+      void this.resume();
     }
-    
-    energy = energy / totalWeight; // Normalize by total weight
+  }
 
-    // Update energy history
-    this.energyHistory.push(energy);
-    if (this.energyHistory.length > this.historySize) {
-      this.energyHistory.shift();
+  private handleVisibilityChange = () => {
+    if (document.visibilityState !== 'visible' || !this.audioContext) return;
+    // Coming back from the background: pick up anything that broke while hidden
+    if (this.inputStatus === 'running' && this.source.canReopen && this.source.isEnded()) {
+      void this.reconnect();
+    } else if (this.audioContext.state !== 'running') {
+      void this.resume();
     }
+  };
 
-    // Detect beat
-    if (this.energyHistory.length >= this.historySize) {
-      const beatDetected = this.detectBeat(energy);
-      
-      if (beatDetected) {
-        const timestamp = performance.now();
-        
-        // Skip if we just triggered a predicted beat (prevent double-triggering)
-        if (timestamp - this.lastPredictedBeatTime < 150) {
-          // Continue processing to update energy history
-          this.animationFrameId = requestAnimationFrame(() => this.processAudio());
-          return;
-        }
-        
-        const isDownbeat = this.isDownbeat();
-        
-        // Calculate BPM
-        if (this.lastBeatTime > 0) {
-          const interval = timestamp - this.lastBeatTime;
-          const bpm = 60000 / interval; // Convert ms to BPM
-          
-          // Filter reasonable BPM range (60-200 BPM for salsa)
-          if (bpm >= 60 && bpm <= 200) {
-            // Outlier filtering: only reject if we have enough samples and stable BPM
-            // Be more lenient when we don't have many samples yet
-            const hasEnoughSamples = this.bpmHistory.length >= 5;
-            const shouldRejectOutlier = hasEnoughSamples && this.currentStableBPM > 0;
-            
-            if (shouldRejectOutlier) {
-              // Allow 40% deviation (more lenient) to prevent false rejections
-              const maxDeviation = this.currentStableBPM * 0.4;
-              if (Math.abs(bpm - this.currentStableBPM) > maxDeviation) {
-                // Skip this BPM value if it's too different from stable BPM
-                // But still process the beat (don't return early)
-              } else {
-                // BPM is acceptable, add it to history
-                this.bpmHistory.push(bpm);
-                if (this.bpmHistory.length > this.bpmHistorySize) {
-                  this.bpmHistory.shift();
-                }
-              }
-            } else {
-              // Not enough samples yet, always add to build up history
-              this.bpmHistory.push(bpm);
-              if (this.bpmHistory.length > this.bpmHistorySize) {
-                this.bpmHistory.shift();
-              }
-            }
-            
-            // Update stable BPM if we have enough samples
-            if (this.bpmHistory.length >= 3) {
-              const stableBPM = this.calculateStableBPM();
-              
-              // Gradually adjust stable BPM to prevent sudden jumps
-              if (this.currentStableBPM === 0) {
-                this.currentStableBPM = stableBPM;
-              } else {
-                // Smooth transition: move 20% towards new value per beat
-                this.currentStableBPM = this.currentStableBPM * 0.8 + stableBPM * 0.2;
-              }
-              
-              this.callbacks.onBPMUpdate(Math.round(this.currentStableBPM));
-            }
-          }
-        }
-        
-        this.lastBeatTime = timestamp;
-        this.beatCount++;
-        
-        // Update prediction for next beat
-        this.updateBeatPrediction(timestamp);
-        
+  private setInputStatus(status: AudioInputStatus, error?: AudioInputError): void {
+    if (status === this.inputStatus && !error) return;
+    this.inputStatus = status;
+    this.callbacks.onInputStatus?.(status, error);
+  }
+
+  /**
+   * Run detection in an AudioWorklet on the raw input samples
+   * @returns false if the browser can't, so the analyser fallback is used instead
+   */
+  private async startWorklet(): Promise<boolean> {
+    if (!this.audioContext || !this.sourceNode || !this.audioContext.audioWorklet) {
+      return false;
+    }
+    try {
+      await this.audioContext.audioWorklet.addModule(beatWorkletUrl);
+      const processorOptions: BeatWorkletOptions = {
+        ...this.tuning,
+        inputLatency: this.sourceLatency(),
+        predictionOffset: this.lookahead(),
+      };
+      this.workletNode = new AudioWorkletNode(this.audioContext, WORKLET_PROCESSOR, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions,
+      });
+      this.workletNode.port.onmessage = (event: MessageEvent<BeatWorkletEvent>) => this.handleWorkletEvent(event.data);
+      this.sourceNode.connect(this.workletNode);
+      return true;
+    } catch (error) {
+      console.warn('AudioWorklet analysis unavailable, falling back to the analyser:', error);
+      this.workletNode = null;
+      return false;
+    }
+  }
+
+  private handleWorkletEvent(event: BeatWorkletEvent): void {
+    if (!this.audioContext) return;
+    switch (event.type) {
+      case 'beat':
+        // Worklet times are on the AudioContext clock; beats and the count use performance.now()
         this.callbacks.onBeat({
-          beat: true,
-          downbeat: isDownbeat,
-          timestamp,
-          energy,
+          ...event.result,
+          timestamp: event.result.timestamp + processingClockOffset(this.audioContext),
         });
-      }
+        break;
+      case 'bpm':
+        this.bpm = event.bpm;
+        this.callbacks.onBPMUpdate(event.bpm, event.candidates, event.confidence);
+        break;
+      case 'energy':
+        this.callbacks.onEnergy?.(event.energy, event.timestamp + processingClockOffset(this.audioContext));
+        break;
+      case 'state':
+        this.callbacks.onStateChange?.({
+          ...event.status,
+          timestamp: event.status.timestamp + processingClockOffset(this.audioContext),
+        });
+        break;
     }
+  }
+
+  private postToWorklet(command: BeatWorkletCommand): void {
+    this.workletNode?.port.postMessage(command);
+  }
+
+  private processAudio(): void {
+    if (!this.analyser || !this.spectrumData) return;
+
+    this.analyser.getByteFrequencyData(this.spectrumData);
+    // Back-date the frame so beat times are when the music actually played
+    this.detector?.processSpectrum(this.spectrumData, performance.now() - this.sourceLatency());
 
     // Continue processing
     this.animationFrameId = requestAnimationFrame(() => this.processAudio());
   }
 
-  private detectBeat(currentEnergy: number): boolean {
-    if (this.energyHistory.length < this.historySize) {
-      this.previousEnergy = currentEnergy;
-      return false;
+  /**
+   * Stream of the input while running, e.g. to record the session audio; null for files and generated
+   * sources. It comes from the audio graph rather than the capture itself, so it carries on (silent
+   * in between) when the source is re-opened after going away
+   */
+  getStream(): MediaStream | null {
+    if (!this.audioContext || !this.source.getStream()) return null;
+    if (!this.recordingNode) {
+      this.recordingNode = this.audioContext.createMediaStreamDestination();
+      this.sourceNode?.connect(this.recordingNode);
     }
+    return this.recordingNode.stream;
+  }
 
-    // Calculate average energy
-    const avgEnergy = this.energyHistory.reduce((a, b) => a + b, 0) / this.energyHistory.length;
-    
-    // If average energy is too low, likely no music playing - filter out silence
-    if (avgEnergy < this.minEnergyThreshold) {
-      this.previousEnergy = currentEnergy;
-      return false;
-    }
-    
-    // Onset detection: detect rapid energy increase (beat onset)
-    // This catches the beginning of the beat, not just the peak
-    const energyIncrease = this.previousEnergy > 0 
-      ? (currentEnergy - this.previousEnergy) / this.previousEnergy 
-      : 0;
-    const hasOnset = energyIncrease >= this.onsetThreshold;
-    
-    // Calculate variance
-    const variance = this.energyHistory.reduce((sum, e) => sum + Math.pow(e - avgEnergy, 2), 0) / this.energyHistory.length;
-    const standardDeviation = Math.sqrt(variance);
-    
-    // Dynamic threshold based on average energy and variance
-    const threshold = avgEnergy + (this.energyThresholdMultiplier * standardDeviation);
-    
-    // Beat detected if:
-    // 1. Energy exceeds dynamic threshold AND
-    // 2. Has significant onset (rapid increase) OR exceeds relative threshold AND
-    // 3. Energy is above minimum threshold
-    const relativeThreshold = 1.08; // Slightly lower for better sensitivity
-    const exceedsThreshold = currentEnergy > threshold;
-    const exceedsRelative = currentEnergy > avgEnergy * relativeThreshold;
-    const hasSignificantEnergy = currentEnergy > this.minEnergyThreshold;
-    
-    // Combine onset detection with energy threshold for more accurate beat detection
-    const beatDetected = hasSignificantEnergy && exceedsThreshold && (hasOnset || exceedsRelative);
-    
-    // Prevent multiple beats too close together
-    // Use adaptive interval based on detected BPM if available
-    const now = performance.now();
-    let minInterval = 200; // Default 200ms (300 BPM max)
-    
-    if (this.beatHistory.length >= 2) {
-      // Calculate average beat interval from recent beats
-      const intervals: number[] = [];
-      for (let i = 1; i < this.beatHistory.length; i++) {
-        intervals.push(this.beatHistory[i] - this.beatHistory[i - 1]);
-      }
-      const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
-      // Use 60% of average interval as minimum (allows for syncopation)
-      minInterval = Math.max(150, Math.min(300, avgInterval * 0.6));
-    }
-    
-    if (beatDetected && this.beatHistory.length > 0) {
-      const lastBeatTime = this.beatHistory[this.beatHistory.length - 1];
-      if (now - lastBeatTime < minInterval) {
-        this.previousEnergy = currentEnergy;
-        return false;
-      }
-    }
-    
-    if (beatDetected) {
-      this.beatHistory.push(now);
-      // Keep only recent beat history (last 3 seconds for better BPM calculation)
-      if (this.beatHistory.length > 15) {
-        this.beatHistory.shift();
-      }
-    }
-    
-    this.previousEnergy = currentEnergy;
-    return beatDetected;
+  getSource(): InputSource {
+    return this.source;
   }
 
-  private isDownbeat(): boolean {
-    // Downbeat occurs every 8 beats
-    return this.beatCount % this.downbeatInterval === 0;
+  getSampleRate(): number {
+    return this.audioContext?.sampleRate ?? 0;
   }
 
   /**
-   * Update prediction for when the next beat should occur
+   * Which path the analysis is running on, or null when stopped
    */
-  private updateBeatPrediction(currentBeatTime: number): void {
-    if (this.beatHistory.length >= 2) {
-      // Calculate average interval from recent beats
-      const intervals: number[] = [];
-      for (let i = 1; i < this.beatHistory.length; i++) {
-        intervals.push(this.beatHistory[i] - this.beatHistory[i - 1]);
-      }
-      const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
-      
-      // Predict next beat time based on average interval
-      this.predictedNextBeatTime = currentBeatTime + avgInterval;
-    } else if (this.currentStableBPM > 0) {
-      // Use BPM to predict next beat
-      const beatIntervalMs = 60000 / this.currentStableBPM;
-      this.predictedNextBeatTime = currentBeatTime + beatIntervalMs;
-    } else {
-      // No prediction available yet
-      this.predictedNextBeatTime = 0;
-    }
+  getAnalysisMode(): 'worklet' | 'analyser' | null {
+    return this.workletNode ? 'worklet' : this.detector ? 'analyser' : null;
+  }
+
+  getBPM(): number {
+    return this.workletNode ? this.bpm : this.detector?.getBPM() ?? 0;
   }
 
   /**
-   * Calculate stable BPM using median filtering
-   * This reduces the impact of outliers and provides more consistent values
+   * Set the tempo manually (e.g. from tap tempo), or null to return to automatic detection
    */
-  private calculateStableBPM(): number {
-    if (this.bpmHistory.length === 0) return 0;
-    
-    // Sort BPM values
-    const sorted = [...this.bpmHistory].sort((a, b) => a - b);
-    
-    // Use median if we have enough samples, otherwise use average
-    if (sorted.length >= 5) {
-      const mid = Math.floor(sorted.length / 2);
-      // Use median of middle values (remove outliers)
-      const start = Math.max(0, mid - 2);
-      const end = Math.min(sorted.length, mid + 3);
-      const middleValues = sorted.slice(start, end);
-      return middleValues.reduce((a, b) => a + b, 0) / middleValues.length;
-    } else {
-      // Use average for small sample sizes
-      return sorted.reduce((a, b) => a + b, 0) / sorted.length;
+  setManualTempo(bpm: number | null): void {
+    this.detector?.setManualTempo(bpm);
+    this.postToWorklet({ type: 'manual-tempo', bpm });
+  }
+
+  /**
+   * Mark the beat at the given time (performance.now() clock) as "the 1"
+   */
+  markDownbeat(timestamp: number): void {
+    this.detector?.markDownbeat(timestamp);
+    if (this.audioContext) {
+      this.postToWorklet({ type: 'mark-downbeat', timestamp: timestamp - processingClockOffset(this.audioContext) });
     }
   }
 
-  getBPM(): number {
-    return Math.round(this.currentStableBPM);
+  /**
+   * Release manual tempo and downbeat back to automatic detection
+   */
+  releaseManual(): void {
+    this.detector?.releaseManual();
+    this.postToWorklet({ type: 'release-manual' });
   }
 }
-
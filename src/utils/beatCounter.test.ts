@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { BeatCounter } from './beatCounter';
+import { COUNTING_SCHEMES } from './countingScheme';
+
+const BPM = 120;
+const INTERVAL = 500; // ms per beat at 120 BPM
+
+function phase(position: number) {
+  return { position, confidence: 0.8, realigned: false };
+}
+
+/**
+ * Feed positions 1-8 repeatedly on a steady grid, starting at position 1
+ */
+function countBeats(counter: BeatCounter, beats: number, start = 1000) {
+  let state = counter.getState();
+  for (let i = 0; i < beats; i++) {
+    state = counter.updateBeat(phase((i % 8) + 1), start + i * INTERVAL, BPM);
+  }
+  return state;
+}
+
+describe('BeatCounter', () => {
+  it('follows the detected position and starts a new cycle on every 1', () => {
+    const counter = new BeatCounter();
+
+    expect(countBeats(counter, 1)).toMatchObject({ currentBeat: 1, cycle: 1, isDownbeat: true });
+    expect(countBeats(new BeatCounter(), 8)).toMatchObject({ currentBeat: 8, cycle: 1, isDownbeat: false });
+    expect(countBeats(new BeatCounter(), 17)).toMatchObject({ currentBeat: 1, cycle: 3, isDownbeat: true });
+  });
+
+  it('jumps straight to a re-aligned position', () => {
+    const counter = new BeatCounter();
+    countBeats(counter, 3);
+
+    const state = counter.updateBeat(phase(6), 2500, BPM);
+    expect(state.currentBeat).toBe(6);
+    expect(state.cycle).toBe(1);
+  });
+
+  it('resets the cycle after 3 seconds without a beat', () => {
+    const counter = new BeatCounter();
+    countBeats(counter, 12); // Last beat at 6500ms, in cycle 2
+
+    expect(counter.updateBeat(phase(5), 6500 + 2900, BPM).cycle).toBe(2);
+    expect(counter.updateBeat(phase(1), 9400 + 3100, BPM)).toMatchObject({ currentBeat: 1, cycle: 1 });
+  });
+
+  it('starts from scratch after reset', () => {
+    const counter = new BeatCounter();
+    countBeats(counter, 10);
+    counter.reset();
+
+    expect(counter.getState()).toMatchObject({ currentBeat: 1, cycle: 0, confidence: 0, clave: null });
+    expect(counter.getExpectedNextBeatTime()).toBeNull();
+    expect(counter.updateBeat(phase(1), 20000, BPM).cycle).toBe(1);
+  });
+
+  it('predicts the next beat on the grid', () => {
+    const counter = new BeatCounter();
+    expect(counter.getExpectedNextBeatTime()).toBeNull();
+
+    countBeats(counter, 3); // Position 3 at 2000ms
+    expect(counter.getExpectedNextBeatTime()).toBe(2500);
+  });
+
+  it('re-labels the count from a manual downbeat mark', () => {
+    const counter = new BeatCounter();
+    countBeats(counter, 5); // Position 5 at 3000ms
+
+    // The beat shown at 2500ms was really the 1, so 3000ms is the 2 of a new cycle
+    const state = counter.markDownbeat(2480);
+    expect(state).toMatchObject({ currentBeat: 2, cycle: 2, isDownbeat: false });
+    expect(counter.getExpectedNextBeatTime()).toBe(3500);
+  });
+
+  it('ignores a downbeat mark ahead of the last beat or before any tempo', () => {
+    expect(new BeatCounter().markDownbeat(1000)).toBeNull();
+
+    const counter = new BeatCounter();
+    countBeats(counter, 4);
+    expect(counter.markDownbeat(2800)).toBeNull();
+  });
+
+  it('labels positions from the counting scheme', () => {
+    const counter = new BeatCounter(COUNTING_SCHEMES.on2);
+    countBeats(counter, 2);
+    expect(counter.getState().step).toMatchObject({ label: '2', accent: 'strong' });
+
+    counter.setScheme(COUNTING_SCHEMES.on1);
+    const state = counter.updateBeat(phase(4), 2500, BPM);
+    expect(state.step.rest).toBe(true);
+    expect(state.currentBeat).toBe(4);
+  });
+});
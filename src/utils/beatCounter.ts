@@ -1,13 +1,19 @@
 /**
- * 8-Count Cycle Tracker for Salsa (showing dash on beats 4 and 8)
- * Maintains a rolling beat counter 1-8, displaying dashes for beats 4 and 8
+ * 8-Count Cycle Tracker
+ * Maintains a rolling beat counter 1-8; labels, accents and rests come from the selected counting scheme
  */
 
+import { BeatPhase } from './downbeatDetector';
+import { ClaveReading } from './claveDetector';
+import { CountingScheme, CountStep, DEFAULT_COUNTING_SCHEME, getCountStep } from './countingScheme';
+
 export interface BeatCounterState {
-  currentBeat: number; // 1-8 (beats 4 and 8 show as dash)
+  currentBeat: number; // 1-8
   cycle: number; // Current cycle number
   isDownbeat: boolean;
-  isDashBeat: boolean; // true for beats 4 and 8
+  step: CountStep; // How the current position is called and felt in the counting scheme
+  confidence: number; // 0-1 confidence that the count is aligned to the real "1"
+  clave: ClaveReading | null; // Clave side of the current bar, when one is heard
 }
 
 export class BeatCounter {
@@ -17,25 +23,39 @@ export class BeatCounter {
   private cycleStartTime = 0; // When current cycle started
   private currentBPM = 0; // Current BPM for timing calculations
   private expectedBeatInterval = 0; // Expected interval between beats in ms
+  private confidence = 0; // Downbeat confidence of the last beat
+  private clave: ClaveReading | null = null;
   private readonly maxInterval = 3000; // Reset if no beat for 3 seconds (ms)
+  private scheme: CountingScheme;
+
+  constructor(scheme: CountingScheme = DEFAULT_COUNTING_SCHEME) {
+    this.scheme = scheme;
+  }
+
+  /**
+   * Switch counting scheme; the count position is kept
+   */
+  setScheme(scheme: CountingScheme): void {
+    this.scheme = scheme;
+  }
+
+  getScheme(): CountingScheme {
+    return this.scheme;
+  }
 
-  updateBeat(isDownbeat: boolean, timestamp: number, bpm?: number): BeatCounterState {
+  /**
+   * Advance the count to the beat's position from downbeat estimation
+   * The position is taken as given, so a re-aligned phase shifts the count immediately
+   */
+  updateBeat(phase: BeatPhase, timestamp: number, bpm?: number): BeatCounterState {
     const now = timestamp;
     
     // Update BPM if provided
     if (bpm && bpm > 0) {
-      const previousBPM = this.currentBPM;
       // Calculate expected beat interval from BPM
       // BPM = beats per minute, so interval = 60000ms / BPM
       this.currentBPM = bpm;
       this.expectedBeatInterval = 60000 / bpm;
-      
-      // If BPM changed significantly (more than 10%), reset cycle on next downbeat
-      // This ensures the next cycle adapts to the new tempo
-      if (previousBPM > 0 && Math.abs(bpm - previousBPM) / previousBPM > 0.1) {
-        // Mark that we should reset cycle on next downbeat
-        // This will happen naturally when isDownbeat is true
-      }
     }
     
     // Reset if too much time has passed since last beat
@@ -45,26 +65,57 @@ export class BeatCounter {
       this.cycleStartTime = 0;
     }
     
-    // If this is a downbeat, start a new cycle with current BPM timing
-    if (isDownbeat) {
+    this.currentBeat = Math.max(1, Math.min(8, Math.round(phase.position))) - 1;
+    this.confidence = phase.confidence;
+    this.clave = phase.clave ?? null;
+    
+    // If this is a downbeat, start a new cycle
+    if (this.currentBeat === 0) {
       this.cycle++;
-      this.currentBeat = 0;
-      this.cycleStartTime = now;
-    } else {
-      // Increment beat counter
-      this.currentBeat = (this.currentBeat + 1) % 8;
     }
+    // Back-date the cycle start so getExpectedNextBeatTime stays on the grid mid-cycle too
+    this.cycleStartTime = now - this.currentBeat * this.expectedBeatInterval;
     
     this.lastBeatTime = now;
     
     const displayBeat = this.currentBeat + 1; // Convert 0-7 to 1-8
-    const isDashBeat = displayBeat === 4 || displayBeat === 8;
     
     return {
       currentBeat: displayBeat,
       cycle: this.cycle,
-      isDownbeat: isDownbeat && !isDashBeat, // Only mark as downbeat if not a dash beat
-      isDashBeat,
+      isDownbeat: displayBeat === 1,
+      step: getCountStep(this.scheme, displayBeat),
+      confidence: this.confidence,
+      clave: this.clave,
+    };
+  }
+
+  /**
+   * Manual "this is the 1" at the given time
+   * The count is re-labelled from the beat nearest to the gesture; if that beat hasn't been shown yet,
+   * it will arrive as 1 from the re-phased detector
+   * @returns The updated state, or null if nothing changes until the next beat
+   */
+  markDownbeat(timestamp: number): BeatCounterState | null {
+    if (this.lastBeatTime === 0 || this.expectedBeatInterval === 0) return null;
+    // Beats between the marked one and the last beat shown
+    const beatsSince = Math.round((this.lastBeatTime - timestamp) / this.expectedBeatInterval);
+    if (beatsSince < 0) return null;
+
+    const position = beatsSince % 8;
+    if (position < this.currentBeat) {
+      this.cycle++;
+    }
+    this.currentBeat = position;
+    this.cycleStartTime = this.lastBeatTime - position * this.expectedBeatInterval;
+    const displayBeat = position + 1;
+    return {
+      currentBeat: displayBeat,
+      cycle: this.cycle,
+      isDownbeat: displayBeat === 1,
+      step: getCountStep(this.scheme, displayBeat),
+      confidence: this.confidence,
+      clave: this.clave,
     };
   }
 
@@ -95,16 +146,19 @@ export class BeatCounter {
     this.cycleStartTime = 0;
     this.currentBPM = 0;
     this.expectedBeatInterval = 0;
+    this.confidence = 0;
+    this.clave = null;
   }
 
   getState(): BeatCounterState {
     const displayBeat = this.currentBeat + 1;
-    const isDashBeat = displayBeat === 4 || displayBeat === 8;
     return {
       currentBeat: displayBeat,
       cycle: this.cycle,
       isDownbeat: false,
-      isDashBeat,
+      step: getCountStep(this.scheme, displayBeat),
+      confidence: this.confidence,
+      clave: this.clave,
     };
   }
 }
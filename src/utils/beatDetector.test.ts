@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SAMPLE_RATE,
+  SyntheticSignal,
+  addDropout,
+  addKick,
+  addNoise,
+  addTone,
+  beatTimes,
+  clickTrack,
+  runDetector,
+  salsaPattern,
+  scoreBeats,
+  seededRandom,
+} from '../test/signals';
+
+const SETTLE_TIME = 6; // Seconds the detector gets to find the tempo before beats are scored
+const MAX_MEAN_ERROR = 25; // ms; a frame hop is ~17ms
+
+/**
+ * Share of matched beats after the settle time whose count position agrees with the true 8-count
+ */
+function downbeatAgreement(signal: SyntheticSignal, run: ReturnType<typeof runDetector>, from: number): number {
+  const { matches } = scoreBeats(run.beats.map((beat) => beat.timestamp), signal.beats, from);
+  const aligned = matches.filter(
+    (match) => (run.beats[match.detected].phase.position - 1 - match.reference) % 8 === 0,
+  );
+  return matches.length > 0 ? aligned.length / matches.length : 0;
+}
+
+describe('BeatDetector on click tracks', () => {
+  it.each([120, 150, 180, 200])('finds %i BPM and lands on the clicks', (bpm) => {
+    const signal = clickTrack(bpm, 15);
+    const run = runDetector(signal.samples);
+    const score = scoreBeats(run.beats.map((beat) => beat.timestamp), signal.beats, SETTLE_TIME);
+
+    expect(Math.abs(run.finalBPM - bpm)).toBeLessThanOrEqual(2);
+    expect(score.fMeasure).toBeGreaterThan(0.95);
+    expect(score.meanError).toBeLessThan(MAX_MEAN_ERROR);
+    expect(run.states.map((status) => status.state)).toContain('locked');
+  });
+
+  it('holds on through added noise', () => {
+    const signal = clickTrack(120, 15);
+    addNoise(signal.samples, 0.2, seededRandom(7));
+    const run = runDetector(signal.samples);
+    const score = scoreBeats(run.beats.map((beat) => beat.timestamp), signal.beats, SETTLE_TIME);
+
+    expect(Math.abs(run.finalBPM - 120)).toBeLessThanOrEqual(2);
+    expect(score.fMeasure).toBeGreaterThan(0.95);
+    expect(score.meanError).toBeLessThan(MAX_MEAN_ERROR);
+  });
+
+  it('follows a tempo ramp', () => {
+    const signal = clickTrack(170, 25, 190);
+    const run = runDetector(signal.samples);
+    const score = scoreBeats(run.beats.map((beat) => beat.timestamp), signal.beats, 10);
+
+    expect(Math.abs(run.finalBPM - 190)).toBeLessThanOrEqual(4);
+    expect(score.fMeasure).toBeGreaterThan(0.9);
+    expect(score.meanError).toBeLessThan(40); // The tracker trails a moving tempo slightly
+  });
+
+  it('lets go during a dropout and locks again when the music returns', () => {
+    const signal = addDropout(clickTrack(180, 25), 10, 14);
+    const run = runDetector(signal.samples);
+    const states = run.states.map((status) => status.state);
+    const lost = run.states.find((status) => status.state === 'lost');
+
+    expect(lost).toBeDefined();
+    expect(lost!.timestamp).toBeGreaterThan(10000);
+    expect(lost!.timestamp).toBeLessThan(14000);
+    expect(states.lastIndexOf('locked')).toBeGreaterThan(states.indexOf('lost'));
+    // Nothing is emitted once the detector has let go
+    expect(run.beats.filter((beat) => beat.timestamp > lost!.timestamp && beat.timestamp < 14000)).toHaveLength(0);
+
+    const score = scoreBeats(run.beats.map((beat) => beat.timestamp), signal.beats, 17);
+    expect(score.fMeasure).toBeGreaterThan(0.95);
+    expect(Math.abs(run.finalBPM - 180)).toBeLessThanOrEqual(2);
+  });
+});
+
+describe('BeatDetector on salsa patterns', () => {
+  it.each([
+    [180, 'son32'],
+    [160, 'son32'],
+    [200, 'rumba32'],
+  ] as const)('tracks %i BPM with %s clave', (bpm, clave) => {
+    const signal = salsaPattern(bpm, 20, clave);
+    const run = runDetector(signal.samples);
+    const score = scoreBeats(run.beats.map((beat) => beat.timestamp), signal.beats, SETTLE_TIME);
+
+    expect(Math.abs(run.finalBPM - bpm)).toBeLessThanOrEqual(2);
+    expect(score.fMeasure).toBeGreaterThan(0.95);
+    expect(score.meanError).toBeLessThan(MAX_MEAN_ERROR);
+  });
+
+  it.each([
+    [180, 'son32'],
+    [160, 'son32'],
+    [200, 'rumba32'],
+  ] as const)('finds "the 1" at %i BPM from the %s clave', (bpm, clave) => {
+    const signal = salsaPattern(bpm, 20, clave);
+    const run = runDetector(signal.samples);
+
+    expect(downbeatAgreement(signal, run, 8)).toBeGreaterThan(0.75);
+  });
+
+  it('still tracks through background noise', () => {
+    const signal = salsaPattern(180, 20);
+    addNoise(signal.samples, 0.1, seededRandom(7));
+    const run = runDetector(signal.samples);
+    const score = scoreBeats(run.beats.map((beat) => beat.timestamp), signal.beats, SETTLE_TIME);
+
+    expect(Math.abs(run.finalBPM - 180)).toBeLessThanOrEqual(2);
+    expect(score.fMeasure).toBeGreaterThan(0.95);
+    expect(downbeatAgreement(signal, run, 8)).toBeGreaterThan(0.75);
+  });
+});
+
+describe('BeatDetector half/double-time traps', () => {
+  const bpm = 180;
+  const duration = 15;
+
+  it('is not pulled to half time by kicks on every other beat', () => {
+    const samples = new Float32Array(duration * SAMPLE_RATE);
+    const beats = beatTimes(bpm, bpm, duration);
+    beats.forEach((time, i) => {
+      if (i % 2 === 0) addKick(samples, time);
+      addTone(samples, time, 800, 0.3, 0.03);
+    });
+    const run = runDetector(samples);
+    const score = scoreBeats(run.beats.map((beat) => beat.timestamp), beats, SETTLE_TIME);
+
+    expect(Math.abs(run.finalBPM - bpm)).toBeLessThanOrEqual(2);
+    expect(score.fMeasure).toBeGreaterThan(0.95);
+  });
+
+  it('is not pushed to double time by an 8th-note shaker', () => {
+    const samples = new Float32Array(duration * SAMPLE_RATE);
+    const beats = beatTimes(bpm, bpm, duration);
+    for (const time of beats) {
+      addKick(samples, time);
+      addTone(samples, time + 30 / bpm, 5000, 0.25, 0.01);
+    }
+    const run = runDetector(samples);
+    const score = scoreBeats(run.beats.map((beat) => beat.timestamp), beats, SETTLE_TIME);
+
+    expect(Math.abs(run.finalBPM - bpm)).toBeLessThanOrEqual(2);
+    expect(score.fMeasure).toBeGreaterThan(0.95);
+  });
+
+  it('finds a slow 100 BPM pulse at 100 BPM, not double time', () => {
+    const signal = clickTrack(100, 15);
+    const run = runDetector(signal.samples);
+    const score = scoreBeats(run.beats.map((beat) => beat.timestamp), signal.beats, SETTLE_TIME);
+
+    expect(Math.abs(run.finalBPM - 100)).toBeLessThanOrEqual(2);
+    expect(score.fMeasure).toBeGreaterThan(0.95);
+  });
+
+  it.each([110, 120])('reads cha-cha at %i BPM, not double time', (chaBPM) => {
+    const samples = new Float32Array(duration * SAMPLE_RATE);
+    const beats = beatTimes(chaBPM, chaBPM, duration);
+    beats.forEach((time, i) => {
+      addKick(samples, time, i % 4 === 0 ? 0.8 : 0.5);
+      addTone(samples, time, 3000, 0.2, 0.02); // Güiro on every beat
+      if (i % 4 === 3) addTone(samples, time + 30 / chaBPM, 800, 0.3, 0.03); // The "cha" of cha-cha-chá
+    });
+    const run = runDetector(samples);
+    const score = scoreBeats(run.beats.map((beat) => beat.timestamp), beats, SETTLE_TIME);
+
+    expect(Math.abs(run.finalBPM - chaBPM)).toBeLessThanOrEqual(2);
+    expect(score.fMeasure).toBeGreaterThan(0.95);
+  });
+});
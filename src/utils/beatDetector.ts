@@ -0,0 +1,356 @@
+/**
+ * Beat Detector core
+ * Platform-independent beat and tempo detection driven by explicit frames and timestamps,
+ * so it can run on live input, decoded files, in a worker or under Node
+ */
+
+import { SpectrumAnalyzer } from './spectrum';
+import { DEFAULT_BANDS, OnsetDetector, OnsetFrame } from './onsetDetector';
+import { SALSA_TEMPO_PRIOR, TempoCandidate, TempoEstimator } from './tempoEstimator';
+import { BeatTracker, TrackedBeat } from './beatTracker';
+import { BeatPhase, DownbeatDetector } from './downbeatDetector';
+import { ClaveDetector, ClaveReading } from './claveDetector';
+import { TrackingStateMachine, TrackingState, TrackingStatus } from './trackingState';
+
+export type { TempoCandidate, BeatPhase, ClaveReading, TrackingState, TrackingStatus };
+
+export interface BeatDetectionResult {
+  beat: boolean;
+  downbeat: boolean;
+  timestamp: number;
+  energy: number;
+  confidence: number; // 0-1, how consistently recent onsets have matched the beat grid
+  onsetStrength: number; // Combined multi-band spectral-flux strength of the triggering frame
+  phase: BeatPhase; // Position in the 8-count from downbeat estimation
+}
+
+export interface BeatDetectorCallbacks {
+  onBeat: (result: BeatDetectionResult) => void;
+  onBPMUpdate: (bpm: number, candidates: TempoCandidate[], confidence: number) => void;
+  onStateChange?: (status: TrackingStatus) => void;
+  onEnergy?: (energy: number, timestamp: number) => void; // Average frame energy, about 10 times a second
+}
+
+// Detection knobs that can be tuned for the room and changed while running
+export interface DetectionTuning {
+  historySize: number; // Frames of energy and flux history for the adaptive thresholds (~0.7s at 60fps)
+  minEnergyThreshold: number; // Average energy below this is treated as silence
+  onsetThreshold: number; // Minimum combined onset strength for an onset to correct the beat grid
+  thresholdMultiplier: number; // Standard deviations above a band's mean flux that count as an onset
+  minBeatEnergy: number; // Beats arriving while the frame energy is below this aren't reported
+  bandWeights: number[]; // Contribution of each onset band: bass, low-mid, mid, high
+  minBPM: number;
+  maxBPM: number;
+}
+
+export const DEFAULT_DETECTION_TUNING: DetectionTuning = {
+  historySize: 43,
+  minEnergyThreshold: 1.5, // Low enough to catch quieter music
+  onsetThreshold: 0.5,
+  thresholdMultiplier: 1.3,
+  minBeatEnergy: 0,
+  bandWeights: DEFAULT_BANDS.map((band) => band.weight),
+  minBPM: 60,
+  maxBPM: 240,
+};
+
+export interface BeatDetectorOptions extends Partial<DetectionTuning> {
+  sampleRate?: number;
+  predictionOffset?: number; // How far ahead (ms) beats are emitted to hide output latency
+}
+
+// A tapped tempo narrows the tempo prior around it instead of replacing detection,
+// so the reading still follows the band within a few percent
+const MANUAL_TEMPO_WIDTH_OCTAVES = 0.05;
+const ENERGY_REPORT_INTERVAL = 100; // ms between onEnergy reports
+
+export class BeatDetector {
+  private callbacks: BeatDetectorCallbacks;
+  private readonly sampleRate: number;
+  private spectrumAnalyzer: SpectrumAnalyzer | null = null;
+  private onsetDetector: OnsetDetector;
+  private tempoEstimator: TempoEstimator;
+  private beatTracker: BeatTracker;
+  private downbeatDetector: DownbeatDetector;
+  private claveDetector: ClaveDetector;
+  private trackingState: TrackingStateMachine;
+
+  // Beat detection parameters
+  private energyHistory: number[] = [];
+  private tuning: DetectionTuning;
+
+  // BPM calculation
+  private currentStableBPM: number = 0; // Current tempo estimate
+  private lastTempoEstimateTime = 0;
+  private readonly tempoEstimateInterval = 500; // Re-estimate tempo twice a second (ms)
+  private beatCount = 0;
+  private lastBeat: TrackedBeat | null = null; // Last emitted beat, with its count index
+  private energySum = 0; // Frame energies since the last onEnergy report
+  private energyFrames = 0;
+  private lastEnergyReportTime = 0;
+
+  constructor(callbacks: BeatDetectorCallbacks, options: BeatDetectorOptions = {}) {
+    this.callbacks = callbacks;
+    const { sampleRate, predictionOffset, ...tuning } = options;
+    this.sampleRate = sampleRate ?? 44100;
+    this.tuning = { ...DEFAULT_DETECTION_TUNING, ...tuning };
+    this.onsetDetector = new OnsetDetector({
+      sampleRate: this.sampleRate,
+      historySize: this.tuning.historySize,
+      thresholdMultiplier: this.tuning.thresholdMultiplier,
+      bands: DEFAULT_BANDS.map((band, i) => ({ ...band, weight: this.tuning.bandWeights[i] ?? band.weight })),
+    });
+    this.tempoEstimator = new TempoEstimator({ minBPM: this.tuning.minBPM, maxBPM: this.tuning.maxBPM });
+    // Predict beats 250ms ahead by default to compensate for live latency
+    this.beatTracker = new BeatTracker({
+      lookahead: predictionOffset ?? 250,
+      minBPM: this.tuning.minBPM,
+      maxBPM: this.tuning.maxBPM,
+    });
+    this.downbeatDetector = new DownbeatDetector({ sampleRate: this.sampleRate });
+    this.claveDetector = new ClaveDetector();
+    this.trackingState = new TrackingStateMachine();
+  }
+
+  /**
+   * Process one frame of raw samples
+   * @param samples - Mono PCM frame, length must be a power of two
+   * @param timestamp - Time of the frame in milliseconds
+   */
+  processPCM(samples: Float32Array, timestamp: number): void {
+    if (!this.spectrumAnalyzer) {
+      this.spectrumAnalyzer = new SpectrumAnalyzer();
+    }
+    this.processSpectrum(this.spectrumAnalyzer.process(samples), timestamp);
+  }
+
+  /**
+   * Process one frame of byte frequency data (as produced by AnalyserNode.getByteFrequencyData)
+   * @param spectrum - Byte magnitudes covering 0 Hz to Nyquist
+   * @param timestamp - Time of the frame in milliseconds
+   */
+  processSpectrum(spectrum: Uint8Array, timestamp: number): void {
+    const now = timestamp;
+    const energy = this.calculateWeightedEnergy(spectrum);
+    const onset = this.onsetDetector.process(spectrum);
+    this.claveDetector.addFrame(now, onset);
+    this.downbeatDetector.setClaveEvidence(this.claveDetector.getPhaseEvidence());
+    this.downbeatDetector.addFrame(now, spectrum, onset);
+
+    // Tempo comes from the periodicity of the onset envelope, not from individual beats
+    this.tempoEstimator.addFrame(onset.strength, now);
+    if (now - this.lastTempoEstimateTime >= this.tempoEstimateInterval) {
+      this.lastTempoEstimateTime = now;
+      this.updateTempo();
+    }
+
+    if (this.callbacks.onEnergy) {
+      this.energySum += energy;
+      this.energyFrames++;
+      if (now - this.lastEnergyReportTime >= ENERGY_REPORT_INTERVAL) {
+        this.callbacks.onEnergy(this.energySum / this.energyFrames, now);
+        this.lastEnergyReportTime = now;
+        this.energySum = 0;
+        this.energyFrames = 0;
+      }
+    }
+
+    // Update energy history
+    this.energyHistory.push(energy);
+    while (this.energyHistory.length > this.tuning.historySize) {
+      this.energyHistory.shift();
+    }
+
+    // Onsets only correct the tracker; beats themselves come off its steady grid
+    if (this.isOnset(onset, energy)) {
+      this.beatTracker.addOnset(now, onset.strength);
+    }
+
+    for (const beat of this.beatTracker.advance(now)) {
+      this.downbeatDetector.addBeat(beat.time, this.beatCount);
+      this.claveDetector.addBeat(beat.time, this.beatCount);
+      const phase = this.downbeatDetector.positionOf(this.beatCount);
+      const downbeatIndex = this.beatCount - (phase.position - 1);
+      phase.clave = this.claveDetector.read(this.beatCount, downbeatIndex);
+      this.lastBeat = { time: beat.time, index: this.beatCount };
+      this.beatCount++;
+
+      // The beat still counts, but isn't reported over background noise
+      if (energy < this.tuning.minBeatEnergy) continue;
+
+      this.callbacks.onBeat({
+        beat: true,
+        downbeat: phase.position === 1,
+        timestamp: beat.time,
+        energy,
+        confidence: this.beatTracker.getConfidence(),
+        onsetStrength: onset.strength,
+        phase,
+      });
+    }
+
+    const status = this.trackingState.update({
+      time: now,
+      silent: this.isSilent(),
+      trackerLocked: this.beatTracker.isLocked(),
+      confidence: this.beatTracker.getConfidence(),
+    });
+    if (status) {
+      this.callbacks.onStateChange?.(status);
+    }
+  }
+
+  /**
+   * Set the tempo from manual input (e.g. tap tempo), or null to go back to automatic detection
+   * The tracker jumps to it right away; afterwards detection is kept close to it
+   */
+  setManualTempo(bpm: number | null): void {
+    if (bpm === null) {
+      this.tempoEstimator.setPrior(SALSA_TEMPO_PRIOR);
+      return;
+    }
+    if (bpm <= 0) return;
+
+    this.tempoEstimator.setPrior({ centerBPM: bpm, widthOctaves: MANUAL_TEMPO_WIDTH_OCTAVES });
+    this.currentStableBPM = bpm;
+    this.beatTracker.setTempo(bpm);
+    this.callbacks.onBPMUpdate(Math.round(bpm), [{ bpm, strength: 1 }], 1);
+  }
+
+  /**
+   * Mark the beat nearest to the given time as "the 1"
+   * Beats emitted from now on are counted from it; live tracking carries on
+   * @param timestamp - Time of the user's gesture in milliseconds
+   */
+  markDownbeat(timestamp: number): void {
+    const bpm = this.beatTracker.getBPM();
+    if (!this.lastBeat || bpm <= 0) return;
+
+    const period = 60000 / bpm;
+    const index = this.lastBeat.index + Math.round((timestamp - this.lastBeat.time) / period);
+    this.downbeatDetector.setDownbeat(index);
+  }
+
+  /**
+   * Change detection tuning while running; omitted fields keep their current value
+   */
+  setTuning(tuning: Partial<DetectionTuning>): void {
+    this.tuning = { ...this.tuning, ...tuning };
+    if (tuning.historySize !== undefined) this.onsetDetector.setHistorySize(tuning.historySize);
+    if (tuning.thresholdMultiplier !== undefined) this.onsetDetector.setThresholdMultiplier(tuning.thresholdMultiplier);
+    if (tuning.bandWeights) this.onsetDetector.setBandWeights(tuning.bandWeights);
+    if (tuning.minBPM !== undefined || tuning.maxBPM !== undefined) {
+      this.tempoEstimator.setRange(this.tuning.minBPM, this.tuning.maxBPM);
+      this.beatTracker.setRange(this.tuning.minBPM, this.tuning.maxBPM);
+    }
+  }
+
+  getTuning(): DetectionTuning {
+    return { ...this.tuning };
+  }
+
+  setPredictionOffset(predictionOffset: number): void {
+    this.beatTracker.setLookahead(predictionOffset);
+  }
+
+  /**
+   * Drop manual tempo and downbeat and rely on automatic detection again
+   */
+  releaseManual(): void {
+    this.setManualTempo(null);
+    this.downbeatDetector.releaseDownbeat();
+  }
+
+  reset(): void {
+    this.spectrumAnalyzer?.reset();
+    this.onsetDetector.reset();
+    this.tempoEstimator.reset();
+    this.tempoEstimator.setPrior(SALSA_TEMPO_PRIOR);
+    this.beatTracker.reset();
+    this.downbeatDetector.reset();
+    this.claveDetector.reset();
+    this.trackingState.reset();
+    this.energyHistory = [];
+    this.beatCount = 0;
+    this.lastBeat = null;
+    this.currentStableBPM = 0;
+    this.lastTempoEstimateTime = 0;
+    this.energySum = 0;
+    this.energyFrames = 0;
+    this.lastEnergyReportTime = 0;
+  }
+
+  getBPM(): number {
+    return Math.round(this.currentStableBPM);
+  }
+
+  getTrackingState(): TrackingState {
+    return this.trackingState.getState();
+  }
+
+  /**
+   * Calculate energy with emphasis on low frequencies (kick drum range)
+   * Weight lower frequencies more heavily since they contain the beat
+   */
+  private calculateWeightedEnergy(spectrum: Uint8Array): number {
+    const bufferLength = spectrum.length;
+    const nyquist = this.sampleRate / 2;
+    const binWidth = nyquist / bufferLength;
+
+    let energy = 0;
+    let totalWeight = 0;
+
+    for (let i = 0; i < bufferLength; i++) {
+      const freq = i * binWidth;
+      let weight = 1;
+
+      // Heavily emphasize kick drum frequencies (40-120 Hz)
+      if (freq >= 40 && freq <= 120) {
+        weight = 3; // Triple weight for kick drum range
+      } else if (freq >= 120 && freq <= 200) {
+        weight = 1.5; // Moderate weight for other percussion
+      } else {
+        weight = 0.5; // Reduce weight for higher frequencies
+      }
+
+      energy += spectrum[i] * weight;
+      totalWeight += weight;
+    }
+
+    return energy / totalWeight; // Normalize by total weight
+  }
+
+  private updateTempo(): void {
+    const estimate = this.tempoEstimator.estimate();
+    if (!estimate) return;
+
+    this.currentStableBPM = estimate.bpm;
+    this.beatTracker.setTempo(estimate.bpm);
+    this.callbacks.onBPMUpdate(Math.round(estimate.bpm), estimate.candidates, estimate.confidence);
+  }
+
+  /**
+   * True while the average energy is too low for music (or history is still filling)
+   */
+  private isSilent(): boolean {
+    if (this.energyHistory.length < this.tuning.historySize) {
+      return true;
+    }
+    const avgEnergy = this.energyHistory.reduce((a, b) => a + b, 0) / this.energyHistory.length;
+    return avgEnergy < this.tuning.minEnergyThreshold;
+  }
+
+  private isOnset(onset: OnsetFrame, currentEnergy: number): boolean {
+    // If average energy is too low, likely no music playing - filter out silence
+    if (this.isSilent()) {
+      return false;
+    }
+
+    // Onset if:
+    // 1. At least one band's spectral flux exceeds its adaptive threshold AND
+    // 2. The combined onset strength across bands is significant AND
+    // 3. Energy is above minimum threshold
+    const hasSignificantEnergy = currentEnergy > this.tuning.minEnergyThreshold;
+    return hasSignificantEnergy && onset.isOnset && onset.strength >= this.tuning.onsetThreshold;
+  }
+}
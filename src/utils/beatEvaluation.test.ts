@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BeatScores,
+  cemgilAccuracy,
+  continuityScores,
+  evaluateBeats,
+  fMeasure,
+  formatEvaluationReport,
+  pScore,
+  parseBeatAnnotation,
+  summarizeEvaluation,
+} from './beatEvaluation';
+
+function steadyBeats(start: number, period: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => start + i * period);
+}
+
+const reference = steadyBeats(1, 0.5, 20);
+const shift = (times: number[], by: number) => times.map((time) => time + by);
+
+describe('fMeasure', () => {
+  it('scores beats inside the tolerance window', () => {
+    expect(fMeasure(reference, reference)).toBe(1);
+    expect(fMeasure(reference, shift(reference, 0.05))).toBe(1);
+    expect(fMeasure(reference, shift(reference, 0.1))).toBe(0);
+  });
+
+  it('counts missed and extra beats', () => {
+    // Every other beat: precision 1, recall 0.5
+    expect(fMeasure(reference, reference.filter((_, i) => i % 2 === 0))).toBeCloseTo(2 / 3);
+    // Double time: precision 0.5, recall 1
+    expect(fMeasure(reference, steadyBeats(1, 0.25, 39))).toBeCloseTo(40 / 59);
+    expect(fMeasure(reference, [])).toBe(0);
+  });
+});
+
+describe('pScore', () => {
+  it('is 1 for a perfect match and falls off outside 20% of the period', () => {
+    expect(pScore(reference, reference)).toBe(1);
+    expect(pScore(reference, shift(reference, 0.08))).toBe(1);
+    expect(pScore(reference, shift(reference, 0.2))).toBe(0);
+  });
+});
+
+describe('cemgilAccuracy', () => {
+  it('weights timing errors with a 40ms Gaussian', () => {
+    expect(cemgilAccuracy(reference, reference)).toBe(1);
+    expect(cemgilAccuracy(reference, shift(reference, 0.04))).toBeCloseTo(Math.exp(-0.5));
+  });
+});
+
+describe('continuityScores', () => {
+  it('gives full marks to a correct tracking', () => {
+    expect(continuityScores(reference, reference)).toEqual({ cmlc: 1, cmlt: 1, amlc: 1, amlt: 1 });
+  });
+
+  it('only credits the longest correct stretch in CMLc', () => {
+    const glitched = [...reference];
+    glitched[10] += 0.2; // Fails on phase, and the next beat fails on its interval
+    const scores = continuityScores(reference, glitched);
+    expect(scores.cmlt).toBeCloseTo(18 / 20);
+    expect(scores.cmlc).toBeCloseTo(10 / 20);
+  });
+
+  it.each([
+    ['double tempo', steadyBeats(1, 0.25, 39)],
+    ['half tempo', reference.filter((_, i) => i % 2 === 1)],
+    ['off-beat', shift(reference.slice(0, -1), 0.25)],
+  ])('accepts %s at the allowed metrical levels only', (_, estimated) => {
+    const scores = continuityScores(reference, estimated);
+    expect(scores.cmlt).toBe(0);
+    expect(scores.amlt).toBe(1);
+    expect(scores.amlc).toBe(1);
+  });
+});
+
+describe('evaluateBeats', () => {
+  it('skips the first five seconds while the detector settles', () => {
+    const late = steadyBeats(0, 0.5, 30);
+    const wrongAtStart = late.map((time) => (time < 5 ? time + 0.25 : time));
+    const scores = evaluateBeats({ beats: late, downbeats: [] }, { beats: wrongAtStart, downbeats: [] });
+    expect(scores.fMeasure).toBe(1);
+    expect(scores.downbeatFMeasure).toBeNull();
+
+    expect(evaluateBeats({ beats: late, downbeats: [] }, { beats: wrongAtStart, downbeats: [] }, { skip: 0 }).fMeasure).toBeLessThan(1);
+  });
+
+  it('scores downbeats separately', () => {
+    const beats = steadyBeats(5, 0.5, 32);
+    const downbeats = beats.filter((_, i) => i % 4 === 0);
+    const scores = evaluateBeats({ beats, downbeats }, { beats, downbeats: shift(downbeats, 0.5) });
+    expect(scores.fMeasure).toBe(1);
+    expect(scores.downbeatFMeasure).toBe(0);
+  });
+});
+
+describe('parseBeatAnnotation', () => {
+  it('reads time/position .beats files', () => {
+    expect(parseBeatAnnotation('# comment\n0.5 1\n1.0 2\n1.5 3\n2.0 4\n2.5 1\n')).toEqual({
+      beats: [0.5, 1, 1.5, 2, 2.5],
+      downbeats: [0.5, 2.5],
+    });
+  });
+
+  it('reads plain beat lists without downbeats', () => {
+    expect(parseBeatAnnotation('0.5\n1.0\r\n1.5')).toEqual({ beats: [0.5, 1, 1.5], downbeats: [] });
+  });
+
+  it('reads Audacity labels, with both the 1 and the 5 starting a bar', () => {
+    const labels = '0.500000\t0.500000\t1\n1.000000\t1.000000\t2\n2.500000\t2.500000\t5\n3.000000\t3.000000\t—\n';
+    expect(parseBeatAnnotation(labels)).toEqual({ beats: [0.5, 1, 2.5, 3], downbeats: [0.5, 2.5] });
+  });
+
+  it('reads exported beat grid JSON', () => {
+    const json = JSON.stringify({
+      format: 'baila-beat-grid',
+      beats: [1, 2, 3, 4, 5, 6].map((position) => ({ time: position / 2, position, downbeat: position === 1 })),
+    });
+    expect(parseBeatAnnotation(json)).toEqual({ beats: [0.5, 1, 1.5, 2, 2.5, 3], downbeats: [0.5, 2.5] });
+  });
+});
+
+describe('reports', () => {
+  const scores = (value: number, downbeat: number | null): BeatScores => ({
+    fMeasure: value,
+    pScore: value,
+    cemgil: value,
+    cmlc: value,
+    cmlt: value,
+    amlc: value,
+    amlt: value,
+    downbeatFMeasure: downbeat,
+  });
+
+  it('averages tracks, leaving tracks without downbeats out of the downbeat mean', () => {
+    const report = summarizeEvaluation('defaults', [
+      { track: 'a', referenceBeats: 10, estimatedBeats: 10, scores: scores(1, 0.5) },
+      { track: 'b', referenceBeats: 10, estimatedBeats: 10, scores: scores(0.5, null) },
+    ]);
+    expect(report.mean.fMeasure).toBe(0.75);
+    expect(report.mean.downbeatFMeasure).toBe(0.5);
+  });
+
+  it('prints per-track tables and a comparison of configurations', () => {
+    const tracks = [{ track: 'montuno', referenceBeats: 10, estimatedBeats: 10, scores: scores(0.9, null) }];
+    const text = formatEvaluationReport([summarizeEvaluation('defaults', tracks), summarizeEvaluation('loud-club', tracks)]);
+    expect(text).toContain('montuno');
+    expect(text).toContain('0.900');
+    expect(text).toMatch(/Mean by config[\s\S]*defaults[\s\S]*loud-club/);
+    expect(formatEvaluationReport([summarizeEvaluation('defaults', tracks)])).not.toContain('Mean by config');
+  });
+});
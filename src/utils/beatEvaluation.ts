@@ -0,0 +1,343 @@
+/**
+ * Beat Tracking Evaluation
+ * The standard MIREX beat-tracking metrics (as defined in mir_eval), annotation parsing and
+ * per-track / aggregate reports, so detector changes can be compared with numbers
+ */
+
+export interface BeatAnnotation {
+  beats: number[]; // Seconds, ascending
+  downbeats: number[]; // Bar starts in seconds, ascending; empty if not annotated
+}
+
+export interface BeatScores {
+  fMeasure: number; // Beats within ±70ms
+  pScore: number; // Impulse-train cross-correlation within 20% of the beat period
+  cemgil: number; // Gaussian-weighted timing accuracy (σ = 40ms)
+  cmlc: number; // Longest correct stretch at the annotated metrical level
+  cmlt: number; // All correct beats at the annotated metrical level
+  amlc: number; // As CMLc, also allowing double/half tempo and off-beat
+  amlt: number; // As CMLt, also allowing double/half tempo and off-beat
+  downbeatFMeasure: number | null; // Downbeats within ±70ms; null if the reference has none
+}
+
+export interface TrackEvaluation {
+  track: string;
+  referenceBeats: number;
+  estimatedBeats: number;
+  scores: BeatScores;
+}
+
+export interface EvaluationReport {
+  config: string; // Name of the detector configuration that was run
+  tracks: TrackEvaluation[];
+  mean: BeatScores; // Downbeat mean is over the tracks that have downbeat annotations
+}
+
+export interface EvaluationOptions {
+  skip?: number; // Seconds at the start to ignore on both sides, while the detector settles
+  fMeasureWindow?: number; // Seconds
+  pScoreThreshold?: number; // Fraction of the median annotated beat period
+  cemgilSigma?: number; // Seconds
+  continuityThreshold?: number; // Phase and period tolerance, as a fraction of the beat period
+}
+
+const DEFAULT_OPTIONS: Required<EvaluationOptions> = {
+  skip: 5, // mir_eval's default
+  fMeasureWindow: 0.07,
+  pScoreThreshold: 0.2,
+  cemgilSigma: 0.04,
+  continuityThreshold: 0.175,
+};
+
+const PSCORE_SAMPLE_RATE = 100; // Impulse trains are sampled at 10ms
+
+/**
+ * Score estimated beats and downbeats against a reference annotation
+ */
+export function evaluateBeats(
+  reference: BeatAnnotation,
+  estimated: BeatAnnotation,
+  options: EvaluationOptions = {}
+): BeatScores {
+  // Destructured so options passed as undefined fall back to the defaults
+  const {
+    skip = DEFAULT_OPTIONS.skip,
+    fMeasureWindow = DEFAULT_OPTIONS.fMeasureWindow,
+    pScoreThreshold = DEFAULT_OPTIONS.pScoreThreshold,
+    cemgilSigma = DEFAULT_OPTIONS.cemgilSigma,
+    continuityThreshold = DEFAULT_OPTIONS.continuityThreshold,
+  } = options;
+  const trim = (times: number[]) => times.filter((time) => time >= skip);
+  const referenceBeats = trim(reference.beats);
+  const estimatedBeats = trim(estimated.beats);
+
+  return {
+    fMeasure: fMeasure(referenceBeats, estimatedBeats, fMeasureWindow),
+    pScore: pScore(referenceBeats, estimatedBeats, pScoreThreshold),
+    cemgil: cemgilAccuracy(referenceBeats, estimatedBeats, cemgilSigma),
+    ...continuityScores(referenceBeats, estimatedBeats, continuityThreshold),
+    downbeatFMeasure:
+      reference.downbeats.length > 0
+        ? fMeasure(trim(reference.downbeats), trim(estimated.downbeats), fMeasureWindow)
+        : null,
+  };
+}
+
+/**
+ * Harmonic mean of precision and recall, each estimate matching at most one reference within the window
+ */
+export function fMeasure(reference: number[], estimated: number[], window = DEFAULT_OPTIONS.fMeasureWindow): number {
+  if (reference.length === 0 || estimated.length === 0) return 0;
+  // Both lists are ascending and the window is well under a beat, so matching in time order is optimal
+  let matches = 0;
+  let e = 0;
+  for (const time of reference) {
+    while (e < estimated.length && estimated[e] < time - window) e++;
+    if (e < estimated.length && Math.abs(estimated[e] - time) <= window) {
+      matches++;
+      e++;
+    }
+  }
+  const precision = matches / estimated.length;
+  const recall = matches / reference.length;
+  return matches > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+}
+
+/**
+ * Cross-correlation of 10ms impulse trains over lags within a fraction of the median beat period,
+ * normalized by the longer train
+ */
+export function pScore(reference: number[], estimated: number[], threshold = DEFAULT_OPTIONS.pScoreThreshold): number {
+  if (reference.length < 2 || estimated.length === 0) return 0;
+  const offset = Math.min(reference[0], estimated[0]);
+  const toSample = (time: number) => Math.floor((time - offset) * PSCORE_SAMPLE_RATE);
+  const referenceSamples = [...new Set(reference.map(toSample))];
+  const estimatedSamples = [...new Set(estimated.map(toSample))];
+  const maxLag = Math.round(threshold * median(intervals(referenceSamples)));
+
+  // Impulse trains are 0/1, so the correlation counts pairs of impulses within maxLag of each other
+  let correlation = 0;
+  let first = 0;
+  for (const sample of referenceSamples) {
+    while (first < estimatedSamples.length && estimatedSamples[first] < sample - maxLag) first++;
+    for (let e = first; e < estimatedSamples.length && estimatedSamples[e] <= sample + maxLag; e++) {
+      correlation++;
+    }
+  }
+  return correlation / Math.max(estimated.length, reference.length);
+}
+
+/**
+ * For each reference beat, a Gaussian of its distance to the nearest estimate, normalized by the
+ * mean number of beats
+ */
+export function cemgilAccuracy(reference: number[], estimated: number[], sigma = DEFAULT_OPTIONS.cemgilSigma): number {
+  if (reference.length === 0 || estimated.length === 0) return 0;
+  let total = 0;
+  for (const time of reference) {
+    const error = Math.min(...estimated.map((estimate) => Math.abs(estimate - time)));
+    total += Math.exp(-(error * error) / (2 * sigma * sigma));
+  }
+  return total / ((reference.length + estimated.length) / 2);
+}
+
+/**
+ * CMLc/CMLt at the annotated metrical level and AMLc/AMLt, the best over double tempo, half tempo
+ * (odd and even beats) and off-beat variations of the reference
+ */
+export function continuityScores(
+  reference: number[],
+  estimated: number[],
+  threshold = DEFAULT_OPTIONS.continuityThreshold
+): Pick<BeatScores, 'cmlc' | 'cmlt' | 'amlc' | 'amlt'> {
+  if (reference.length < 2 || estimated.length < 2) {
+    return { cmlc: 0, cmlt: 0, amlc: 0, amlt: 0 };
+  }
+
+  const doubled: number[] = [];
+  reference.forEach((time, i) => {
+    doubled.push(time);
+    if (i + 1 < reference.length) doubled.push((time + reference[i + 1]) / 2);
+  });
+  const variations = [
+    reference,
+    doubled.filter((_, i) => i % 2 === 1), // Off-beat
+    doubled,
+    reference.filter((_, i) => i % 2 === 0), // Half tempo, odd beats
+    reference.filter((_, i) => i % 2 === 1), // Half tempo, even beats
+  ];
+  const results = variations.map((variation) => continuity(variation, estimated, threshold));
+
+  return {
+    cmlc: results[0].continuous,
+    cmlt: results[0].total,
+    amlc: Math.max(...results.map((result) => result.continuous)),
+    amlt: Math.max(...results.map((result) => result.total)),
+  };
+}
+
+/**
+ * An estimate is correct if it is close to a not-yet-used reference beat in phase and its interval
+ * is close to the reference interval there
+ */
+function continuity(reference: number[], estimated: number[], threshold: number): { continuous: number; total: number } {
+  const total = Math.max(reference.length, estimated.length);
+  if (reference.length < 2) return { continuous: 0, total: 0 };
+
+  const used = new Set<number>();
+  let correct = 0;
+  let run = 0;
+  let longestRun = 0;
+  estimated.forEach((time, m) => {
+    let nearest = 0;
+    for (let r = 1; r < reference.length; r++) {
+      if (Math.abs(reference[r] - time) < Math.abs(reference[nearest] - time)) nearest = r;
+    }
+
+    let success = false;
+    if (!used.has(nearest)) {
+      // The first beat and the first annotation have no previous interval, so look forward
+      const lookForward = m === 0 || nearest === 0;
+      const referenceInterval =
+        lookForward && nearest + 1 < reference.length
+          ? reference[nearest + 1] - reference[nearest]
+          : reference[nearest] - reference[nearest - 1];
+      const estimatedInterval =
+        m === 0 || (lookForward && m + 1 < estimated.length) ? estimated[m + 1] - time : time - estimated[m - 1];
+      const phase = Math.abs(time - reference[nearest]) / referenceInterval;
+      const period = Math.abs(1 - estimatedInterval / referenceInterval);
+      if (referenceInterval > 0 && phase < threshold && period < threshold) {
+        used.add(nearest);
+        success = true;
+      }
+    }
+
+    if (success) {
+      correct++;
+      run++;
+      longestRun = Math.max(longestRun, run);
+    } else {
+      run = 0;
+    }
+  });
+
+  return { continuous: longestRun / total, total: correct / total };
+}
+
+/**
+ * Per-track scores and their means for one detector configuration
+ */
+export function summarizeEvaluation(config: string, tracks: TrackEvaluation[]): EvaluationReport {
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+  const scoreMean = (key: Exclude<keyof BeatScores, 'downbeatFMeasure'>) => mean(tracks.map((track) => track.scores[key]));
+  const downbeats = tracks.map((track) => track.scores.downbeatFMeasure).filter((value): value is number => value !== null);
+
+  return {
+    config,
+    tracks,
+    mean: {
+      fMeasure: scoreMean('fMeasure'),
+      pScore: scoreMean('pScore'),
+      cemgil: scoreMean('cemgil'),
+      cmlc: scoreMean('cmlc'),
+      cmlt: scoreMean('cmlt'),
+      amlc: scoreMean('amlc'),
+      amlt: scoreMean('amlt'),
+      downbeatFMeasure: downbeats.length > 0 ? mean(downbeats) : null,
+    },
+  };
+}
+
+const SCORE_COLUMNS: Array<[keyof BeatScores, string]> = [
+  ['fMeasure', 'F'],
+  ['pScore', 'P'],
+  ['cemgil', 'Cemgil'],
+  ['cmlc', 'CMLc'],
+  ['cmlt', 'CMLt'],
+  ['amlc', 'AMLc'],
+  ['amlt', 'AMLt'],
+  ['downbeatFMeasure', 'DB-F'],
+];
+
+/**
+ * Plain-text tables: each configuration's per-track scores, then the means of all configurations
+ * side by side
+ */
+export function formatEvaluationReport(reports: EvaluationReport[]): string {
+  const table = (title: string, rows: Array<[string, BeatScores]>) => {
+    const width = Math.max(title.length, ...rows.map(([name]) => name.length));
+    const line = (name: string, cells: string[]) => [name.padEnd(width), ...cells.map((cell) => cell.padStart(7))].join('  ');
+    return [
+      line(title, SCORE_COLUMNS.map(([, label]) => label)),
+      ...rows.map(([name, scores]) =>
+        line(
+          name,
+          SCORE_COLUMNS.map(([key]) => {
+            const value = scores[key];
+            return value === null ? '-' : value.toFixed(3);
+          })
+        )
+      ),
+    ].join('\n');
+  };
+
+  const sections = reports.map((report) =>
+    table(report.config, [...report.tracks.map((track): [string, BeatScores] => [track.track, track.scores]), ['mean', report.mean]])
+  );
+  if (reports.length > 1) {
+    sections.push(table('Mean by config', reports.map((report): [string, BeatScores] => [report.config, report.mean])));
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * Whether an 8-count position starts a 4/4 bar: annotations mark bars, so the 5 is a downbeat
+ * as well as "the 1"
+ */
+export function isBarStart(position: number): boolean {
+  return (position - 1) % 4 === 0;
+}
+
+/**
+ * Read a beat annotation file
+ * - Beat grid JSON as written by the beat export
+ * - Audacity labels ("start end label"); a label of "1" (or "5") marks a downbeat
+ * - One beat per line ("time" or "time position", as in .beats files); position 1 marks a downbeat
+ * Lines starting with # are ignored
+ */
+export function parseBeatAnnotation(text: string): BeatAnnotation {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    const grid = JSON.parse(trimmed) as { beats?: Array<{ time: number; position: number }> };
+    const beats = grid.beats ?? [];
+    return {
+      beats: beats.map((beat) => beat.time),
+      downbeats: beats.filter((beat) => isBarStart(beat.position)).map((beat) => beat.time),
+    };
+  }
+
+  const annotation: BeatAnnotation = { beats: [], downbeats: [] };
+  for (const line of trimmed.split(/\r?\n/)) {
+    if (line.trim() === '' || line.trim().startsWith('#')) continue;
+    const fields = line.trim().split(/[\s,]+/);
+    const time = parseFloat(fields[0]);
+    if (!Number.isFinite(time)) continue;
+    annotation.beats.push(time);
+    // Audacity labels carry the 8-count label, .beats files the position in the bar
+    const downbeat = fields.length >= 3 ? isBarStart(parseFloat(fields[2])) : parseFloat(fields[1]) === 1;
+    if (downbeat) annotation.downbeats.push(time);
+  }
+  annotation.beats.sort((a, b) => a - b);
+  annotation.downbeats.sort((a, b) => a - b);
+  return annotation;
+}
+
+function intervals(times: number[]): number[] {
+  return times.slice(1).map((time, i) => time - times[i]);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
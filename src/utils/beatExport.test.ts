@@ -0,0 +1,303 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BEAT_GRID_SCHEMA,
+  BeatExport,
+  ExportBeat,
+  beatGridToAudacityLabels,
+  beatGridToJSON,
+  beatGridToMidi,
+  exportFromGrid,
+} from './beatExport';
+import { buildBeatGrid } from './beatGrid';
+import { COUNTING_SCHEMES, getCountStep } from './countingScheme';
+import { beatTimes } from '../test/signals';
+
+const ON1 = COUNTING_SCHEMES.on1;
+const TICKS_PER_QUARTER = 480;
+
+/**
+ * Beats at the given times, counting on from `firstPosition`
+ */
+function beatsAt(times: number[], firstPosition = 1): ExportBeat[] {
+  return times.map((time, i) => {
+    const position = ((firstPosition - 1 + i) % 8) + 1;
+    return { time, position, downbeat: position === 1 };
+  });
+}
+
+function gridOf(beats: ExportBeat[], bpm: number): BeatExport {
+  const duration = beats.length > 0 ? beats[beats.length - 1].time + 1 : 10;
+  return { source: 'file', name: 'Test track', duration, beats, segments: [{ start: 0, end: duration, bpm }] };
+}
+
+interface MidiEvent {
+  tick: number;
+  status: number;
+  type?: number; // Meta events
+  data: number[];
+}
+
+/**
+ * Minimal Standard MIDI File reader for what beatGridToMidi writes
+ */
+function parseMidi(bytes: Uint8Array) {
+  const text = (start: number, length: number) => String.fromCharCode(...bytes.slice(start, start + length));
+  const u32 = (at: number) => ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+  const u16 = (at: number) => (bytes[at] << 8) | bytes[at + 1];
+
+  expect(text(0, 4)).toBe('MThd');
+  expect(u32(4)).toBe(6);
+  const header = { format: u16(8), tracks: u16(10), division: u16(12) };
+  expect(text(14, 4)).toBe('MTrk');
+  const trackLength = u32(18);
+  const end = 22 + trackLength;
+
+  let at = 22;
+  const readVariable = () => {
+    let value = 0;
+    for (;;) {
+      const byte = bytes[at++];
+      value = (value << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
+    }
+  };
+
+  const events: MidiEvent[] = [];
+  let tick = 0;
+  while (at < end) {
+    tick += readVariable();
+    const status = bytes[at++];
+    if (status === 0xff) {
+      const type = bytes[at++];
+      const length = readVariable();
+      events.push({ tick, status, type, data: Array.from(bytes.slice(at, at + length)) });
+      at += length;
+    } else {
+      events.push({ tick, status, data: Array.from(bytes.slice(at, at + 2)) });
+      at += 2;
+    }
+  }
+  return { header, trackLength, fileLength: bytes.length, endOfTrack: at, events };
+}
+
+/**
+ * Seconds at each tick, following the file's tempo map
+ */
+function tickToSeconds(events: MidiEvent[]) {
+  const tempos = events
+    .filter((event) => event.type === 0x51)
+    .map((event) => ({ tick: event.tick, secondsPerTick: ((event.data[0] << 16) | (event.data[1] << 8) | event.data[2]) / 1e6 / TICKS_PER_QUARTER }));
+  return (tick: number) => {
+    let seconds = 0;
+    let from = 0;
+    let rate = 0.5 / TICKS_PER_QUARTER; // MIDI default of 120 BPM until the first tempo event
+    for (const tempo of tempos) {
+      if (tempo.tick >= tick) break;
+      seconds += (tempo.tick - from) * rate;
+      from = tempo.tick;
+      rate = tempo.secondsPerTick;
+    }
+    return seconds + (tick - from) * rate;
+  };
+}
+
+function markers(events: MidiEvent[]) {
+  return events
+    .filter((event) => event.type === 0x06)
+    .map((event) => ({ tick: event.tick, label: new TextDecoder().decode(new Uint8Array(event.data)) }));
+}
+
+describe('beatGridToMidi', () => {
+  it('writes a well-formed single-track file', () => {
+    const beats = beatsAt(Array.from({ length: 16 }, (_, i) => 0.8 + i * 0.5));
+    const midi = parseMidi(beatGridToMidi(gridOf(beats, 120), ON1));
+
+    expect(midi.header).toEqual({ format: 0, tracks: 1, division: TICKS_PER_QUARTER });
+    expect(midi.endOfTrack).toBe(midi.fileLength);
+    const last = midi.events[midi.events.length - 1];
+    expect(last.type).toBe(0x2f); // End of track
+  });
+
+  it('puts a marker with its count on every beat, at the beat time', () => {
+    // A tempo change halfway, and a missed beat
+    const times = [
+      ...Array.from({ length: 8 }, (_, i) => 1.1 + i * 0.5),
+      ...Array.from({ length: 12 }, (_, i) => 5.1 + i * 0.32),
+    ].filter((_, i) => i !== 14);
+    const beats = beatsAt(times, 3);
+    const midi = parseMidi(beatGridToMidi(gridOf(beats, 120), ON1));
+    const toSeconds = tickToSeconds(midi.events);
+    const found = markers(midi.events);
+
+    expect(found.map((marker) => marker.label)).toEqual(beats.map((beat) => getCountStep(ON1, beat.position).label));
+    found.forEach((marker, i) => {
+      expect(toSeconds(marker.tick)).toBeCloseTo(beats[i].time, 3);
+    });
+  });
+
+  it('writes tempo events that match the beat gaps', () => {
+    const times = [
+      ...Array.from({ length: 8 }, (_, i) => i * 0.5),
+      ...Array.from({ length: 8 }, (_, i) => 4 + i * 0.4),
+    ];
+    const midi = parseMidi(beatGridToMidi(gridOf(beatsAt(times), 120), ON1));
+    const bpms = midi.events
+      .filter((event) => event.type === 0x51)
+      .map((event) => Math.round(60e6 / ((event.data[0] << 16) | (event.data[1] << 8) | event.data[2])));
+
+    expect(bpms).toEqual([120, 150]);
+  });
+
+  it('lands every 1 on the start of a bar, whatever the count starts on', () => {
+    for (const firstPosition of [1, 3, 6, 8]) {
+      const beats = beatsAt(Array.from({ length: 20 }, (_, i) => 0.37 + i * 0.33), firstPosition);
+      const midi = parseMidi(beatGridToMidi(gridOf(beats, 180), ON1));
+      const found = markers(midi.events);
+
+      const downbeats = found.filter((_, i) => beats[i].downbeat);
+      expect(downbeats.length).toBeGreaterThan(0);
+      for (const marker of downbeats) {
+        expect(marker.tick % (4 * TICKS_PER_QUARTER)).toBe(0);
+      }
+    }
+  });
+
+  it('sends a wood-block hit on steps but not on rests', () => {
+    const beats = beatsAt(Array.from({ length: 8 }, (_, i) => i * 0.5));
+    const midi = parseMidi(beatGridToMidi(gridOf(beats, 120), ON1));
+    const hits = midi.events.filter((event) => event.status === 0x99);
+
+    // On1 rests on 4 and 8
+    expect(hits).toHaveLength(6);
+    expect(hits[0].data).toEqual([76, 110]);
+  });
+
+  it('writes an empty track when there are no beats', () => {
+    const midi = parseMidi(beatGridToMidi({ source: 'live', name: '', duration: 0, beats: [], segments: [] }, ON1));
+    expect(midi.endOfTrack).toBe(midi.fileLength);
+    expect(markers(midi.events)).toEqual([]);
+  });
+});
+
+describe('exportFromGrid', () => {
+  // A live band speeding up from 180 to 188 BPM over four minutes, as the track grid follows it
+  const drifting = exportFromGrid(buildBeatGrid(beatTimes(180, 188, 240), 240, 184), 'Live band');
+
+  it('splits a drifting grid into tempo segments that match its beats', () => {
+    const { segments, beats } = drifting;
+
+    expect(segments.length).toBeGreaterThanOrEqual(5);
+    expect(segments[0].start).toBe(0);
+    expect(segments[segments.length - 1].end).toBe(240);
+    segments.forEach((segment, i) => {
+      if (i > 0) {
+        expect(segment.start).toBe(segments[i - 1].end);
+        expect(segment.bpm).toBeGreaterThan(segments[i - 1].bpm);
+      }
+      // Every beat interval inside the segment is within a BPM of the segment's tempo
+      const inside = beats.filter((beat) => beat.time >= segment.start && beat.time <= segment.end);
+      for (let j = 1; j < inside.length; j++) {
+        expect(Math.abs(60 / (inside[j].time - inside[j - 1].time) - segment.bpm)).toBeLessThan(1);
+      }
+    });
+  });
+
+  it('writes the segments to JSON and a MIDI tempo map that land on the drifting beats', () => {
+    const json = JSON.parse(beatGridToJSON(drifting, ON1));
+    expect(json.segments).toHaveLength(drifting.segments.length);
+    expect(json.bpm).toBeGreaterThan(182);
+    expect(json.bpm).toBeLessThan(186);
+
+    const midi = parseMidi(beatGridToMidi(drifting, ON1));
+    const toSeconds = tickToSeconds(midi.events);
+    const found = markers(midi.events);
+    expect(found).toHaveLength(drifting.beats.length);
+    found.forEach((marker, i) => {
+      expect(toSeconds(marker.tick)).toBeCloseTo(drifting.beats[i].time, 3);
+    });
+  });
+
+  it('keeps a steady grid in one segment', () => {
+    const steady = exportFromGrid(buildBeatGrid(beatTimes(120, 120, 30), 30, 120), 'Click');
+    expect(steady.segments).toHaveLength(1);
+    expect(steady.segments[0]).toEqual({ start: 0, end: 30, bpm: expect.closeTo(120, 3) });
+  });
+});
+
+type Schema = {
+  type?: string;
+  const?: unknown;
+  enum?: readonly unknown[];
+  required?: readonly string[];
+  properties?: Record<string, Schema>;
+  items?: Schema;
+  minimum?: number;
+  maximum?: number;
+};
+
+/**
+ * Errors from checking a value against the subset of JSON Schema that BEAT_GRID_SCHEMA uses
+ */
+function schemaErrors(schema: Schema, value: unknown, path = '$'): string[] {
+  const errors: string[] = [];
+  if (schema.const !== undefined && value !== schema.const) errors.push(`${path} is not ${String(schema.const)}`);
+  if (schema.enum && !schema.enum.includes(value)) errors.push(`${path} is not one of ${schema.enum.join(', ')}`);
+  const types: Record<string, (v: unknown) => boolean> = {
+    object: (v) => typeof v === 'object' && v !== null && !Array.isArray(v),
+    array: Array.isArray,
+    string: (v) => typeof v === 'string',
+    number: (v) => typeof v === 'number',
+    integer: Number.isInteger,
+    boolean: (v) => typeof v === 'boolean',
+  };
+  if (schema.type && !types[schema.type](value)) return [...errors, `${path} is not a ${schema.type}`];
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} is below ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} is above ${schema.maximum}`);
+  }
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) errors.push(`${path}.${key} is missing`);
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (key in object) errors.push(...schemaErrors(property, object[key], `${path}.${key}`));
+    }
+  }
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => errors.push(...schemaErrors(schema.items!, item, `${path}[${i}]`)));
+  }
+  return errors;
+}
+
+describe('beatGridToJSON', () => {
+  it('matches the published schema', () => {
+    const beats = beatsAt([0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5], 7).map((beat, i) => ({ ...beat, confidence: i / 10 }));
+    const grid: BeatExport = { ...gridOf(beats, 120), source: 'live' };
+    const json = JSON.parse(beatGridToJSON(grid, ON1));
+
+    expect(schemaErrors(BEAT_GRID_SCHEMA as Schema, json)).toEqual([]);
+    expect(json.downbeats).toEqual([1.5]);
+    expect(json.beats[0]).toEqual({ time: 0.5, position: 7, count: '7', downbeat: false, rest: false, confidence: 0 });
+    expect(json.beats[1].rest).toBe(true);
+  });
+
+  it('catches output that breaks the schema', () => {
+    const json = JSON.parse(beatGridToJSON(gridOf(beatsAt([0, 0.5]), 120), ON1));
+    json.beats[0].position = 9;
+    delete json.downbeats;
+    expect(schemaErrors(BEAT_GRID_SCHEMA as Schema, json)).toEqual(['$.downbeats is missing', '$.beats[0].position is above 8']);
+  });
+});
+
+describe('beatGridToAudacityLabels', () => {
+  it('writes one tab-separated point label per beat', () => {
+    const labels = beatGridToAudacityLabels(gridOf(beatsAt([0.25, 0.75, 1.25, 1.75], 2), 120), ON1);
+    expect(labels).toBe(
+      '0.250000\t0.250000\t2\n' +
+        '0.750000\t0.750000\t3\n' +
+        '1.250000\t1.250000\t—\n' +
+        '1.750000\t1.750000\t5\n',
+    );
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Beat Export
+ * Writes a detected or analyzed beat grid as a Standard MIDI File, an Audacity label track
+ * or JSON, so beats found by the app can be reused in DAWs and editors
+ */
+
+import { BeatGrid } from './beatGrid';
+import { CountingScheme, getCountStep } from './countingScheme';
+import { SessionRecord } from './sessionRecorder';
+
+export interface ExportBeat {
+  time: number; // Seconds from the start of the track or session
+  position: number; // 1-8 count position
+  downbeat: boolean;
+  confidence?: number; // Live detection only
+}
+
+export interface TempoSegment {
+  start: number; // Seconds
+  end: number;
+  bpm: number;
+}
+
+export interface BeatExport {
+  source: 'file' | 'live';
+  name: string; // Track file name, or the session date
+  duration: number; // Seconds
+  beats: ExportBeat[];
+  segments: TempoSegment[];
+}
+
+const BEAT_GRID_FORMAT = 'baila-beat-grid';
+const BEAT_GRID_VERSION = 1;
+const SEGMENT_TOLERANCE = 1; // BPM difference that starts a new tempo segment
+const TICKS_PER_QUARTER = 480;
+const MAX_TEMPO_MICROSECONDS = 0xffffff; // Largest tempo a MIDI tempo event can hold
+const MAX_TEMPO_DRIFT = 0.00025; // s a beat may land off its time before a new tempo event is written
+
+/**
+ * JSON Schema (draft-07) of the file written by beatGridToJSON
+ */
+export const BEAT_GRID_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Baila Beat grid',
+  type: 'object',
+  required: ['format', 'version', 'source', 'name', 'duration', 'countingScheme', 'bpm', 'segments', 'beats', 'downbeats'],
+  properties: {
+    format: { const: BEAT_GRID_FORMAT },
+    version: { const: BEAT_GRID_VERSION },
+    source: { enum: ['file', 'live'], description: 'Offline file analysis or a live listening session' },
+    name: { type: 'string', description: 'Track file name, or the date of the live session' },
+    duration: { type: 'number', minimum: 0, description: 'Seconds' },
+    countingScheme: { type: 'string', description: 'Counting scheme the count labels come from, e.g. "on1"' },
+    bpm: { type: 'number', description: 'Median tempo over all segments' },
+    segments: {
+      type: 'array',
+      description: 'Stretches of steady tempo, in time order',
+      items: {
+        type: 'object',
+        required: ['start', 'end', 'bpm'],
+        properties: {
+          start: { type: 'number', description: 'Seconds' },
+          end: { type: 'number', description: 'Seconds' },
+          bpm: { type: 'number' },
+        },
+      },
+    },
+    beats: {
+      type: 'array',
+      description: 'Every beat, in time order',
+      items: {
+        type: 'object',
+        required: ['time', 'position', 'count', 'downbeat', 'rest'],
+        properties: {
+          time: { type: 'number', description: 'Seconds' },
+          position: { type: 'integer', minimum: 1, maximum: 8, description: 'Position in the 8-count' },
+          count: { type: 'string', description: 'How the position is called in the counting scheme' },
+          downbeat: { type: 'boolean', description: 'True on "the 1"' },
+          rest: { type: 'boolean', description: 'True where the counting scheme has no step' },
+          confidence: { type: 'number', minimum: 0, maximum: 1, description: 'Live sessions only' },
+        },
+      },
+    },
+    downbeats: { type: 'array', items: { type: 'number' }, description: 'Times (s) of every "1"' },
+  },
+} as const;
+
+/**
+ * Beats and tempo segments of an analyzed track; the grid follows tempo drift, so its beat
+ * intervals within a BPM of each other are merged into one segment, as for live sessions
+ */
+export function exportFromGrid(grid: BeatGrid, name: string): BeatExport {
+  const beats = grid.beats;
+  const intervalBPM = (i: number) => 60 / (beats[i].time - beats[i - 1].time); // Between beats i-1 and i
+  const segments: TempoSegment[] = [];
+  let first = 0; // Beat the current segment starts on
+  for (let i = 2; i <= beats.length; i++) {
+    if (i < beats.length && Math.abs(intervalBPM(i) - intervalBPM(first + 1)) < SEGMENT_TOLERANCE) continue;
+    const last = i - 1;
+    const span = beats[last].time - beats[first].time;
+    segments.push({ start: beats[first].time, end: beats[last].time, bpm: (60 * (last - first)) / span });
+    first = last;
+  }
+  if (segments.length > 0) {
+    segments[0].start = 0;
+    segments[segments.length - 1].end = grid.duration;
+  } else if (grid.bpm > 0) {
+    segments.push({ start: 0, end: grid.duration, bpm: grid.bpm });
+  }
+
+  return {
+    source: 'file',
+    name,
+    duration: grid.duration,
+    beats: grid.beats.map(({ time, position, downbeat }) => ({ time, position, downbeat })),
+    segments,
+  };
+}
+
+/**
+ * Beats and tempo segments of a recorded live session; tempo readings within a BPM of each other
+ * are merged into one segment
+ */
+export function exportFromSession(session: SessionRecord): BeatExport {
+  const duration = session.duration / 1000;
+  const segments: TempoSegment[] = [];
+  for (const reading of session.tempo) {
+    const last = segments[segments.length - 1];
+    if (last && Math.abs(reading.bpm - last.bpm) < SEGMENT_TOLERANCE) continue;
+    const start = segments.length === 0 ? 0 : reading.time / 1000;
+    if (last) last.end = start;
+    segments.push({ start, end: duration, bpm: reading.bpm });
+  }
+
+  return {
+    source: 'live',
+    name: new Date(session.startedAt).toLocaleString(),
+    duration,
+    beats: session.beats
+      .filter((beat) => beat.time >= 0)
+      .map((beat) => ({ time: beat.time / 1000, position: beat.position, downbeat: beat.downbeat, confidence: beat.confidence })),
+    segments,
+  };
+}
+
+export function beatGridToJSON(grid: BeatExport, scheme: CountingScheme): string {
+  const bpms = grid.segments.map((segment) => segment.bpm).sort((a, b) => a - b);
+  return JSON.stringify(
+    {
+      format: BEAT_GRID_FORMAT,
+      version: BEAT_GRID_VERSION,
+      source: grid.source,
+      name: grid.name,
+      duration: round(grid.duration),
+      countingScheme: scheme.id,
+      bpm: bpms.length > 0 ? round(bpms[Math.floor(bpms.length / 2)]) : 0,
+      segments: grid.segments.map((segment) => ({
+        start: round(segment.start),
+        end: round(segment.end),
+        bpm: round(segment.bpm),
+      })),
+      beats: grid.beats.map((beat) => {
+        const step = getCountStep(scheme, beat.position);
+        return {
+          time: round(beat.time),
+          position: beat.position,
+          count: step.label,
+          downbeat: beat.downbeat,
+          rest: step.rest,
+          ...(beat.confidence !== undefined && { confidence: round(beat.confidence) }),
+        };
+      }),
+      downbeats: grid.beats.filter((beat) => beat.downbeat).map((beat) => round(beat.time)),
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Audacity label track: one point label per beat, named after its count
+ * Import in Audacity with File → Import → Labels
+ */
+export function beatGridToAudacityLabels(grid: BeatExport, scheme: CountingScheme): string {
+  return grid.beats
+    .map((beat) => {
+      const time = beat.time.toFixed(6);
+      return `${time}\t${time}\t${getCountStep(scheme, beat.position).label}`;
+    })
+    .join('\n') + '\n';
+}
+
+/**
+ * Standard MIDI File (format 0)
+ * The tempo map puts every beat on a quarter note, with "the 1" at the start of a 4/4 bar, so a DAW's
+ * grid follows the music; each beat has a marker with its count and a wood-block hit on the
+ * percussion channel (none on rests)
+ */
+export function beatGridToMidi(grid: BeatExport, scheme: CountingScheme): Uint8Array<ArrayBuffer> {
+  const events: number[] = [];
+  let lastTick = 0;
+  const add = (tick: number, bytes: number[]) => {
+    events.push(...variableLength(tick - lastTick), ...bytes);
+    lastTick = tick;
+  };
+
+  add(0, metaEvent(0x03, textBytes(grid.name)));
+  add(0, metaEvent(0x58, [4, 2, 24, 8])); // 4/4
+
+  const beats = grid.beats;
+  const period = typicalPeriod(grid);
+  if (beats.length === 0 || period <= 0) {
+    add(0, metaEvent(0x2f, []));
+    return midiFile(events);
+  }
+
+  // Quarter notes before the first beat, chosen so its count position lands right in the bar
+  const lead = (beats[0].position - 1) % 4;
+  let quarters = beats[0].time > 0 ? nearestCongruent(beats[0].time / period, lead, 4, 1) : lead;
+  if (quarters > 0) {
+    add(0, tempoEvent(beats[0].time / quarters));
+  }
+
+  let currentTempo = 0; // s per quarter
+  let fileTime = beats[0].time; // Where the tempo map so far puts the current beat
+  let tick = quarters * TICKS_PER_QUARTER;
+  beats.forEach((beat, i) => {
+    const next = beats[i + 1];
+    if (next) {
+      // Missed beats in between still get their quarter notes, so the grid keeps its tempo
+      quarters = Math.max(1, Math.round((next.time - beat.time) / period));
+      // Keep the tempo while it still lands the next beat in time, so a slow drift doesn't
+      // write an event on every beat, nor add up small errors until the markers slip
+      if (currentTempo === 0 || Math.abs(fileTime + quarters * currentTempo - next.time) > MAX_TEMPO_DRIFT) {
+        currentTempo = tempoMicroseconds((next.time - fileTime) / quarters) / 1e6;
+        add(tick, tempoEvent(currentTempo));
+      }
+      fileTime += quarters * currentTempo;
+    }
+
+    const step = getCountStep(scheme, beat.position);
+    add(tick, metaEvent(0x06, textBytes(step.label)));
+    if (!step.rest) {
+      const note = step.accent === 'strong' ? 76 : 77; // GM hi / low wood block
+      const velocity = step.accent === 'strong' ? 110 : step.accent === 'medium' ? 90 : 70;
+      add(tick, [0x99, note, velocity]);
+      add(tick + TICKS_PER_QUARTER / 8, [0x89, note, 0]);
+    }
+    tick += next ? quarters * TICKS_PER_QUARTER : TICKS_PER_QUARTER;
+  });
+
+  add(Math.max(lastTick, tick), metaEvent(0x2f, []));
+  return midiFile(events);
+}
+
+/**
+ * Median beat interval in seconds
+ */
+function typicalPeriod(grid: BeatExport): number {
+  const intervals: number[] = [];
+  for (let i = 1; i < grid.beats.length; i++) {
+    intervals.push(grid.beats[i].time - grid.beats[i - 1].time);
+  }
+  if (intervals.length === 0) {
+    return grid.segments.length > 0 ? 60 / grid.segments[0].bpm : 0;
+  }
+  intervals.sort((a, b) => a - b);
+  return intervals[Math.floor(intervals.length / 2)];
+}
+
+/**
+ * Integer ≡ remainder (mod modulus), at least min, closest to value
+ */
+function nearestCongruent(value: number, remainder: number, modulus: number, min: number): number {
+  let candidate = Math.floor((value - remainder) / modulus) * modulus + remainder;
+  if (value - candidate > modulus / 2) candidate += modulus;
+  while (candidate < min) candidate += modulus;
+  return candidate;
+}
+
+function tempoMicroseconds(secondsPerQuarter: number): number {
+  return Math.max(1, Math.min(MAX_TEMPO_MICROSECONDS, Math.round(secondsPerQuarter * 1e6)));
+}
+
+function tempoEvent(secondsPerQuarter: number): number[] {
+  const microseconds = tempoMicroseconds(secondsPerQuarter);
+  return metaEvent(0x51, [(microseconds >> 16) & 0xff, (microseconds >> 8) & 0xff, microseconds & 0xff]);
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...variableLength(data.length), ...data];
+}
+
+function textBytes(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  for (let rest = value >> 7; rest > 0; rest >>= 7) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+function midiFile(trackEvents: number[]): Uint8Array<ArrayBuffer> {
+  const header = [
+    ...textBytes('MThd'), 0, 0, 0, 6,
+    0, 0, // Format 0
+    0, 1, // One track
+    (TICKS_PER_QUARTER >> 8) & 0xff, TICKS_PER_QUARTER & 0xff,
+  ];
+  const length = trackEvents.length;
+  const track = [
+    ...textBytes('MTrk'),
+    (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff,
+    ...trackEvents,
+  ];
+  return new Uint8Array([...header, ...track]);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildBeatGrid, findBeatIndexAt } from './beatGrid';
+import { beatTimes, seededRandom } from '../test/signals';
+
+/**
+ * Detections of the given beats as a detector reports them: a little jitter, some hits missed
+ * and the odd off-beat picked up
+ */
+function detect(beats: number[], seed = 3): number[] {
+  const random = seededRandom(seed);
+  const detections: number[] = [];
+  beats.forEach((time, i) => {
+    if (random() < 0.1) return; // Missed
+    detections.push(time + (random() - 0.5) * 0.016);
+    if (random() < 0.03 && i + 1 < beats.length) detections.push((time + beats[i + 1]) / 2); // Off-beat
+  });
+  return detections;
+}
+
+/**
+ * Grid beats from the first true beat on; the grid also extends back to the start of the track
+ */
+function fromFirstBeat(grid: ReturnType<typeof buildBeatGrid>, beats: number[]) {
+  return grid.beats.filter((beat) => beat.time > beats[0] - 0.05);
+}
+
+/**
+ * Largest distance (s) from each true beat to the nearest grid beat
+ */
+function worstError(grid: ReturnType<typeof buildBeatGrid>, beats: number[]): number {
+  return Math.max(
+    ...beats.map((time) => {
+      const index = Math.max(0, findBeatIndexAt(grid, time));
+      const candidates = [grid.beats[index], grid.beats[index + 1]].filter(Boolean);
+      return Math.min(...candidates.map((beat) => Math.abs(beat.time - time)));
+    }),
+  );
+}
+
+describe('buildBeatGrid', () => {
+  it('puts a steady grid on the beats despite missed and extra detections', () => {
+    const beats = beatTimes(180, 180, 60);
+    const grid = buildBeatGrid(detect(beats), 60, 180);
+
+    expect(grid.bpm).toBeCloseTo(180, 0);
+    expect(fromFirstBeat(grid, beats)).toHaveLength(beats.length);
+    expect(worstError(grid, beats)).toBeLessThan(0.01);
+  });
+
+  it('follows a live band that speeds up over several minutes', () => {
+    // 180 to 188 BPM over four minutes: a single tempo would be hundreds of ms off by the end
+    const beats = beatTimes(180, 188, 240);
+    const grid = buildBeatGrid(detect(beats), 240, 184);
+
+    expect(fromFirstBeat(grid, beats)).toHaveLength(beats.length);
+    expect(worstError(grid, beats)).toBeLessThan(0.015);
+  });
+
+  it('counts from the anchor', () => {
+    const beats = beatTimes(120, 120, 20);
+    // The fifth beat is a 3
+    const grid = buildBeatGrid(beats, 20, 120, { time: beats[4], position: 3 });
+
+    const counted = fromFirstBeat(grid, beats);
+    expect(counted[4].position).toBe(3);
+    beats.forEach((time, i) => {
+      expect(counted[i].time).toBeCloseTo(time, 6);
+      expect(counted[i].downbeat).toBe((i + 6) % 8 === 0);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Beat Grid for precomputed (offline) analysis
+ * A fixed list of beats with their count position, used to drive the counter from a known track
+ */
+
+export interface GridBeat {
+  time: number; // Seconds from the start of the track
+  position: number; // 1-8 position in the count
+  downbeat: boolean;
+}
+
+export interface BeatGrid {
+  duration: number; // Track length in seconds
+  bpm: number;
+  beats: GridBeat[];
+}
+
+export interface GridAnchor {
+  time: number; // Seconds
+  position: number; // 1-8 count position of the beat at that time
+}
+
+const BEATS_PER_CYCLE = 8;
+const LOCAL_WINDOW = 8; // Beats either side of each grid beat its local tempo and phase are fitted over
+const MIN_LOCAL_POINTS = 4; // Fewer detections than this in a window fall back to the whole-track fit
+const MAX_RESIDUAL = 0.25; // Detections further than this (fraction of a beat) off the grid are dropped
+const RESEED_AFTER = 4; // Consecutive dropped detections that mean the grid lost its place
+
+/**
+ * Fit a grid to detected beat times that follows the tempo as it drifts
+ * Each detection is numbered by the beat it falls on, then every grid beat is placed by a
+ * least-squares fit of the detections within a few beats of it, so missed and extra detections
+ * don't bend the grid but a live band slowly speeding up doesn't slip off it either
+ * @param beatTimes - Detected beat times in seconds, ascending
+ * @param duration - Track length in seconds
+ * @param bpm - Tempo estimate for the whole track, if known
+ * @param anchor - A beat whose count position is known (e.g. from downbeat detection); otherwise the first beat is "the 1"
+ */
+export function buildBeatGrid(beatTimes: number[], duration: number, bpm?: number, anchor?: GridAnchor): BeatGrid {
+  if (beatTimes.length < 2) {
+    return { duration, bpm: 0, beats: [] };
+  }
+
+  const intervals: number[] = [];
+  for (let i = 1; i < beatTimes.length; i++) {
+    intervals.push(beatTimes[i] - beatTimes[i - 1]);
+  }
+  const points = numberBeats(beatTimes, bpm && bpm > 0 ? 60 / bpm : median(intervals));
+  if (points.length < 2) {
+    return { duration, bpm: 0, beats: [] };
+  }
+  const [origin, period] = robustFit(points);
+  const timeOf = (index: number) => localTime(points, index) ?? origin + index * period;
+
+  // Index of a time on the grid, from the nearest numbered detection
+  const indexAt = (time: number) => {
+    let nearest = points[0];
+    for (const point of points) {
+      if (Math.abs(point[1] - time) < Math.abs(nearest[1] - time)) nearest = point;
+    }
+    return nearest[0] + Math.round((time - nearest[1]) / period);
+  };
+
+  // Extend the grid back to the start of the track
+  let firstIndex = points[0][0];
+  while (timeOf(firstIndex - 1) >= 0) firstIndex--;
+  // Grid index that is "the 1" (mod the cycle)
+  const downbeatIndex = anchor ? indexAt(anchor.time) - (anchor.position - 1) : firstIndex;
+  const beats: GridBeat[] = [];
+  for (let index = firstIndex; ; index++) {
+    const time = timeOf(index);
+    if (time > duration) break;
+    const offset = (index - downbeatIndex) % BEATS_PER_CYCLE;
+    const position = ((offset + BEATS_PER_CYCLE) % BEATS_PER_CYCLE) + 1;
+    beats.push({ time, position, downbeat: position === 1 });
+  }
+
+  return { duration, bpm: 60 / period, beats };
+}
+
+/**
+ * Number each detection by the beat it falls on, following the tempo from one to the next
+ * Detections between beats (e.g. an off-beat picked up once) are left out
+ * @returns [beat index, time] pairs, indices ascending
+ */
+function numberBeats(beatTimes: number[], initialPeriod: number): Array<[number, number]> {
+  const points: Array<[number, number]> = [[0, beatTimes[0]]];
+  let period = initialPeriod;
+  let dropped = 0;
+  for (const time of beatTimes.slice(1)) {
+    const [lastIndex, lastTime] = points[points.length - 1];
+    const steps = Math.round((time - lastTime) / period);
+    const residual = time - (lastTime + steps * period);
+    if (steps >= 1 && Math.abs(residual) < period * MAX_RESIDUAL) {
+      // Short gaps say the most about the current tempo
+      if (steps <= 2) period += 0.2 * ((time - lastTime) / steps - period);
+      points.push([lastIndex + steps, time]);
+      dropped = 0;
+    } else if (++dropped >= RESEED_AFTER) {
+      // The last numbered detection was itself off the beat; carry on from here instead
+      points.push([lastIndex + Math.max(1, Math.round((time - lastTime) / period)), time]);
+      dropped = 0;
+    }
+  }
+  return points;
+}
+
+/**
+ * Time of a grid beat from the detections around it, or null if there are too few
+ * Near the ends of the track the window slides inward, so the grid is extended at the tempo there
+ */
+function localTime(points: Array<[number, number]>, index: number): number | null {
+  const first = points[0][0];
+  const last = points[points.length - 1][0];
+  const center = Math.max(first + LOCAL_WINDOW, Math.min(last - LOCAL_WINDOW, index));
+  const window = points.filter(([i]) => Math.abs(i - center) <= LOCAL_WINDOW);
+  if (window.length < MIN_LOCAL_POINTS) return null;
+  const [origin, period] = robustFit(window);
+  return origin + index * period;
+}
+
+/**
+ * Line fit that drops detections far off the first fit (e.g. one numbered a beat wrong) and fits again
+ */
+function robustFit(points: Array<[number, number]>): [number, number] {
+  const [origin, period] = fitLine(points);
+  const kept = points.filter(([index, time]) => Math.abs(time - (origin + index * period)) < period * MAX_RESIDUAL);
+  return kept.length >= 2 && kept.length < points.length ? fitLine(kept) : [origin, period];
+}
+
+/**
+ * Index of the last beat at or before the given time, or -1 if none
+ */
+export function findBeatIndexAt(grid: BeatGrid, time: number): number {
+  let low = 0;
+  let high = grid.beats.length - 1;
+  let result = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (grid.beats[mid].time <= time) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return result;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Least-squares fit of time = origin + index * period
+ */
+function fitLine(points: Array<[number, number]>): [number, number] {
+  const n = points.length;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+  for (const [x, y] of points) {
+    sumX += x;
+    sumY += y;
+    sumXY += x * y;
+    sumXX += x * x;
+  }
+  const period = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+  const origin = (sumY - period * sumX) / n;
+  return [origin, period];
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { BeatTracker, TrackedBeat } from './beatTracker';
+
+const BPM = 120;
+const PERIOD = 500;
+const FRAME = 10; // ms between advance() calls, like a detector frame hop
+
+interface Onset {
+  time: number;
+  strength: number;
+}
+
+/**
+ * Onsets on a steady grid, starting at `start`
+ * @param skip - Beat indices left out, as when a hit is too quiet to detect
+ */
+function gridOnsets(start: number, count: number, period = PERIOD, skip: number[] = []): Onset[] {
+  return Array.from({ length: count }, (_, i) => i)
+    .filter((i) => !skip.includes(i))
+    .map((i) => ({ time: start + i * period, strength: 1 }));
+}
+
+/**
+ * Feed onsets to the tracker frame by frame, the way the detector does
+ */
+function run(tracker: BeatTracker, onsets: Onset[], until: number): TrackedBeat[] {
+  const sorted = [...onsets].sort((a, b) => a.time - b.time);
+  const beats: TrackedBeat[] = [];
+  let next = 0;
+  for (let now = 0; now <= until; now += FRAME) {
+    while (next < sorted.length && sorted[next].time <= now) {
+      tracker.addOnset(sorted[next].time, sorted[next].strength);
+      next++;
+    }
+    beats.push(...tracker.advance(now));
+  }
+  return beats;
+}
+
+function lockedTracker(): BeatTracker {
+  const tracker = new BeatTracker();
+  tracker.setTempo(BPM);
+  return tracker;
+}
+
+describe('BeatTracker', () => {
+  it('keeps a steady grid through missing onsets', () => {
+    const tracker = lockedTracker();
+    const beats = run(tracker, gridOnsets(1000, 20, PERIOD, [4, 5, 9, 13, 14, 15]), 1000 + 19 * PERIOD);
+
+    expect(beats).toHaveLength(20);
+    beats.forEach((beat, i) => {
+      expect(beat.index).toBe(i);
+      expect(Math.abs(beat.time - (1000 + i * PERIOD))).toBeLessThan(1);
+    });
+    expect(tracker.isLocked()).toBe(true);
+  });
+
+  it('corrects its phase after the onsets shift', () => {
+    const SHIFT = 40;
+    const tracker = lockedTracker();
+    const onsets = [...gridOnsets(1000, 10), ...gridOnsets(1000 + 10 * PERIOD + SHIFT, 20)];
+    const beats = run(tracker, onsets, 1000 + 29 * PERIOD + SHIFT);
+
+    // Before the shift the grid sits on the onsets; ten beats after it, within a frame of the shifted ones
+    expect(Math.abs(beats[9].time - (1000 + 9 * PERIOD))).toBeLessThan(1);
+    for (const beat of beats.slice(20)) {
+      expect(Math.abs(beat.time - (1000 + beat.index * PERIOD + SHIFT))).toBeLessThan(FRAME);
+    }
+    expect(Math.abs(tracker.getBPM() - BPM)).toBeLessThan(2);
+  });
+
+  it('never emits a beat twice, even with flams, ghost notes and a phase jump', () => {
+    const tracker = lockedTracker();
+    const onsets = [
+      ...gridOnsets(1000, 12),
+      ...gridOnsets(1030, 12).map((onset) => ({ ...onset, strength: 0.6 })), // Flams just after each hit
+      ...gridOnsets(1250, 12).map((onset) => ({ ...onset, strength: 0.3 })), // Ghost notes on the "and"
+      ...gridOnsets(1000 + 12 * PERIOD - 90, 12), // The band comes back in early
+    ];
+    const beats = run(tracker, onsets, 1000 + 24 * PERIOD);
+
+    for (let i = 1; i < beats.length; i++) {
+      expect(beats[i].time - beats[i - 1].time).toBeGreaterThan(PERIOD / 2);
+      expect(beats[i].index).toBeGreaterThan(beats[i - 1].index);
+    }
+    // No more than one beat per slot from the first hit to the end
+    expect(beats.length).toBeLessThanOrEqual(25);
+  });
+
+  it('emits beats ahead by the lookahead', () => {
+    const tracker = new BeatTracker({ lookahead: 100 });
+    tracker.setTempo(BPM);
+    const onsets = gridOnsets(1000, 6);
+    const emittedAt: number[] = [];
+    let next = 0;
+    for (let now = 0; now <= 1000 + 5 * PERIOD; now += FRAME) {
+      while (next < onsets.length && onsets[next].time <= now) tracker.addOnset(onsets[next++].time, 1);
+      if (tracker.advance(now).length > 0) emittedAt.push(now);
+    }
+
+    // The first onset only sets the phase, so its beat comes out late; from then on each beat is
+    // out 100 ms before its time
+    expect(emittedAt[0]).toBe(1000);
+    emittedAt.slice(1).forEach((now, i) => {
+      expect(now).toBe(1000 + (i + 1) * PERIOD - 100);
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Phase-locked Beat Tracker
+ * Keeps a tempo and phase estimate, corrects it from onsets near each expected beat,
+ * and emits beats on a steady grid even when individual hits are missing
+ */
+
+export interface TrackedBeat {
+  time: number; // Grid time of the beat (ms)
+  index: number; // Beats since the tracker locked
+}
+
+export interface BeatTrackerOptions {
+  phaseGain?: number; // Fraction of each phase error applied to the grid
+  periodGain?: number; // Fraction of each phase error applied to the period
+  tempoGain?: number; // How quickly the period follows external tempo estimates
+  tolerance?: number; // Capture window around each beat, as a fraction of the period
+  maxTolerance?: number; // Capture window after repeated misses, to re-acquire the phase
+  lookahead?: number; // Emit beats this many ms before their grid time (latency compensation)
+  maxMissedBeats?: number; // Consecutive beats without onsets before the lock is dropped
+  minBPM?: number;
+  maxBPM?: number;
+}
+
+const PHASE_BINS = 8; // Resolution of the onset phase histogram (eighth of a beat)
+const PHASE_DECAY = 0.85; // Per-beat decay of the phase histogram
+const REPHASE_RATIO = 2; // How much stronger an off-grid phase must be before re-phasing
+const CONFIDENCE_RATE = 0.2; // How quickly confidence follows the per-beat match quality
+
+export class BeatTracker {
+  private readonly phaseGain: number;
+  private readonly periodGain: number;
+  private readonly tempoGain: number;
+  private readonly tolerance: number;
+  private readonly maxTolerance: number;
+  private lookahead: number;
+  private readonly maxMissedBeats: number;
+  private minPeriod: number;
+  private maxPeriod: number;
+
+  private period = 0; // ms per beat, 0 until a tempo is known
+  private locked = false;
+  private anchorIndex = 0; // Last beat whose position has been corrected
+  private anchorTime = 0;
+  private pendingIndex = 0; // Beat currently collecting onset evidence
+  private emitIndex = 0; // Next beat to emit
+  private bestOnsetTime = 0;
+  private bestOnsetStrength = 0;
+  private missedBeats = 0;
+  private lastEmittedTime = -Infinity;
+  private confidence = 0; // Running 0-1 quality of onsets matching the grid
+  private phaseHistogram = new Array<number>(PHASE_BINS).fill(0);
+
+  constructor(options: BeatTrackerOptions = {}) {
+    this.phaseGain = options.phaseGain ?? 0.35;
+    this.periodGain = options.periodGain ?? 0.05;
+    this.tempoGain = options.tempoGain ?? 0.1;
+    this.tolerance = options.tolerance ?? 0.2;
+    this.maxTolerance = options.maxTolerance ?? 0.45;
+    this.lookahead = options.lookahead ?? 0;
+    this.maxMissedBeats = options.maxMissedBeats ?? 8;
+    this.minPeriod = 60000 / (options.maxBPM ?? 240);
+    this.maxPeriod = 60000 / (options.minBPM ?? 60);
+  }
+
+  /**
+   * Feed an external tempo estimate
+   * Small differences are blended in; large ones (tempo change, octave correction) are adopted
+   */
+  setTempo(bpm: number): void {
+    if (bpm <= 0) return;
+    const target = this.clampPeriod(60000 / bpm);
+    if (this.period === 0 || !this.locked || Math.abs(target / this.period - 1) > 0.15) {
+      this.period = target;
+    } else {
+      this.period += this.tempoGain * (target - this.period);
+    }
+  }
+
+  /**
+   * Report a detected onset
+   * Before lock, the first onset after a tempo is known sets the phase
+   */
+  addOnset(time: number, strength: number): void {
+    if (this.period === 0) return;
+
+    if (!this.locked) {
+      this.locked = true;
+      this.anchorIndex = -1;
+      this.anchorTime = time - this.period;
+      this.pendingIndex = 0;
+      this.emitIndex = 0;
+      this.missedBeats = 0;
+      this.bestOnsetTime = time;
+      this.bestOnsetStrength = strength;
+      return;
+    }
+
+    // Where onsets fall relative to the grid, to notice when we're locked onto off-beats
+    const phase = ((time - this.anchorTime) / this.period) % 1;
+    const bin = Math.round((phase < 0 ? phase + 1 : phase) * PHASE_BINS) % PHASE_BINS;
+    this.phaseHistogram[bin] += strength;
+
+    // Keep the strongest onset inside the capture window of the pending beat
+    const error = time - this.beatTime(this.pendingIndex);
+    if (Math.abs(error) <= this.captureWindow() && strength > this.bestOnsetStrength) {
+      this.bestOnsetTime = time;
+      this.bestOnsetStrength = strength;
+    }
+  }
+
+  /**
+   * Move the tracker to the given time
+   * @returns Beats due for emission (grid time minus lookahead has passed)
+   */
+  advance(now: number): TrackedBeat[] {
+    if (!this.locked) return [];
+
+    // Close beats whose capture window has passed and correct the grid from them
+    while (this.locked && now > this.beatTime(this.pendingIndex) + this.captureWindow()) {
+      this.closePendingBeat();
+    }
+    if (!this.locked) return [];
+
+    const beats: TrackedBeat[] = [];
+    while (now >= this.beatTime(this.emitIndex) - this.lookahead) {
+      const time = this.beatTime(this.emitIndex);
+      // Skip beats that are badly late (e.g. after the frame loop stalled),
+      // or that a phase correction pulled right on top of the previous one
+      if (now - time < this.period / 2 && time - this.lastEmittedTime > this.period / 2) {
+        beats.push({ time, index: this.emitIndex });
+        this.lastEmittedTime = time;
+      }
+      this.emitIndex++;
+    }
+    return beats;
+  }
+
+  /**
+   * Grid time of the next beat that hasn't been emitted yet, or null if not locked
+   */
+  getNextBeatTime(): number | null {
+    return this.locked ? this.beatTime(this.emitIndex) : null;
+  }
+
+  getBPM(): number {
+    return this.period > 0 ? 60000 / this.period : 0;
+  }
+
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  /**
+   * 0-1, how consistently recent beats had an onset close to the grid
+   */
+  getConfidence(): number {
+    return this.confidence;
+  }
+
+  setLookahead(lookahead: number): void {
+    this.lookahead = lookahead;
+  }
+
+  setRange(minBPM: number, maxBPM: number): void {
+    this.minPeriod = 60000 / maxBPM;
+    this.maxPeriod = 60000 / minBPM;
+    if (this.period > 0) {
+      this.period = this.clampPeriod(this.period);
+    }
+  }
+
+  reset(): void {
+    this.period = 0;
+    this.unlock();
+  }
+
+  private closePendingBeat(): void {
+    const expected = this.beatTime(this.pendingIndex);
+    let corrected = expected;
+
+    if (this.bestOnsetStrength > 0) {
+      const error = this.bestOnsetTime - expected;
+      corrected = expected + this.phaseGain * error;
+      this.period = this.clampPeriod(this.period + this.periodGain * error);
+      this.missedBeats = 0;
+      const quality = Math.max(0, 1 - Math.abs(error) / (this.tolerance * this.period));
+      this.confidence += CONFIDENCE_RATE * (quality - this.confidence);
+    } else {
+      this.confidence -= CONFIDENCE_RATE * this.confidence;
+      this.missedBeats++;
+      if (this.missedBeats >= this.maxMissedBeats) {
+        // Music stopped or we drifted off; keep the tempo and wait for a fresh onset
+        this.unlock();
+        return;
+      }
+    }
+
+    // Beats already emitted keep the time they were emitted with
+    this.anchorIndex = this.pendingIndex;
+    this.anchorTime = corrected + this.rephaseOffset();
+    this.pendingIndex++;
+    this.emitIndex = Math.max(this.emitIndex, this.pendingIndex);
+    this.bestOnsetTime = 0;
+    this.bestOnsetStrength = 0;
+  }
+
+  /**
+   * Shift (ms) needed if onsets consistently land on another part of the beat, e.g. the "and"
+   * The capture window alone can't escape such a lock because it never sees the real beats
+   */
+  private rephaseOffset(): number {
+    this.phaseHistogram = this.phaseHistogram.map((value) => value * PHASE_DECAY);
+
+    let strongest = 0;
+    for (let bin = 1; bin < PHASE_BINS; bin++) {
+      if (this.phaseHistogram[bin] > this.phaseHistogram[strongest]) strongest = bin;
+    }
+    if (strongest === 0 || this.phaseHistogram[strongest] < this.phaseHistogram[0] * REPHASE_RATIO) {
+      return 0;
+    }
+
+    this.phaseHistogram.fill(0);
+    const fraction = strongest / PHASE_BINS;
+    // Move by the shortest way round (e.g. 7/8 of a beat late is 1/8 early)
+    return (fraction > 0.5 ? fraction - 1 : fraction) * this.period;
+  }
+
+  /**
+   * Capture window (ms) around the pending beat, widened after misses to re-acquire the phase
+   */
+  private captureWindow(): number {
+    const widening = Math.min(1, this.missedBeats / 4);
+    const tolerance = this.tolerance + (this.maxTolerance - this.tolerance) * widening;
+    return tolerance * this.period;
+  }
+
+  private beatTime(index: number): number {
+    return this.anchorTime + (index - this.anchorIndex) * this.period;
+  }
+
+  private clampPeriod(period: number): number {
+    return Math.max(this.minPeriod, Math.min(this.maxPeriod, period));
+  }
+
+  private unlock(): void {
+    this.locked = false;
+    this.anchorIndex = 0;
+    this.anchorTime = 0;
+    this.pendingIndex = 0;
+    this.emitIndex = 0;
+    this.bestOnsetTime = 0;
+    this.bestOnsetStrength = 0;
+    this.missedBeats = 0;
+    this.lastEmittedTime = -Infinity;
+    this.confidence = 0;
+    this.phaseHistogram.fill(0);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Beat Detection Worklet
+ * Runs the BeatDetector on raw microphone samples in the audio rendering thread, so frame times are
+ * sample-accurate and analysis keeps going when the tab is hidden or the display is throttled
+ * Beats are posted to the main thread with AudioContext-clock timestamps (ms)
+ */
+
+import { BeatDetector, BeatDetectionResult, DetectionTuning, TempoCandidate, TrackingStatus } from './beatDetector';
+
+// AudioWorkletGlobalScope isn't part of the DOM typings
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+): void;
+
+export interface BeatWorkletOptions extends Partial<DetectionTuning> {
+  inputLatency: number; // ms frames are back-dated by
+  predictionOffset: number;
+}
+
+// Main thread -> worklet; timestamps are AudioContext time in ms
+export type BeatWorkletCommand =
+  | { type: 'tuning'; tuning: Partial<DetectionTuning> }
+  | { type: 'latency'; inputLatency?: number; predictionOffset?: number }
+  | { type: 'manual-tempo'; bpm: number | null }
+  | { type: 'mark-downbeat'; timestamp: number }
+  | { type: 'release-manual' };
+
+// Worklet -> main thread
+export type BeatWorkletEvent =
+  | { type: 'beat'; result: BeatDetectionResult }
+  | { type: 'bpm'; bpm: number; candidates: TempoCandidate[]; confidence: number }
+  | { type: 'state'; status: TrackingStatus }
+  | { type: 'energy'; energy: number; timestamp: number };
+
+const PROCESSOR_NAME = 'beat-detector';
+const FRAME_SIZE = 2048; // Same as the analyser fftSize of the fallback path
+const FRAMES_PER_SECOND = 60; // Same cadence as the fallback and offline analysis, so tuning carries over
+
+class BeatDetectorProcessor extends AudioWorkletProcessor {
+  private detector: BeatDetector;
+  private inputLatency: number;
+  private readonly hop = Math.round(sampleRate / FRAMES_PER_SECOND);
+  private ring = new Float32Array(FRAME_SIZE); // Most recent samples, written circularly
+  private frame = new Float32Array(FRAME_SIZE); // Ring unrolled oldest-first for analysis
+  private writeIndex = 0;
+  private samplesSinceFrame = 0;
+  private samplesSeen = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super();
+    const { inputLatency, ...detectorOptions } = options.processorOptions as BeatWorkletOptions;
+    this.inputLatency = inputLatency;
+    this.detector = new BeatDetector(
+      {
+        onBeat: (result) => this.post({ type: 'beat', result }),
+        onBPMUpdate: (bpm, candidates, confidence) => this.post({ type: 'bpm', bpm, candidates, confidence }),
+        onStateChange: (status) => this.post({ type: 'state', status }),
+        onEnergy: (energy, timestamp) => this.post({ type: 'energy', energy, timestamp }),
+      },
+      { ...detectorOptions, sampleRate },
+    );
+    this.port.onmessage = (event: MessageEvent<BeatWorkletCommand>) => this.handleCommand(event.data);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true; // Input not connected yet
+
+    for (let i = 0; i < channel.length; i++) {
+      this.ring[this.writeIndex] = channel[i];
+      this.writeIndex = (this.writeIndex + 1) % FRAME_SIZE;
+      this.samplesSeen++;
+      if (++this.samplesSinceFrame < this.hop || this.samplesSeen < FRAME_SIZE) continue;
+      this.samplesSinceFrame = 0;
+
+      this.frame.set(this.ring.subarray(this.writeIndex));
+      this.frame.set(this.ring.subarray(0, this.writeIndex), FRAME_SIZE - this.writeIndex);
+      // Time of the frame's last sample, back-dated so beat times are when the music played
+      const time = ((currentFrame + i + 1) / sampleRate) * 1000 - this.inputLatency;
+      this.detector.processPCM(this.frame, time);
+    }
+    return true;
+  }
+
+  private handleCommand(command: BeatWorkletCommand): void {
+    switch (command.type) {
+      case 'tuning':
+        this.detector.setTuning(command.tuning);
+        break;
+      case 'latency':
+        if (command.inputLatency !== undefined) this.inputLatency = command.inputLatency;
+        if (command.predictionOffset !== undefined) this.detector.setPredictionOffset(command.predictionOffset);
+        break;
+      case 'manual-tempo':
+        this.detector.setManualTempo(command.bpm);
+        break;
+      case 'mark-downbeat':
+        this.detector.markDownbeat(command.timestamp);
+        break;
+      case 'release-manual':
+        this.detector.releaseManual();
+        break;
+    }
+  }
+
+  private post(event: BeatWorkletEvent): void {
+    this.port.postMessage(event);
+  }
+}
+
+registerProcessor(PROCESSOR_NAME, BeatDetectorProcessor);
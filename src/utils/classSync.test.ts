@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  BeatFollower,
+  ClassFollower,
+  ClassLeader,
+  ClassMessage,
+  ClockOffsetEstimator,
+  SyncTransport,
+  normalizeRelayUrl,
+  SyncTransportEvents,
+} from './classSync';
+
+const BPM = 120;
+const PERIOD = 500;
+
+describe('ClockOffsetEstimator', () => {
+  it('has no offset before the first sample', () => {
+    expect(new ClockOffsetEstimator().getOffset()).toBeNull();
+  });
+
+  it('recovers the offset from a symmetric round trip', () => {
+    const clock = new ClockOffsetEstimator();
+    // Leader is 5000 ms ahead, 20 ms each way
+    clock.addSample(1000, 6020, 1040);
+    expect(clock.getOffset()).toBe(5000);
+    expect(clock.getRoundTrip()).toBe(40);
+  });
+
+  it('trusts the fastest round trip over slow, lopsided ones', () => {
+    const clock = new ClockOffsetEstimator();
+    clock.addSample(1000, 6150, 1200); // 150 ms out, 50 ms back
+    clock.addSample(2000, 7010, 2020); // 10 ms each way
+    clock.addSample(3000, 8020, 3300); // 20 ms out, 280 ms back
+    expect(clock.getOffset()).toBe(5000);
+  });
+});
+
+describe('BeatFollower', () => {
+  it('keeps counting between messages', () => {
+    const follower = new BeatFollower();
+    follower.update(1000, 3, BPM, 900);
+    const beats = [1000, 1500, 2000, 2500].flatMap((now) => follower.advance(now));
+    expect(beats).toEqual([
+      { time: 1000, position: 3 },
+      { time: 1500, position: 4 },
+      { time: 2000, position: 5 },
+      { time: 2500, position: 6 },
+    ]);
+  });
+
+  it('wraps the count after 8', () => {
+    const follower = new BeatFollower();
+    follower.update(1000, 8, BPM, 900);
+    expect([1000, 1500].flatMap((now) => follower.advance(now)).map((beat) => beat.position)).toEqual([8, 1]);
+  });
+
+  it('emits early by the feedback lead', () => {
+    const follower = new BeatFollower(50);
+    follower.update(1000, 1, BPM, 900);
+    expect(follower.advance(949)).toEqual([]);
+    expect(follower.advance(950)).toEqual([{ time: 1000, position: 1 }]);
+  });
+
+  it('does not count a beat twice when its message arrives late', () => {
+    const follower = new BeatFollower();
+    follower.update(1000, 1, BPM, 900);
+    follower.advance(1000);
+    follower.advance(1500); // Counted 2 from the grid
+    // The instructor's beat 2 arrives after it was counted, slightly off the local grid
+    follower.update(1510, 2, BPM, 1560);
+    expect(follower.advance(1560)).toEqual([]);
+    expect(follower.advance(2010)).toEqual([{ time: 2010, position: 3 }]);
+  });
+
+  it('follows a realigned count from the instructor', () => {
+    const follower = new BeatFollower();
+    follower.update(1000, 1, BPM, 900);
+    follower.advance(1000);
+    follower.update(1500, 5, BPM, 1400);
+    expect(follower.advance(1500)).toEqual([{ time: 1500, position: 5 }]);
+  });
+
+  it('stops once the instructor goes quiet', () => {
+    const follower = new BeatFollower();
+    follower.update(1000, 1, BPM, 1000);
+    expect(follower.isFollowing(3000)).toBe(true);
+    expect(follower.advance(4100)).toEqual([]);
+    expect(follower.isFollowing(4100)).toBe(false);
+  });
+});
+
+describe('normalizeRelayUrl', () => {
+  it('adds the scheme a relay address was typed without', () => {
+    expect(normalizeRelayUrl('192.168.1.10:8787', false)).toBe('ws://192.168.1.10:8787');
+    expect(normalizeRelayUrl('relay.example.com', true)).toBe('wss://relay.example.com');
+  });
+
+  it('keeps WebSocket URLs and converts HTTP ones', () => {
+    expect(normalizeRelayUrl(' wss://relay.example.com:8787/ ', false)).toBe('wss://relay.example.com:8787');
+    expect(normalizeRelayUrl('http://192.168.1.10:8787', false)).toBe('ws://192.168.1.10:8787');
+  });
+
+  it('means no relay when empty and rejects what cannot be one', () => {
+    expect(normalizeRelayUrl('  ', false)).toBe('');
+    expect(normalizeRelayUrl('ftp://192.168.1.10', false)).toBeNull();
+    expect(normalizeRelayUrl('not a host:port', false)).toBeNull();
+  });
+});
+
+/**
+ * Devices in one room, delivering each message to the others after a fixed delay
+ */
+function createRoom(delay: number) {
+  const members = new Set<SyncTransportEvents>();
+  return (events: SyncTransportEvents): SyncTransport => {
+    members.add(events);
+    return {
+      send: (message: ClassMessage) => {
+        for (const member of members) {
+          if (member !== events) setTimeout(() => member.onMessage(message), delay);
+        }
+      },
+      close: () => {
+        members.delete(events);
+      },
+    };
+  };
+}
+
+describe('ClassLeader and ClassFollower', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('puts the instructor beats on the student clock', () => {
+    const CLOCK_OFFSET = 7000; // The instructor's clock reads this much more than the student's
+    const connect = createRoom(30);
+    const leaderNow = () => Date.now() + CLOCK_OFFSET;
+    const studentNow = () => Date.now();
+
+    const onStudentsChange = vi.fn();
+    const leader = new ClassLeader(connect, { onStudentsChange }, leaderNow);
+    const beats: Array<{ position: number; timestamp: number }> = [];
+    const onBPMUpdate = vi.fn();
+    const follower = new ClassFollower(connect, {
+      onBeat: (position, timestamp) => beats.push({ position, timestamp }),
+      onBPMUpdate,
+    }, 0, studentNow);
+
+    vi.advanceTimersByTime(2000); // A couple of pings
+    expect(follower.getClockOffset()).toBe(CLOCK_OFFSET);
+    expect(onStudentsChange).toHaveBeenLastCalledWith(1);
+
+    // The instructor announces beat 1, heard 250 ms from now
+    const start = Date.now();
+    leader.sendBeat(leaderNow() + 250, 1, BPM, 0.9);
+    vi.advanceTimersByTime(250 + 3 * PERIOD);
+
+    expect(onBPMUpdate).toHaveBeenCalledWith(BPM);
+    expect(beats.map((beat) => beat.position)).toEqual([1, 2, 3, 4]);
+    expect(beats[0].timestamp).toBe(start + 250);
+
+    follower.close();
+    leader.close();
+  });
+});
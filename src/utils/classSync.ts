@@ -0,0 +1,461 @@
+/**
+ * Class Sync
+ * Lets one device (the instructor's) be the timing master for a class: it broadcasts every beat
+ * with its tempo and count, and student devices follow it instead of their own microphones
+ * Students estimate the offset between their clock and the instructor's from ping round trips,
+ * then keep their own beat grid running between messages so network jitter never shows
+ */
+
+export type ClassRole = 'off' | 'instructor' | 'student';
+
+export type ClassMessage =
+  | { type: 'ping'; from: string; sentAt: number } // Student clock
+  | { type: 'pong'; to: string; sentAt: number; leaderTime: number } // Echoes sentAt, adds the instructor's clock
+  | { type: 'beat'; time: number; position: number; bpm: number; confidence: number } // time on the instructor's clock
+  | { type: 'stop' }; // The instructor stopped, or lost the beat
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * A room that delivers each message to every other device in it
+ */
+export interface SyncTransport {
+  send(message: ClassMessage): void;
+  close(): void;
+}
+
+export interface SyncTransportEvents {
+  onMessage: (message: ClassMessage) => void;
+  onStatusChange?: (status: ConnectionStatus) => void;
+}
+
+export interface ClassSettings {
+  role: ClassRole;
+  room: string;
+  relayUrl: string; // ws:// or wss:// address of scripts/classRelay.ts; empty to sync tabs of this browser only
+}
+
+const PING_INTERVAL = 1000; // ms between clock pings from a student
+const OFFSET_WINDOW = 16; // Pings kept for the offset estimate
+const FOLLOW_TIMEOUT = 3000; // ms without a beat before a student stops counting
+const STUDENT_TIMEOUT = 5000; // ms without a ping before the instructor stops counting a student
+const SCHEDULER_INTERVAL = 10; // ms between follower scheduler runs
+const RECONNECT_DELAY = 2000; // ms before a dropped relay connection is retried
+
+/**
+ * Offset from the local clock to the instructor's, NTP style
+ * Each ping gives offset = leaderTime - (sentAt + receivedAt) / 2, which is exact if the trip
+ * there and back took equally long; the fastest recent round trip has the least room for
+ * asymmetry, so that one is used
+ */
+export class ClockOffsetEstimator {
+  private samples: Array<{ offset: number; roundTrip: number }> = [];
+
+  addSample(sentAt: number, leaderTime: number, receivedAt: number): void {
+    const roundTrip = receivedAt - sentAt;
+    if (roundTrip < 0) return;
+    this.samples.push({ offset: leaderTime - (sentAt + receivedAt) / 2, roundTrip });
+    if (this.samples.length > OFFSET_WINDOW) this.samples.shift();
+  }
+
+  /**
+   * Instructor time minus local time (ms), or null before the first pong
+   */
+  getOffset(): number | null {
+    return this.best()?.offset ?? null;
+  }
+
+  getRoundTrip(): number | null {
+    return this.best()?.roundTrip ?? null;
+  }
+
+  reset(): void {
+    this.samples = [];
+  }
+
+  private best() {
+    let best: { offset: number; roundTrip: number } | null = null;
+    for (const sample of this.samples) {
+      if (!best || sample.roundTrip < best.roundTrip) best = sample;
+    }
+    return best;
+  }
+}
+
+export interface FollowedBeat {
+  time: number; // Local clock, when the beat is heard
+  position: number; // 1-8
+}
+
+/**
+ * The student's own beat grid, re-anchored on every beat from the instructor
+ */
+export class BeatFollower {
+  private anchorTime = 0; // Local time of the last instructor beat
+  private anchorPosition = 0;
+  private period = 0; // ms per beat, 0 while not following
+  private nextIndex = 1; // Next beat to emit, counted from the anchor
+  private lastEmittedTime = -Infinity;
+  private lastMessageAt = -Infinity;
+  private readonly lead: number;
+
+  /**
+   * @param lead Emit beats this many ms early, so the count is perceived on time
+   */
+  constructor(lead = 0) {
+    this.lead = lead;
+  }
+
+  /**
+   * Take a beat from the instructor, already converted to local time
+   */
+  update(time: number, position: number, bpm: number, receivedAt: number): void {
+    this.lastMessageAt = receivedAt;
+    this.period = bpm > 0 ? 60000 / bpm : 0;
+    this.anchorTime = time;
+    this.anchorPosition = position;
+    if (this.period <= 0) return;
+    // Carry on from the first beat the grid hasn't emitted yet; a late message can arrive after
+    // the beat it announces, or even the next one, was already counted
+    this.nextIndex = 0;
+    while (this.beatTime(this.nextIndex) - this.lastEmittedTime <= this.period / 2) {
+      this.nextIndex++;
+    }
+  }
+
+  stop(): void {
+    this.period = 0;
+    this.lastEmittedTime = -Infinity;
+  }
+
+  isFollowing(now: number): boolean {
+    return this.period > 0 && now - this.lastMessageAt < FOLLOW_TIMEOUT;
+  }
+
+  getBPM(): number {
+    return this.period > 0 ? 60000 / this.period : 0;
+  }
+
+  /**
+   * Beats due by now
+   */
+  advance(now: number): FollowedBeat[] {
+    if (this.period <= 0) return [];
+    if (!this.isFollowing(now)) {
+      this.stop();
+      return [];
+    }
+    const beats: FollowedBeat[] = [];
+    while (now >= this.beatTime(this.nextIndex) - this.lead) {
+      const time = this.beatTime(this.nextIndex);
+      // Skip beats that are badly late, e.g. after the tab was in the background
+      if (now - time < this.period / 2) {
+        beats.push({ time, position: ((this.anchorPosition - 1 + this.nextIndex) % 8 + 8) % 8 + 1 });
+        this.lastEmittedTime = time;
+      }
+      this.nextIndex++;
+    }
+    return beats;
+  }
+
+  private beatTime(index: number): number {
+    return this.anchorTime + index * this.period;
+  }
+}
+
+export interface ClassLeaderCallbacks {
+  onStudentsChange?: (count: number) => void;
+  onStatusChange?: (status: ConnectionStatus) => void;
+}
+
+/**
+ * The instructor's side: answers clock pings and broadcasts beats
+ */
+export class ClassLeader {
+  private readonly transport: SyncTransport;
+  private readonly callbacks: ClassLeaderCallbacks;
+  private readonly now: () => number;
+  private students = new Map<string, number>(); // Student ID → last ping, local time
+  private pruneId: number | null = null;
+
+  constructor(
+    connect: (events: SyncTransportEvents) => SyncTransport,
+    callbacks: ClassLeaderCallbacks = {},
+    now: () => number = () => performance.now(),
+  ) {
+    this.callbacks = callbacks;
+    this.now = now;
+    this.transport = connect({
+      onMessage: (message) => this.handleMessage(message),
+      onStatusChange: callbacks.onStatusChange,
+    });
+    this.pruneId = window.setInterval(() => this.pruneStudents(), STUDENT_TIMEOUT / 2);
+  }
+
+  /**
+   * Share a beat the instructor's device counted
+   * @param time When the beat is heard, on this device's performance.now() clock
+   */
+  sendBeat(time: number, position: number, bpm: number, confidence: number): void {
+    if (bpm <= 0) return;
+    this.transport.send({ type: 'beat', time, position, bpm, confidence });
+  }
+
+  sendStop(): void {
+    this.transport.send({ type: 'stop' });
+  }
+
+  close(): void {
+    this.sendStop();
+    if (this.pruneId !== null) {
+      clearInterval(this.pruneId);
+      this.pruneId = null;
+    }
+    this.transport.close();
+  }
+
+  private handleMessage(message: ClassMessage): void {
+    if (message.type !== 'ping') return;
+    this.transport.send({ type: 'pong', to: message.from, sentAt: message.sentAt, leaderTime: this.now() });
+    const isNew = !this.students.has(message.from);
+    this.students.set(message.from, this.now());
+    if (isNew) this.callbacks.onStudentsChange?.(this.students.size);
+  }
+
+  private pruneStudents(): void {
+    const cutoff = this.now() - STUDENT_TIMEOUT;
+    let changed = false;
+    for (const [id, lastPing] of this.students) {
+      if (lastPing < cutoff) {
+        this.students.delete(id);
+        changed = true;
+      }
+    }
+    if (changed) this.callbacks.onStudentsChange?.(this.students.size);
+  }
+}
+
+export interface ClassFollowerCallbacks {
+  onBeat: (position: number, timestamp: number) => void; // 1-8 count position, local time the beat is heard
+  onBPMUpdate?: (bpm: number) => void;
+  onFollowingChange?: (following: boolean) => void; // Beats from the instructor started or stopped arriving
+  onStatusChange?: (status: ConnectionStatus) => void;
+}
+
+/**
+ * The student's side: keeps the clock offset up to date and counts along with the instructor
+ */
+export class ClassFollower {
+  private readonly transport: SyncTransport;
+  private readonly callbacks: ClassFollowerCallbacks;
+  private readonly now: () => number;
+  private readonly id = Math.random().toString(36).slice(2, 10);
+  private readonly clock = new ClockOffsetEstimator();
+  private readonly follower: BeatFollower;
+  private pingId: number | null = null;
+  private schedulerId: number | null = null;
+  private following = false;
+  private bpm = 0;
+
+  /**
+   * @param feedbackLead ms this device's count display and vibration are perceived late
+   */
+  constructor(
+    connect: (events: SyncTransportEvents) => SyncTransport,
+    callbacks: ClassFollowerCallbacks,
+    feedbackLead = 0,
+    now: () => number = () => performance.now(),
+  ) {
+    this.callbacks = callbacks;
+    this.now = now;
+    this.follower = new BeatFollower(feedbackLead);
+    this.transport = connect({
+      onMessage: (message) => this.handleMessage(message),
+      onStatusChange: (status) => {
+        // A new connection may reach a different path to the instructor
+        if (status === 'connected') this.clock.reset();
+        callbacks.onStatusChange?.(status);
+      },
+    });
+    this.ping();
+    this.pingId = window.setInterval(() => this.ping(), PING_INTERVAL);
+    this.schedulerId = window.setInterval(() => this.tick(), SCHEDULER_INTERVAL);
+  }
+
+  close(): void {
+    if (this.pingId !== null) clearInterval(this.pingId);
+    if (this.schedulerId !== null) clearInterval(this.schedulerId);
+    this.pingId = null;
+    this.schedulerId = null;
+    this.transport.close();
+  }
+
+  /**
+   * Instructor time minus local time (ms), or null until measured
+   */
+  getClockOffset(): number | null {
+    return this.clock.getOffset();
+  }
+
+  getRoundTrip(): number | null {
+    return this.clock.getRoundTrip();
+  }
+
+  private ping(): void {
+    this.transport.send({ type: 'ping', from: this.id, sentAt: this.now() });
+  }
+
+  private handleMessage(message: ClassMessage): void {
+    switch (message.type) {
+      case 'pong':
+        if (message.to === this.id) this.clock.addSample(message.sentAt, message.leaderTime, this.now());
+        break;
+      case 'beat': {
+        const offset = this.clock.getOffset();
+        // Can't place the beat on the local clock yet
+        if (offset === null) return;
+        this.follower.update(message.time - offset, message.position, message.bpm, this.now());
+        if (message.bpm !== this.bpm) {
+          this.bpm = message.bpm;
+          this.callbacks.onBPMUpdate?.(message.bpm);
+        }
+        this.tick();
+        break;
+      }
+      case 'stop':
+        this.follower.stop();
+        this.tick();
+        break;
+    }
+  }
+
+  private tick(): void {
+    const now = this.now();
+    for (const beat of this.follower.advance(now)) {
+      this.callbacks.onBeat(beat.position, beat.time);
+    }
+    const following = this.follower.isFollowing(now);
+    if (following !== this.following) {
+      this.following = following;
+      if (!following) this.bpm = 0;
+      this.callbacks.onFollowingChange?.(following);
+    }
+  }
+}
+
+/**
+ * Relay connection through scripts/classRelay.ts, reconnecting when it drops
+ */
+export function connectWebSocket(url: string, room: string, events: SyncTransportEvents): SyncTransport {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let retryId: number | null = null;
+
+  const open = () => {
+    events.onStatusChange?.('connecting');
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(`${url.replace(/\/+$/, '')}/${encodeURIComponent(room)}`);
+    } catch (err) {
+      // A malformed address, or ws:// from an HTTPS page; the panel shows it as disconnected
+      console.warn('Could not connect to the class relay:', err);
+      events.onStatusChange?.('disconnected');
+      if (!closed) retryId = window.setTimeout(open, RECONNECT_DELAY);
+      return;
+    }
+    socket = ws;
+    ws.onopen = () => events.onStatusChange?.('connected');
+    ws.onmessage = (event) => {
+      try {
+        events.onMessage(JSON.parse(event.data as string) as ClassMessage);
+      } catch (err) {
+        console.warn('Ignoring a malformed class message:', err);
+      }
+    };
+    ws.onclose = () => {
+      socket = null;
+      events.onStatusChange?.('disconnected');
+      if (!closed) retryId = window.setTimeout(open, RECONNECT_DELAY);
+    };
+  };
+  open();
+
+  return {
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      if (retryId !== null) clearTimeout(retryId);
+      socket?.close();
+    },
+  };
+}
+
+/**
+ * Same-browser rooms over a BroadcastChannel, for trying class mode with two tabs and no server
+ */
+export function connectBroadcastChannel(room: string, events: SyncTransportEvents): SyncTransport {
+  const channel = new BroadcastChannel(`baila-beat:class:${room}`);
+  channel.onmessage = (event: MessageEvent<ClassMessage>) => events.onMessage(event.data);
+  // Nothing to wait for; hold the status back until the caller has its transport
+  queueMicrotask(() => events.onStatusChange?.('connected'));
+  return {
+    send: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
+
+/**
+ * A relay address as typed, made into a WebSocket URL: "192.168.1.10:8787" gets ws:// added
+ * (wss:// on an HTTPS page) and http(s):// becomes ws(s)://
+ * @returns The URL, '' for no relay, or null if it can't be a relay address
+ */
+export function normalizeRelayUrl(input: string, secure = typeof location !== 'undefined' && location.protocol === 'https:'): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return '';
+  const withScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed)
+    ? trimmed.replace(/^http(s?):\/\//i, 'ws$1://')
+    : `${secure ? 'wss' : 'ws'}://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    if (url.protocol !== 'ws:' && url.protocol !== 'wss:') return null;
+    return withScheme.replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The transport for the configured room: the relay if one is set, otherwise this browser only
+ */
+export function classTransport(settings: ClassSettings): (events: SyncTransportEvents) => SyncTransport {
+  const room = settings.room.trim().toLowerCase();
+  return settings.relayUrl.trim()
+    ? (events) => connectWebSocket(settings.relayUrl.trim(), room, events)
+    : (events) => connectBroadcastChannel(room, events);
+}
+
+const STORAGE_KEY = 'baila-beat:class';
+
+export function loadClassSettings(): ClassSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      // Always start a visit with class mode off; only the room and relay are remembered
+      const parsed = JSON.parse(stored) as Partial<ClassSettings>;
+      return { role: 'off', room: parsed.room ?? '', relayUrl: parsed.relayUrl ?? '' };
+    }
+  } catch {
+    // Fall through to no class
+  }
+  return { role: 'off', room: '', relayUrl: '' };
+}
+
+export function saveClassSettings(settings: ClassSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ room: settings.room, relayUrl: settings.relayUrl }));
+  } catch (err) {
+    console.warn('Failed to store class settings:', err);
+  }
+}
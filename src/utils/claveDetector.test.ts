@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ClaveDetector } from './claveDetector';
+import { OnsetFrame } from './onsetDetector';
+
+const PERIOD = 330; // ms, about 180 BPM
+const FRAME = 10; // ms between frames, like a detector frame hop
+const START = 1000;
+const HIGH_BAND = 3;
+
+// Eighth-note slots over the 8-count of each clave, slot 0 = "the 1"
+const SON_32 = [0, 3, 6, 10, 12];
+const SON_23 = [2, 4, 8, 11, 14];
+const RUMBA_32 = [0, 3, 7, 10, 12];
+
+function frame(flux: number): OnsetFrame {
+  const bandFlux = [0, 0, 0, 0];
+  bandFlux[HIGH_BAND] = flux;
+  return { strength: flux, isOnset: flux > 0.5, bandFlux, bandOnsets: bandFlux.map((v) => v > 0.5), bandEnergy: [0, 0, 0, 0] };
+}
+
+/**
+ * Feed a clave pattern to the detector: a beat every PERIOD and a high-band hit on each clave slot
+ * @param firstIndex - Tracker index of the first beat, which is "the 1"
+ */
+function run(slots: number[], cycles: number, firstIndex = 0): ClaveDetector {
+  const detector = new ClaveDetector({ highBandIndex: HIGH_BAND });
+  const hits: number[] = [];
+  for (let cycle = 0; cycle < cycles; cycle++) {
+    for (const slot of slots) hits.push(START + (cycle * 8 + slot / 2) * PERIOD);
+  }
+  const beats = cycles * 8;
+  let nextBeat = 0;
+  for (let now = 0; now <= START + (beats + 1) * PERIOD; now += FRAME) {
+    while (nextBeat < beats && START + nextBeat * PERIOD <= now) {
+      detector.addBeat(START + nextBeat * PERIOD, firstIndex + nextBeat);
+      nextBeat++;
+    }
+    const hit = hits.some((time) => Math.abs(time - now) < FRAME);
+    detector.addFrame(now, frame(hit ? 1 : 0.02));
+  }
+  return detector;
+}
+
+describe('ClaveDetector', () => {
+  it('reads son clave played 3-2', () => {
+    const detector = run(SON_32, 4);
+
+    expect(detector.read(0, 0)).toMatchObject({ pattern: 'son', direction: '3-2', side: 3 });
+    expect(detector.read(5, 0)).toMatchObject({ pattern: 'son', direction: '3-2', side: 2 });
+    expect(detector.read(0, 0)!.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('reads son clave played 2-3', () => {
+    const detector = run(SON_23, 4);
+
+    expect(detector.read(0, 0)).toMatchObject({ pattern: 'son', direction: '2-3', side: 2 });
+    expect(detector.read(4, 0)).toMatchObject({ pattern: 'son', direction: '2-3', side: 3 });
+  });
+
+  it('tells the rumba clave from son by its late third stroke', () => {
+    const detector = run(RUMBA_32, 4);
+
+    expect(detector.read(0, 0)).toMatchObject({ pattern: 'rumba', direction: '3-2' });
+  });
+
+  it('reads the direction against the count, wherever the count starts', () => {
+    // The same son 3-2, but "the 1" is tracker beat 3
+    const detector = run(SON_32, 4, 3);
+
+    expect(detector.read(3, 3)).toMatchObject({ direction: '3-2', side: 3 });
+    // Counted from the other bar, the same clave is 2-3
+    expect(detector.read(3, 7)).toMatchObject({ direction: '2-3', side: 3 });
+  });
+
+  it('points to bar starts but leaves the two bars of the count undecided', () => {
+    const evidence = run(SON_32, 4).getPhaseEvidence();
+    const best = Math.max(...evidence);
+
+    expect(evidence[0]).toBeCloseTo(best, 6);
+    expect(evidence[4]).toBeCloseTo(best, 6);
+    for (const candidate of [1, 2, 3, 5, 6, 7]) {
+      expect(evidence[candidate]).toBeLessThan(best * 0.8);
+    }
+  });
+
+  it('stays quiet until two cycles are heard, and without a clave', () => {
+    expect(run(SON_32, 1).read(0, 0)).toBeNull();
+    expect(run(SON_32, 1).getPhaseEvidence()).toEqual(new Array(8).fill(0));
+    // A hit on every eighth note is steady, not a clave
+    expect(run([...Array(16).keys()], 4).read(0, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Clave Detector
+ * Finds the son or rumba clave in the high-frequency percussive onsets, classifies its direction
+ * (2-3 / 3-2) relative to the count, and scores which beats can be bar starts so it can
+ * reinforce downbeat estimation
+ */
+
+import { OnsetFrame } from './onsetDetector';
+import { mod, standardize } from './numeric';
+
+export type ClavePattern = 'son' | 'rumba';
+export type ClaveDirection = '3-2' | '2-3';
+
+export interface ClaveReading {
+  pattern: ClavePattern;
+  direction: ClaveDirection; // Relative to the current count: 3-2 means the 3-side starts on "the 1"
+  side: 2 | 3; // Side of the clave the beat's bar is on
+  confidence: number; // 0-1
+}
+
+export interface ClaveDetectorOptions {
+  highBandIndex?: number; // Which onset band carries claves/sticks
+  decay?: number; // Per-beat decay of the accumulated pattern
+}
+
+interface PendingBeat {
+  time: number;
+  index: number;
+  period: number;
+}
+
+interface ClaveTemplate {
+  pattern: ClavePattern;
+  direction: ClaveDirection;
+  slots: number[];
+}
+
+const SLOTS_PER_BEAT = 2; // Clave hits fall on eighth notes
+const BEATS_PER_CYCLE = 8; // One clave cycle spans the two bars of an 8-count
+const SLOTS = SLOTS_PER_BEAT * BEATS_PER_CYCLE;
+
+// Eighth-note slots over the 8-count, slot 0 = "the 1"
+const CLAVE_TEMPLATES: ClaveTemplate[] = [
+  { pattern: 'son', direction: '3-2', slots: [0, 3, 6, 10, 12] },
+  { pattern: 'rumba', direction: '3-2', slots: [0, 3, 7, 10, 12] },
+  { pattern: 'son', direction: '2-3', slots: [2, 4, 8, 11, 14] },
+  { pattern: 'rumba', direction: '2-3', slots: [2, 4, 8, 11, 15] },
+];
+
+const MIN_BEATS = 16; // Two full clave cycles before reporting
+const MIN_CORRELATION = 0.5; // Below this the high band doesn't look like a clave
+
+export class ClaveDetector {
+  private readonly highBandIndex: number;
+  private readonly decay: number;
+  private pendingBeats: PendingBeat[] = [];
+  private recentFrames: Array<{ time: number; flux: number }> = [];
+  private lastBeatTime = 0;
+  private histogram = new Array<number>(SLOTS).fill(0);
+  private beatsSeen = 0;
+
+  constructor(options: ClaveDetectorOptions = {}) {
+    this.highBandIndex = options.highBandIndex ?? 3;
+    this.decay = options.decay ?? 0.97;
+  }
+
+  /**
+   * Register a beat from the tracker; its two eighth-note slots are scored once it has passed
+   */
+  addBeat(time: number, index: number): void {
+    const period = this.lastBeatTime > 0 ? time - this.lastBeatTime : 0;
+    this.lastBeatTime = time;
+    if (period <= 0) return;
+    this.pendingBeats.push({ time, index, period });
+  }
+
+  /**
+   * Process one analysis frame
+   * @param time - Frame time in milliseconds
+   */
+  addFrame(time: number, onset: OnsetFrame): void {
+    this.recentFrames.push({ time, flux: onset.bandFlux[this.highBandIndex] ?? 0 });
+    while (this.recentFrames.length > 0 && time - this.recentFrames[0].time > 2000) {
+      this.recentFrames.shift();
+    }
+
+    while (this.pendingBeats.length > 0 && time >= this.pendingBeats[0].time + this.pendingBeats[0].period) {
+      this.finalizeBeat(this.pendingBeats.shift()!);
+    }
+  }
+
+  /**
+   * Evidence for each beat index (mod 8) being "the 1"
+   * The clave fixes where bars start but not which of the two bars comes first,
+   * so candidates four beats apart score the same
+   */
+  getPhaseEvidence(): number[] {
+    const evidence = new Array<number>(BEATS_PER_CYCLE).fill(0);
+    if (!this.isReady()) return evidence;
+
+    const standardized = standardize(this.histogram);
+    for (let candidate = 0; candidate < BEATS_PER_CYCLE; candidate++) {
+      let best = -Infinity;
+      for (const template of CLAVE_TEMPLATES) {
+        best = Math.max(best, correlate(standardized, template, candidate * SLOTS_PER_BEAT));
+      }
+      evidence[candidate] = Math.max(0, best);
+    }
+    return evidence;
+  }
+
+  /**
+   * Clave reading for a beat, given the beat index that is currently "the 1"
+   * Returns null until a clave has been heard clearly
+   */
+  read(index: number, downbeatIndex: number): ClaveReading | null {
+    if (!this.isReady()) return null;
+
+    const standardized = standardize(this.histogram);
+    const rotation = mod(downbeatIndex, BEATS_PER_CYCLE) * SLOTS_PER_BEAT;
+    let bestTemplate = CLAVE_TEMPLATES[0];
+    let bestScore = -Infinity;
+    for (const template of CLAVE_TEMPLATES) {
+      const score = correlate(standardized, template, rotation);
+      if (score > bestScore) {
+        bestScore = score;
+        bestTemplate = template;
+      }
+    }
+    if (bestScore < MIN_CORRELATION) return null;
+
+    // First bar of the count is positions 1-4, second bar 5-8
+    const firstBar = mod(index - downbeatIndex, BEATS_PER_CYCLE) < BEATS_PER_CYCLE / 2;
+    const firstSide = bestTemplate.direction === '3-2' ? 3 : 2;
+    return {
+      pattern: bestTemplate.pattern,
+      direction: bestTemplate.direction,
+      side: firstBar ? firstSide : firstSide === 3 ? 2 : 3,
+      confidence: Math.min(1, (bestScore - MIN_CORRELATION) / (1 - MIN_CORRELATION)),
+    };
+  }
+
+  reset(): void {
+    this.pendingBeats = [];
+    this.recentFrames = [];
+    this.lastBeatTime = 0;
+    this.histogram.fill(0);
+    this.beatsSeen = 0;
+  }
+
+  private isReady(): boolean {
+    return this.beatsSeen >= MIN_BEATS;
+  }
+
+  private finalizeBeat(beat: PendingBeat): void {
+    for (let i = 0; i < this.histogram.length; i++) {
+      this.histogram[i] *= this.decay;
+    }
+
+    // Strongest high-band flux around the beat and around its "and"
+    const slotWidth = beat.period / SLOTS_PER_BEAT;
+    for (let half = 0; half < SLOTS_PER_BEAT; half++) {
+      const slotTime = beat.time + half * slotWidth;
+      let peak = 0;
+      for (const frame of this.recentFrames) {
+        if (Math.abs(frame.time - slotTime) <= slotWidth * 0.3) {
+          peak = Math.max(peak, frame.flux);
+        }
+      }
+      this.histogram[mod(beat.index, BEATS_PER_CYCLE) * SLOTS_PER_BEAT + half] += peak;
+    }
+    this.beatsSeen++;
+  }
+}
+
+/**
+ * Pearson correlation between the standardized histogram and a template rotated so its slot 0
+ * lands on histogram slot `rotation`
+ */
+function correlate(standardized: number[], template: ClaveTemplate, rotation: number): number {
+  const mean = template.slots.length / SLOTS;
+  const deviation = Math.sqrt(mean * (1 - mean));
+  let sum = 0;
+  for (let slot = 0; slot < SLOTS; slot++) {
+    const value = template.slots.includes(slot) ? 1 : 0;
+    sum += ((value - mean) / deviation) * standardized[(slot + rotation) % SLOTS];
+  }
+  return sum / SLOTS;
+}
@@ -0,0 +1,21 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { VOICE_PACKS } from './countCues';
+
+const spokenPacks = Object.values(VOICE_PACKS).filter((pack) => pack.samplePath !== null);
+
+describe('voice packs', () => {
+  it.each(spokenPacks.map((pack) => [pack.name, pack] as const))('ships a recording for every %s word', (_, pack) => {
+    for (const word of [...pack.words, pack.andWord]) {
+      // The URL the player fetches, served from public/
+      const url = `${pack.samplePath}${encodeURIComponent(word)}.wav`;
+      const bytes = readFileSync(join('public', decodeURIComponent(url)));
+      const text = (start: number) => String.fromCharCode(...bytes.subarray(start, start + 4));
+
+      expect(text(0), url).toBe('RIFF');
+      expect(text(8), url).toBe('WAVE');
+      expect(bytes.length, url).toBeGreaterThan(44 + 2000); // More than a header and a blip
+    }
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Count Cues
+ * Speaks or plays the count on each beat through its own audio channel, scheduled ahead on the
+ * AudioContext clock so cues land on the predicted beat rather than after it
+ */
+
+import { CountStep } from './countingScheme';
+import { contextTimeAt } from './audioClock';
+
+export type VoicePackId = 'tones' | 'spanish' | 'english';
+
+export interface VoicePack {
+  id: VoicePackId;
+  name: string;
+  words: string[]; // Word for each count position, index 0 = "the 1"
+  andWord: string; // Half-beat call (e.g. cha-cha's "4-and-5")
+  samplePath: string | null; // Folder under public/ with one recording per word (`<word>.wav`), null for synthesized tones
+}
+
+export interface CountCueOptions {
+  voicePack?: VoicePackId;
+  volume?: number; // 0-1 level of the cues
+  ducking?: number; // 0-1 how far music we play ourselves is lowered under each cue
+  onDuck?: (timestamp: number, depth: number, duration: number) => void; // Lower the music at a performance.now() time (ms)
+}
+
+export const VOICE_PACKS: Record<VoicePackId, VoicePack> = {
+  tones: {
+    id: 'tones',
+    name: 'Tones',
+    words: ['1', '2', '3', '4', '5', '6', '7', '8'],
+    andWord: 'and',
+    samplePath: null,
+  },
+  spanish: {
+    id: 'spanish',
+    name: 'Español',
+    words: ['uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho'],
+    andWord: 'y',
+    samplePath: '/voices/es/',
+  },
+  english: {
+    id: 'english',
+    name: 'English',
+    words: ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight'],
+    andWord: 'and',
+    samplePath: '/voices/en/',
+  },
+};
+
+const CUE_DURATION = 250; // ms the music is ducked for each cue
+const MIN_LEAD = 0.01; // Cues due sooner than this (s) are too late to schedule
+const RESCHEDULE_WINDOW = 0.1; // A cue this close (s) to a pending one replaces it
+
+interface ScheduledCue {
+  time: number; // AudioContext time
+  nodes: AudioScheduledSourceNode[];
+}
+
+export class CountCuePlayer {
+  private audioContext: AudioContext | null = null;
+  private output: GainNode | null = null;
+  private voicePack: VoicePack;
+  private volume: number;
+  private ducking: number;
+  private onDuck?: CountCueOptions['onDuck'];
+  private samples = new Map<string, AudioBuffer>();
+  private pending: ScheduledCue | null = null;
+
+  constructor(options: CountCueOptions = {}) {
+    this.voicePack = VOICE_PACKS[options.voicePack ?? 'tones'];
+    this.volume = options.volume ?? 0.8;
+    this.ducking = options.ducking ?? 0.5;
+    this.onDuck = options.onDuck;
+  }
+
+  /**
+   * Create the audio context (call from a user gesture) and load the voice pack
+   */
+  async start(): Promise<void> {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+      this.output = this.audioContext.createGain();
+      this.output.gain.value = this.volume;
+      this.output.connect(this.audioContext.destination);
+    }
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+    await this.loadSamples();
+  }
+
+  /**
+   * Schedule the cue for a beat that hasn't happened yet
+   * @param timestamp - Predicted beat time (performance.now() clock, ms)
+   * @param position - 1-8 count position of that beat
+   * @param step - How the position is called in the counting scheme
+   * @param interval - Beat interval in ms, to place half-beat calls
+   */
+  scheduleBeat(timestamp: number, position: number, step: CountStep, interval: number): void {
+    if (!this.audioContext || !this.output) return;
+
+    const time = contextTimeAt(this.audioContext, timestamp);
+    if (time < this.audioContext.currentTime + MIN_LEAD) return;
+
+    // A newer prediction for the same beat (e.g. after a re-alignment) replaces the pending cue
+    if (this.pending && Math.abs(this.pending.time - time) < RESCHEDULE_WINDOW) {
+      if (this.pending.time > this.audioContext.currentTime) {
+        this.pending.nodes.forEach((node) => node.stop());
+      } else {
+        return;
+      }
+    }
+
+    const nodes: AudioScheduledSourceNode[] = [];
+    if (step.rest) {
+      nodes.push(...this.playDash(time));
+    } else {
+      nodes.push(...this.playWord(time, this.voicePack.words[position - 1], step));
+    }
+    step.subdivisions.forEach((_, i) => {
+      const subdivisionTime = time + (interval / 1000) * ((i + 1) / (step.subdivisions.length + 1));
+      nodes.push(...this.playWord(subdivisionTime, this.voicePack.andWord, null));
+    });
+    this.pending = { time, nodes };
+
+    if (this.ducking > 0) {
+      this.onDuck?.(timestamp, this.ducking, CUE_DURATION);
+    }
+  }
+
+  async setVoicePack(id: VoicePackId): Promise<void> {
+    this.voicePack = VOICE_PACKS[id];
+    await this.loadSamples();
+  }
+
+  setVolume(volume: number): void {
+    this.volume = Math.max(0, Math.min(1, volume));
+    if (this.output) {
+      this.output.gain.value = this.volume;
+    }
+  }
+
+  setDucking(ducking: number): void {
+    this.ducking = Math.max(0, Math.min(1, ducking));
+  }
+
+  dispose(): void {
+    this.pending = null;
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+      this.output = null;
+    }
+  }
+
+  /**
+   * Fetch and decode the current pack's recordings
+   * Missing recordings fall back to synthesized tones
+   */
+  private async loadSamples(): Promise<void> {
+    const pack = this.voicePack;
+    const context = this.audioContext;
+    if (!pack.samplePath || !context) return;
+
+    await Promise.all(
+      [...pack.words, pack.andWord].map(async (word) => {
+        const key = `${pack.id}/${word}`;
+        if (this.samples.has(key)) return;
+        try {
+          const response = await fetch(`${pack.samplePath}${encodeURIComponent(word)}.wav`);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          this.samples.set(key, await context.decodeAudioData(await response.arrayBuffer()));
+        } catch (err) {
+          console.warn(`No recording for "${word}" in the ${pack.name} voice pack, using a tone:`, err);
+        }
+      }),
+    );
+  }
+
+  /**
+   * A recorded word, or a pitched blip whose pitch follows the accent
+   * @param step - Step being called, or null for a half-beat call
+   */
+  private playWord(time: number, word: string, step: CountStep | null): AudioScheduledSourceNode[] {
+    const sample = this.samples.get(`${this.voicePack.id}/${word}`);
+    if (sample && this.audioContext && this.output) {
+      const source = this.audioContext.createBufferSource();
+      source.buffer = sample;
+      source.connect(this.output);
+      source.start(time);
+      return [source];
+    }
+
+    if (!step) return [this.playTone(time, 1320, 0.04, 0.4)];
+    const frequency = step.accent === 'strong' ? 1046.5 : step.accent === 'medium' ? 880 : 784;
+    return [this.playTone(time, frequency, 0.09, step.accent === 'weak' ? 0.6 : 0.9)];
+  }
+
+  /**
+   * Soft low tick for rests, so the dash is felt without sounding like a step
+   */
+  private playDash(time: number): AudioScheduledSourceNode[] {
+    return [this.playTone(time, 330, 0.05, 0.3)];
+  }
+
+  private playTone(time: number, frequency: number, duration: number, level: number): AudioScheduledSourceNode {
+    const context = this.audioContext!;
+    const oscillator = context.createOscillator();
+    oscillator.frequency.value = frequency;
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0.0001, time);
+    gain.gain.exponentialRampToValueAtTime(level, time + 0.004);
+    gain.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+    oscillator.connect(gain);
+    gain.connect(this.output!);
+    oscillator.start(time);
+    oscillator.stop(time + duration + 0.01);
+    return oscillator;
+  }
+}
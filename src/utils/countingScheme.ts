@@ -0,0 +1,134 @@
+/**
+ * Counting Schemes
+ * Describes how each position of the 8-count is called, accented, stepped and felt for a dance style
+ */
+
+export type CountingSchemeId = 'on1' | 'on2' | 'bachata' | 'cha-cha' | 'merengue';
+export type BeatAccent = 'strong' | 'medium' | 'weak';
+export type HapticPattern = number | number[]; // Vibration API pattern (ms)
+
+export interface CountStep {
+  label: string; // What the counter shows for this position
+  accent: BeatAccent;
+  rest: boolean; // No step on this beat (shown as a dash)
+  subdivisions: string[]; // Calls on the half beats after this beat, e.g. "and" for cha-cha's "4-and-5"
+  haptic: HapticPattern | null; // Vibration on the beat, null for none
+}
+
+export interface CountingScheme {
+  id: CountingSchemeId;
+  name: string;
+  description: string;
+  steps: CountStep[]; // One per count position, index 0 = "the 1"
+  subdivisionHaptic: HapticPattern | null; // Vibration on each subdivision
+}
+
+const STRONG_HAPTIC: HapticPattern = [120, 30, 120];
+const BEAT_HAPTIC: HapticPattern = 80;
+const TAP_HAPTIC: HapticPattern = [40, 30, 40];
+const SUBDIVISION_HAPTIC: HapticPattern = 40;
+
+function step(label: string, accent: BeatAccent, options: Partial<Omit<CountStep, 'label' | 'accent'>> = {}): CountStep {
+  const rest = options.rest ?? false;
+  const defaultHaptic = rest ? null : accent === 'strong' ? STRONG_HAPTIC : BEAT_HAPTIC;
+  return {
+    label: rest ? '—' : label,
+    accent,
+    rest,
+    subdivisions: options.subdivisions ?? [],
+    haptic: options.haptic !== undefined ? options.haptic : defaultHaptic,
+  };
+}
+
+export const COUNTING_SCHEMES: Record<CountingSchemeId, CountingScheme> = {
+  on1: {
+    id: 'on1',
+    name: 'Salsa On1',
+    description: 'Break on 1 and 5, pause on 4 and 8',
+    steps: [
+      step('1', 'strong'),
+      step('2', 'weak'),
+      step('3', 'weak'),
+      step('4', 'weak', { rest: true }),
+      step('5', 'medium'),
+      step('6', 'weak'),
+      step('7', 'weak'),
+      step('8', 'weak', { rest: true }),
+    ],
+    subdivisionHaptic: null,
+  },
+  on2: {
+    id: 'on2',
+    name: 'Salsa On2 (mambo)',
+    description: 'Break on 2 and 6, pause on 4 and 8',
+    steps: [
+      step('1', 'medium'),
+      step('2', 'strong'),
+      step('3', 'weak'),
+      step('4', 'weak', { rest: true }),
+      step('5', 'weak'),
+      step('6', 'strong'),
+      step('7', 'weak'),
+      step('8', 'weak', { rest: true }),
+    ],
+    subdivisionHaptic: null,
+  },
+  bachata: {
+    id: 'bachata',
+    name: 'Bachata',
+    description: 'Three steps and a tap on 4 and 8',
+    steps: [
+      step('1', 'strong'),
+      step('2', 'weak'),
+      step('3', 'weak'),
+      step('tap', 'medium', { haptic: TAP_HAPTIC }),
+      step('5', 'medium'),
+      step('6', 'weak'),
+      step('7', 'weak'),
+      step('tap', 'medium', { haptic: TAP_HAPTIC }),
+    ],
+    subdivisionHaptic: null,
+  },
+  'cha-cha': {
+    id: 'cha-cha',
+    name: 'Cha-cha',
+    description: 'Break on 2 and 6, chassé on "4-and-5" and "8-and-1"',
+    steps: [
+      step('1', 'strong'),
+      step('2', 'medium'),
+      step('3', 'weak'),
+      step('4', 'weak', { subdivisions: ['and'] }),
+      step('5', 'medium'),
+      step('6', 'medium'),
+      step('7', 'weak'),
+      step('8', 'weak', { subdivisions: ['and'] }),
+    ],
+    subdivisionHaptic: SUBDIVISION_HAPTIC,
+  },
+  merengue: {
+    id: 'merengue',
+    name: 'Merengue',
+    description: 'A step on every beat',
+    steps: [
+      step('1', 'strong'),
+      step('2', 'weak'),
+      step('3', 'weak'),
+      step('4', 'weak'),
+      step('5', 'medium'),
+      step('6', 'weak'),
+      step('7', 'weak'),
+      step('8', 'weak'),
+    ],
+    subdivisionHaptic: null,
+  },
+};
+
+export const DEFAULT_COUNTING_SCHEME = COUNTING_SCHEMES.on1;
+
+/**
+ * Step for a 1-based count position, wrapping around the scheme's cycle
+ */
+export function getCountStep(scheme: CountingScheme, position: number): CountStep {
+  const length = scheme.steps.length;
+  return scheme.steps[(((Math.round(position) - 1) % length) + length) % length];
+}
@@ -0,0 +1,293 @@
+/**
+ * Downbeat Detector
+ * Estimates which tracked beat is "the 1" from bar-level accent patterns, bass placement
+ * and harmonic change, and re-aligns the 8-count when the evidence changes
+ */
+
+import { OnsetFrame } from './onsetDetector';
+import { ClaveReading } from './claveDetector';
+import { mod, standardize } from './numeric';
+
+export interface BeatPhase {
+  position: number; // 1-8 position of the beat in the count
+  confidence: number; // 0-1, how sure we are that position 1 is "the 1"
+  realigned: boolean; // True if the count was shifted since the previous beat
+  clave?: ClaveReading | null; // Clave side/direction for the beat, when one is heard
+}
+
+export interface DownbeatDetectorOptions {
+  sampleRate?: number;
+  beatsPerCycle?: number;
+  decay?: number; // Per-beat decay of the accumulated evidence
+}
+
+interface PendingBeat {
+  time: number;
+  index: number;
+  period: number;
+}
+
+interface FrameFeatures {
+  time: number;
+  onsetStrength: number;
+  bass: number;
+  chroma: number[];
+}
+
+// Evidence templates for one 8-count (two bars), index 0 = "the 1"
+// Salsa accents the bar starts, the conga tumbao and anticipated bass land on 4 and 8,
+// and chords tend to change at the start of each bar, most of all at the phrase start
+const ACCENT_TEMPLATE = [0.9, 0.2, 0.4, 1.0, 0.7, 0.2, 0.4, 1.0];
+const BASS_TEMPLATE = [0.3, 0.1, 0.2, 1.0, 0.3, 0.1, 0.2, 1.0];
+const HARMONIC_CHANGE_TEMPLATE = [1.0, 0.0, 0.1, 0.1, 0.7, 0.0, 0.1, 0.1];
+
+const SWITCH_MARGIN = 0.15; // Score lead a new phase needs (relative) before re-aligning
+const SWITCH_PERSISTENCE = 2; // Beats in a row the new phase must lead
+const SOFTMAX_TEMPERATURE = 0.1;
+const FULL_EVIDENCE_BEATS = 24; // Beats of evidence before confidence can reach 1
+const CLAVE_WEIGHT = 0.5; // Weight of clave bar-alignment evidence against the templates
+const MANUAL_WEIGHT = 0.6; // Score bonus a manually set "1" keeps against automatic evidence
+
+export class DownbeatDetector {
+  private readonly sampleRate: number;
+  private readonly beatsPerCycle: number;
+  private readonly decay: number;
+
+  private pendingBeats: PendingBeat[] = [];
+  private recentFrames: FrameFeatures[] = [];
+  private lastBeatTime = 0;
+  private previousChroma: number[] | null = null;
+  private accentHistogram: number[];
+  private bassHistogram: number[];
+  private harmonicChangeHistogram: number[];
+  private beatsSeen = 0;
+  private claveEvidence: number[] | null = null;
+  private manualPhase: number | null = null; // Beat index (mod cycle) the user marked as "the 1"
+
+  private phase = 0; // Beat index (mod cycle) currently treated as "the 1"
+  private challenger = -1;
+  private challengerCount = 0;
+  private confidence = 0;
+  private realignedSinceLastBeat = false;
+
+  constructor(options: DownbeatDetectorOptions = {}) {
+    this.sampleRate = options.sampleRate ?? 44100;
+    this.beatsPerCycle = options.beatsPerCycle ?? 8;
+    this.decay = options.decay ?? 0.97;
+    this.accentHistogram = new Array(this.beatsPerCycle).fill(0);
+    this.bassHistogram = new Array(this.beatsPerCycle).fill(0);
+    this.harmonicChangeHistogram = new Array(this.beatsPerCycle).fill(0);
+  }
+
+  /**
+   * Register a beat from the tracker
+   * Its features are read from the frames around it and scored once it has passed
+   */
+  addBeat(time: number, index: number): void {
+    const period = this.lastBeatTime > 0 ? time - this.lastBeatTime : 0;
+    this.lastBeatTime = time;
+    if (period <= 0) return;
+
+    this.pendingBeats.push({ time, index, period });
+  }
+
+  /**
+   * Process one analysis frame
+   * @param time - Frame time in milliseconds
+   * @param spectrum - Byte magnitudes covering 0 Hz to Nyquist
+   * @param onset - Onset analysis of the same frame
+   */
+  addFrame(time: number, spectrum: Uint8Array, onset: OnsetFrame): void {
+    this.recentFrames.push({
+      time,
+      onsetStrength: onset.strength,
+      bass: onset.bandEnergy[0] ?? 0,
+      chroma: this.computeChroma(spectrum),
+    });
+    // Keep enough frames to cover a full beat at the slowest tempo
+    while (this.recentFrames.length > 0 && time - this.recentFrames[0].time > 2000) {
+      this.recentFrames.shift();
+    }
+
+    while (this.pendingBeats.length > 0 && time >= this.pendingBeats[0].time + this.pendingBeats[0].period) {
+      this.finalizeBeat(this.pendingBeats.shift()!);
+    }
+  }
+
+  /**
+   * Count position of a beat index under the current downbeat estimate
+   */
+  positionOf(index: number): BeatPhase {
+    const position = mod(index - this.phase, this.beatsPerCycle) + 1;
+    const realigned = this.realignedSinceLastBeat;
+    this.realignedSinceLastBeat = false;
+    return { position, confidence: this.confidence, realigned };
+  }
+
+  /**
+   * External evidence per beat index (mod cycle) for being "the 1", e.g. from clave detection
+   */
+  setClaveEvidence(evidence: number[]): void {
+    this.claveEvidence = evidence;
+  }
+
+  /**
+   * Make a beat index "the 1" from manual input
+   * It takes effect immediately and keeps a bonus, so only clearly stronger evidence moves it again
+   */
+  setDownbeat(index: number): void {
+    this.phase = mod(index, this.beatsPerCycle);
+    this.manualPhase = this.phase;
+    this.challenger = -1;
+    this.challengerCount = 0;
+    this.realignedSinceLastBeat = true;
+  }
+
+  /**
+   * Drop the manual "1" and go back to automatic estimation
+   */
+  releaseDownbeat(): void {
+    this.manualPhase = null;
+  }
+
+  reset(): void {
+    this.pendingBeats = [];
+    this.recentFrames = [];
+    this.lastBeatTime = 0;
+    this.previousChroma = null;
+    this.accentHistogram.fill(0);
+    this.bassHistogram.fill(0);
+    this.harmonicChangeHistogram.fill(0);
+    this.beatsSeen = 0;
+    this.claveEvidence = null;
+    this.manualPhase = null;
+    this.phase = 0;
+    this.challenger = -1;
+    this.challengerCount = 0;
+    this.confidence = 0;
+    this.realignedSinceLastBeat = false;
+  }
+
+  private finalizeBeat(beat: PendingBeat): void {
+    let accent = 0;
+    let bassSum = 0;
+    let bassCount = 0;
+    const chromaSum = new Array(12).fill(0);
+    let chromaCount = 0;
+
+    for (const frame of this.recentFrames) {
+      const offset = frame.time - beat.time;
+
+      // Accent: strongest onset close to the beat
+      if (Math.abs(offset) <= beat.period * 0.15) {
+        accent = Math.max(accent, frame.onsetStrength);
+      }
+      // Bass: low-band level just around the beat
+      if (offset >= -beat.period * 0.1 && offset < beat.period * 0.4) {
+        bassSum += frame.bass;
+        bassCount++;
+      }
+      // Harmony: pitch-class profile while the beat lasts
+      if (offset >= 0 && offset < beat.period) {
+        for (let i = 0; i < 12; i++) chromaSum[i] += frame.chroma[i];
+        chromaCount++;
+      }
+    }
+
+    const bin = mod(beat.index, this.beatsPerCycle);
+    const bass = bassCount > 0 ? bassSum / bassCount : 0;
+    const chroma = chromaCount > 0 ? normalize(chromaSum) : null;
+    const harmonicChange = chroma && this.previousChroma ? 1 - dot(chroma, this.previousChroma) : 0;
+    if (chroma) this.previousChroma = chroma;
+
+    for (const histogram of [this.accentHistogram, this.bassHistogram, this.harmonicChangeHistogram]) {
+      for (let i = 0; i < histogram.length; i++) histogram[i] *= this.decay;
+    }
+    this.accentHistogram[bin] += accent;
+    this.bassHistogram[bin] += bass;
+    this.harmonicChangeHistogram[bin] += harmonicChange;
+    this.beatsSeen++;
+
+    this.updatePhase();
+  }
+
+  /**
+   * Score every candidate "1" against the templates and re-align with some hysteresis
+   */
+  private updatePhase(): void {
+    const features = [
+      [standardize(this.accentHistogram), standardize(ACCENT_TEMPLATE)],
+      [standardize(this.bassHistogram), standardize(BASS_TEMPLATE)],
+      [standardize(this.harmonicChangeHistogram), standardize(HARMONIC_CHANGE_TEMPLATE)],
+    ];
+
+    const scores: number[] = [];
+    for (let candidate = 0; candidate < this.beatsPerCycle; candidate++) {
+      let score = 0;
+      for (const [histogram, template] of features) {
+        for (let k = 0; k < this.beatsPerCycle; k++) {
+          score += template[k % template.length] * histogram[(candidate + k) % this.beatsPerCycle];
+        }
+      }
+      score /= features.length * this.beatsPerCycle;
+      // The clave says where bars start, which keeps 2-beat-off alignments out
+      if (this.claveEvidence) {
+        score += CLAVE_WEIGHT * (this.claveEvidence[candidate] ?? 0);
+      }
+      if (candidate === this.manualPhase) {
+        score += MANUAL_WEIGHT;
+      }
+      scores.push(score);
+    }
+
+    let best = 0;
+    for (let i = 1; i < scores.length; i++) {
+      if (scores[i] > scores[best]) best = i;
+    }
+
+    if (best !== this.phase && scores[best] - scores[this.phase] > SWITCH_MARGIN) {
+      this.challengerCount = best === this.challenger ? this.challengerCount + 1 : 1;
+      this.challenger = best;
+      if (this.challengerCount >= SWITCH_PERSISTENCE) {
+        this.phase = best;
+        this.challenger = -1;
+        this.challengerCount = 0;
+        this.realignedSinceLastBeat = true;
+      }
+    } else {
+      this.challenger = -1;
+      this.challengerCount = 0;
+    }
+
+    // Confidence: how much the chosen phase stands out, scaled by how much evidence we have
+    const weights = scores.map((score) => Math.exp(score / SOFTMAX_TEMPERATURE));
+    const probability = weights[this.phase] / weights.reduce((a, b) => a + b, 0);
+    const uniform = 1 / this.beatsPerCycle;
+    const sharpness = Math.max(0, (probability - uniform) / (1 - uniform));
+    this.confidence = sharpness * Math.min(1, this.beatsSeen / FULL_EVIDENCE_BEATS);
+  }
+
+  /**
+   * Rough 12-bin pitch-class profile from the 200-2000 Hz region
+   */
+  private computeChroma(spectrum: Uint8Array): number[] {
+    const chroma = new Array(12).fill(0);
+    const binWidth = this.sampleRate / 2 / spectrum.length;
+    const start = Math.max(1, Math.floor(200 / binWidth));
+    const end = Math.min(spectrum.length, Math.ceil(2000 / binWidth));
+    for (let i = start; i < end; i++) {
+      const midi = 69 + 12 * Math.log2((i * binWidth) / 440);
+      chroma[mod(Math.round(midi), 12)] += spectrum[i];
+    }
+    return chroma;
+  }
+}
+
+function normalize(values: number[]): number[] {
+  const length = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0));
+  return length > 0 ? values.map((v) => v / length) : values.map(() => 0);
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
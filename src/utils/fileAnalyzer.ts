@@ -0,0 +1,108 @@
+/**
+ * Offline File Analyzer
+ * Decodes an uploaded track and runs the BeatDetector over it faster than real time
+ */
+
+import { BeatDetectionResult, BeatDetector, DetectionTuning } from './beatDetector';
+import { BeatGrid, GridAnchor, buildBeatGrid } from './beatGrid';
+
+export interface AnalyzedTrack {
+  buffer: AudioBuffer;
+  grid: BeatGrid;
+}
+
+export interface SampleAnalysis {
+  beats: BeatDetectionResult[]; // As the detector emitted them, timestamps in ms from the start
+  grid: BeatGrid; // Grid fitted to those beats, following the local tempo
+}
+
+const FRAME_SIZE = 2048; // Same as the live analyser fftSize
+const FRAMES_PER_SECOND = 60; // Same cadence as the live requestAnimationFrame loop
+const FRAMES_PER_YIELD = 500; // Hand control back to the UI periodically
+
+/**
+ * Decode and analyze an audio file into a beat grid
+ * @param file - MP3/WAV (anything the browser can decode)
+ * @param tuning - The detection preset or tuning chosen for live listening, so both hear the same
+ * @param onProgress - Called with 0-1 while frames are analyzed
+ */
+export async function analyzeAudioFile(
+  file: Blob,
+  tuning: Partial<DetectionTuning> = {},
+  onProgress?: (progress: number) => void
+): Promise<AnalyzedTrack> {
+  const arrayBuffer = await file.arrayBuffer();
+
+  // decodeAudioData needs a context but no audio output
+  const decodeContext = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await decodeContext.decodeAudioData(arrayBuffer);
+
+  const samples = await renderMono(buffer);
+  const { grid } = await analyzeSamples(samples, buffer.sampleRate, tuning, onProgress);
+  return { buffer, grid };
+}
+
+/**
+ * Run the BeatDetector over mono samples, as the live loop would but faster than real time
+ * Also used outside the browser by the evaluation runner
+ * @param tuning - Detection tuning to run with; defaults otherwise
+ */
+export async function analyzeSamples(
+  samples: Float32Array,
+  sampleRate: number,
+  tuning: Partial<DetectionTuning> = {},
+  onProgress?: (progress: number) => void
+): Promise<SampleAnalysis> {
+  const beats: BeatDetectionResult[] = [];
+  let trackBPM = 0;
+  // Downbeat evidence builds up over the track, so the last beat's position is the best informed
+  let anchor: GridAnchor | undefined;
+  const detector = new BeatDetector(
+    {
+      onBeat: (result) => {
+        beats.push(result);
+        anchor = { time: result.timestamp / 1000, position: result.phase.position };
+      },
+      onBPMUpdate: (bpm) => {
+        trackBPM = bpm;
+      },
+    },
+    // Frame timestamps are exact offline, so there is no latency to predict around
+    { ...tuning, sampleRate, predictionOffset: 0 }
+  );
+
+  const hop = Math.round(sampleRate / FRAMES_PER_SECOND);
+  const totalFrames = Math.max(1, Math.floor((samples.length - FRAME_SIZE) / hop));
+  for (let frame = 0; frame < totalFrames; frame++) {
+    const start = frame * hop;
+    const end = start + FRAME_SIZE;
+    detector.processPCM(samples.subarray(start, end), (end / sampleRate) * 1000);
+
+    if (frame % FRAMES_PER_YIELD === 0) {
+      onProgress?.(frame / totalFrames);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+  onProgress?.(1);
+
+  const beatTimes = beats.map((beat) => beat.timestamp / 1000).sort((a, b) => a - b);
+  return { beats, grid: buildBeatGrid(beatTimes, samples.length / sampleRate, trackBPM, anchor) };
+}
+
+/**
+ * Downmix the track to a single channel at its own sample rate
+ */
+async function renderMono(buffer: AudioBuffer): Promise<Float32Array> {
+  if (buffer.numberOfChannels === 1) {
+    return buffer.getChannelData(0);
+  }
+
+  const context = new OfflineAudioContext(1, buffer.length, buffer.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
@@ -1,11 +1,14 @@
 /**
  * Haptic Feedback Manager
- * Uses Vibration API for devices that support it
+ * Uses Vibration API for devices that support it, with patterns from the selected counting scheme
  */
 
+import { CountingScheme, DEFAULT_COUNTING_SCHEME, HapticPattern, getCountStep } from './countingScheme';
+
 export class HapticFeedback {
   private enabled: boolean = false;
   private isIOS: boolean;
+  private scheme: CountingScheme = DEFAULT_COUNTING_SCHEME;
 
   constructor() {
     // Detect iOS
@@ -22,45 +25,43 @@ export class HapticFeedback {
   }
 
   /**
-   * Vibrate on regular beat
+   * Vibrate for a count position as the counting scheme describes it (nothing on rests)
+   * @param position - 1-based count position
    */
-  beat(): void {
-    if (!this.enabled) return;
-    
-    try {
-      // Use a more noticeable vibration pattern for mobile
-      // Pattern: vibrate for 80ms
-      if ('vibrate' in navigator) {
-        navigator.vibrate(80);
-      } else if (this.isIOS) {
-        // iOS doesn't support Vibration API, but try anyway
-        // Some iOS versions might support it in certain contexts
-        try {
-          (navigator as any).vibrate?.(80);
-        } catch (e) {
-          // Silently fail on iOS
-        }
-      }
-    } catch (error) {
-      // Silently handle errors
+  step(position: number): void {
+    const pattern = getCountStep(this.scheme, position).haptic;
+    if (pattern !== null) {
+      this.vibrate(pattern);
     }
   }
 
   /**
-   * Vibrate on downbeat (beat 1)
+   * Vibrate on a half beat (e.g. the "and" of cha-cha's "4-and-5"), if the scheme asks for it
    */
-  downbeat(): void {
+  subdivision(): void {
+    if (this.scheme.subdivisionHaptic !== null) {
+      this.vibrate(this.scheme.subdivisionHaptic);
+    }
+  }
+
+  /**
+   * Select the counting scheme that decides which beats vibrate and how
+   */
+  setScheme(scheme: CountingScheme): void {
+    this.scheme = scheme;
+  }
+
+  private vibrate(pattern: HapticPattern): void {
     if (!this.enabled) return;
     
     try {
-      // Stronger vibration pattern for downbeat
-      // Pattern: vibrate 120ms, pause 30ms, vibrate 120ms
       if ('vibrate' in navigator) {
-        navigator.vibrate([120, 30, 120]);
+        navigator.vibrate(pattern);
       } else if (this.isIOS) {
         // iOS doesn't support Vibration API, but try anyway
+        // Some iOS versions might support it in certain contexts
         try {
-          (navigator as any).vibrate?.([120, 30, 120]);
+          (navigator as Navigator).vibrate?.(pattern);
         } catch (e) {
           // Silently fail on iOS
         }
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { InputPreferences, audioConstraints, inputSettingsFor, withProcessing } from './inputDevices';
+
+const RAW = { echoCancellation: false, noiseSuppression: false, autoGainControl: false };
+const PROCESSED = { echoCancellation: true, noiseSuppression: true, autoGainControl: true };
+
+describe('audioConstraints', () => {
+  it('leaves the device to the system when none is chosen', () => {
+    const constraints = audioConstraints({ deviceId: null, processing: RAW });
+    expect(constraints.deviceId).toBeUndefined();
+    expect(constraints).toMatchObject({ ...RAW, sampleRate: 44100 });
+  });
+
+  it('requires the chosen device when starting', () => {
+    expect(audioConstraints({ deviceId: 'usb', processing: RAW }).deviceId).toEqual({ exact: 'usb' });
+  });
+
+  it('only prefers the chosen device when any microphone will do', () => {
+    expect(audioConstraints({ deviceId: 'usb', processing: RAW }, false).deviceId).toEqual({ ideal: 'usb' });
+  });
+
+  it('passes the processing choice through', () => {
+    const processing = { echoCancellation: true, noiseSuppression: false, autoGainControl: false };
+    expect(audioConstraints({ deviceId: null, processing })).toMatchObject(processing);
+  });
+});
+
+describe('input preferences', () => {
+  const preferences: InputPreferences = { source: 'microphone', deviceId: 'usb', processing: { usb: RAW, default: PROCESSED } };
+
+  it('looks up the processing of the selected device', () => {
+    expect(inputSettingsFor(preferences)).toEqual({ deviceId: 'usb', processing: RAW });
+    expect(inputSettingsFor(preferences, null)).toEqual({ deviceId: null, processing: PROCESSED });
+  });
+
+  it('falls back to the platform default for a device with no saved choice', () => {
+    // Not a phone user agent, so processing is off
+    expect(inputSettingsFor({ source: 'microphone', deviceId: 'lavalier', processing: {} }).processing).toEqual(RAW);
+  });
+
+  it('remembers processing per device without touching the others', () => {
+    const updated = withProcessing(preferences, 'lavalier', PROCESSED);
+    expect(inputSettingsFor(updated, 'lavalier').processing).toEqual(PROCESSED);
+    expect(inputSettingsFor(updated, 'usb').processing).toEqual(RAW);
+    expect(preferences.processing.lavalier).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Input Devices
+ * Which microphone to listen with and how the browser may process it, remembered per device
+ * A USB interface or lavalier mic wants the raw signal; a phone's built-in mic may need help
+ */
+
+// The browser's voice processing; all three reshape the dynamics the detector listens for
+export interface InputProcessing {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean; // Evens out the level, flattening accents and the gap before the 1
+}
+
+export interface AudioInputSettings {
+  deviceId: string | null; // null: the system default input
+  processing: InputProcessing;
+}
+
+export interface InputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface InputPreferences {
+  source: 'microphone' | 'tab'; // Listen through the microphone, or to another tab or the system output
+  deviceId: string | null;
+  processing: Record<string, InputProcessing>; // By device ID, DEFAULT_DEVICE_KEY for the default input
+}
+
+const DEFAULT_DEVICE_KEY = 'default';
+
+/**
+ * Processing for a device with no saved choice: on for phones, where the built-in mic is noisy
+ * and quiet, off on desktop where the input is usually a proper microphone
+ */
+export function defaultProcessing(): InputProcessing {
+  const isMobile = typeof navigator !== 'undefined' && /iPhone|iPad|iPod|Android/i.test(navigator.userAgent);
+  return { echoCancellation: isMobile, noiseSuppression: isMobile, autoGainControl: isMobile };
+}
+
+export function inputSettingsFor(preferences: InputPreferences, deviceId = preferences.deviceId): AudioInputSettings {
+  return {
+    deviceId,
+    processing: preferences.processing[deviceId ?? DEFAULT_DEVICE_KEY] ?? defaultProcessing(),
+  };
+}
+
+/**
+ * Remember the processing choice for a device
+ */
+export function withProcessing(preferences: InputPreferences, deviceId: string | null, processing: InputProcessing): InputPreferences {
+  return { ...preferences, processing: { ...preferences.processing, [deviceId ?? DEFAULT_DEVICE_KEY]: processing } };
+}
+
+/**
+ * getUserMedia audio constraints for the chosen input
+ * @param requireDevice Fail if the chosen device is missing rather than falling back to another one
+ */
+export function audioConstraints(input: AudioInputSettings, requireDevice = true): MediaTrackConstraints {
+  return {
+    ...(input.deviceId ? { deviceId: requireDevice ? { exact: input.deviceId } : { ideal: input.deviceId } } : {}),
+    echoCancellation: input.processing.echoCancellation,
+    noiseSuppression: input.processing.noiseSuppression,
+    autoGainControl: input.processing.autoGainControl,
+    sampleRate: 44100,
+  };
+}
+
+/**
+ * Audio inputs the browser can see
+ * Labels stay empty until the page has had microphone access once, so those are numbered instead
+ */
+export async function listInputDevices(): Promise<InputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'audioinput' && device.deviceId && device.deviceId !== DEFAULT_DEVICE_KEY)
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Microphone ${i + 1}` }));
+}
+
+const STORAGE_KEY = 'baila-beat:input';
+
+export function loadInputPreferences(): InputPreferences {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<InputPreferences>;
+      return { source: parsed.source ?? 'microphone', deviceId: parsed.deviceId ?? null, processing: parsed.processing ?? {} };
+    }
+  } catch {
+    // Fall through to the default input
+  }
+  return { source: 'microphone', deviceId: null, processing: {} };
+}
+
+export function saveInputPreferences(preferences: InputPreferences): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (err) {
+    console.warn('Failed to store input settings:', err);
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Input Level Meter
+ * Opens an input on its own and reports its level every display frame, so the right source and
+ * a healthy level can be checked before listening
+ */
+
+import { AudioInputSettings, audioConstraints } from './inputDevices';
+import { toAudioInputError } from './audioErrors';
+
+export interface InputLevel {
+  rms: number; // dBFS
+  peak: number; // dBFS, held and decaying
+  clipping: boolean; // A sample reached full scale recently
+}
+
+const SILENCE_DB = -90;
+const PEAK_DECAY = 0.5; // dB per frame
+const CLIP_LEVEL = 0.99;
+const CLIP_HOLD = 60; // Frames the clipping flag stays up
+
+export function toDecibels(amplitude: number): number {
+  return amplitude > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(amplitude)) : SILENCE_DB;
+}
+
+/**
+ * RMS and peak of a block of samples, as amplitudes in 0-1
+ */
+export function measureBlock(samples: Float32Array): { rms: number; peak: number } {
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i];
+    sum += s * s;
+    peak = Math.max(peak, Math.abs(s));
+  }
+  return { rms: samples.length > 0 ? Math.sqrt(sum / samples.length) : 0, peak };
+}
+
+export class InputLevelMeter {
+  private audioContext: AudioContext | null = null;
+  private stream: MediaStream | null = null;
+  private animationFrameId: number | null = null;
+  private heldPeak = SILENCE_DB;
+  private clipFrames = 0;
+  private readonly onLevel: (level: InputLevel) => void;
+
+  constructor(onLevel: (level: InputLevel) => void) {
+    this.onLevel = onLevel;
+  }
+
+  /**
+   * Start metering an input, replacing whatever was being metered
+   * @throws AudioInputError if the input can't be opened
+   */
+  async start(input: AudioInputSettings): Promise<void> {
+    this.stop();
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: audioConstraints(input) });
+      this.stream = stream;
+      const audioContext = new AudioContext();
+      this.audioContext = audioContext;
+      if (audioContext.state === 'suspended') await audioContext.resume();
+
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 2048;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      const samples = new Float32Array(analyser.fftSize);
+
+      const tick = () => {
+        analyser.getFloatTimeDomainData(samples);
+        this.onLevel(this.update(measureBlock(samples)));
+        this.animationFrameId = requestAnimationFrame(tick);
+      };
+      tick();
+    } catch (error) {
+      this.stop();
+      throw toAudioInputError(error);
+    }
+  }
+
+  stop(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    void this.audioContext?.close();
+    this.audioContext = null;
+    this.heldPeak = SILENCE_DB;
+    this.clipFrames = 0;
+  }
+
+  /**
+   * The browser's settings for the metered track, which may not match what was asked for
+   */
+  getTrackSettings(): MediaTrackSettings | null {
+    return this.stream?.getAudioTracks()[0]?.getSettings() ?? null;
+  }
+
+  private update(block: { rms: number; peak: number }): InputLevel {
+    const peak = toDecibels(block.peak);
+    this.heldPeak = Math.max(peak, this.heldPeak - PEAK_DECAY);
+    this.clipFrames = block.peak >= CLIP_LEVEL ? CLIP_HOLD : Math.max(0, this.clipFrames - 1);
+    return { rms: toDecibels(block.rms), peak: this.heldPeak, clipping: this.clipFrames > 0 };
+  }
+}
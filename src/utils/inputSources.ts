@@ -0,0 +1,274 @@
+/**
+ * Input Sources
+ * Where the detector's audio comes from: the microphone, another tab or the system output, a
+ * decoded file or a generated signal
+ * The AudioProcessor owns the AudioContext and the analysis; a source only has to put a node
+ * into that context, and say when it stops delivering sound
+ */
+
+import { AudioInputError, checkAudioSupport, toAudioInputError } from './audioErrors';
+import { AudioInputSettings, audioConstraints, defaultProcessing } from './inputDevices';
+
+export type InputSourceKind = 'microphone' | 'tab' | 'file' | 'generated';
+
+export interface InputSourceEvents {
+  onEnded: () => void; // Stopped delivering sound by itself (unplugged, sharing stopped, file finished)
+  onMute: (muted: boolean) => void; // Silenced for a while by the system, e.g. during a call
+}
+
+export interface InputSource {
+  readonly kind: InputSourceKind;
+  readonly acoustic: boolean; // Picked up through the air, so the calibrated input latency applies
+  readonly canReopen: boolean; // Can be opened again without a tap, so drop-outs are retried automatically
+  /**
+   * Start delivering sound into the context
+   * @param retrying Re-opening after a drop-out, when any substitute beats silence
+   * @throws AudioInputError
+   */
+  open(context: AudioContext, events: InputSourceEvents, retrying: boolean): Promise<AudioNode>;
+  close(): void;
+  isEnded(): boolean;
+  getStream(): MediaStream | null; // Live capture stream, e.g. to record the session audio
+}
+
+/**
+ * Shared handling of sources backed by a capture MediaStream
+ */
+abstract class StreamSource implements InputSource {
+  abstract readonly kind: InputSourceKind;
+  abstract readonly acoustic: boolean;
+  abstract readonly canReopen: boolean;
+  protected stream: MediaStream | null = null;
+  private node: MediaStreamAudioSourceNode | null = null;
+
+  protected abstract capture(retrying: boolean): Promise<MediaStream>;
+
+  async open(context: AudioContext, events: InputSourceEvents, retrying: boolean): Promise<AudioNode> {
+    this.close();
+    const stream = await this.capture(retrying);
+    for (const track of stream.getAudioTracks()) {
+      // Unplugged, revoked, sharing stopped; stopping it ourselves doesn't fire this
+      track.onended = events.onEnded;
+      // iOS mutes the track during interruptions
+      track.onmute = () => events.onMute(true);
+      track.onunmute = () => events.onMute(false);
+    }
+    this.stream = stream;
+    this.node = context.createMediaStreamSource(stream);
+    return this.node;
+  }
+
+  close(): void {
+    this.stream?.getTracks().forEach((track) => {
+      track.onended = null;
+      track.onmute = null;
+      track.onunmute = null;
+      track.stop();
+    });
+    this.stream = null;
+    this.node?.disconnect();
+    this.node = null;
+  }
+
+  isEnded(): boolean {
+    return !this.stream || this.stream.getAudioTracks().every((track) => track.readyState === 'ended');
+  }
+
+  getStream(): MediaStream | null {
+    return this.stream;
+  }
+}
+
+export class MicrophoneSource extends StreamSource {
+  readonly kind = 'microphone';
+  readonly acoustic = true;
+  readonly canReopen = true;
+  private readonly input: AudioInputSettings;
+  private onDeviceGone: (() => void) | null = null;
+
+  constructor(input: AudioInputSettings = { deviceId: null, processing: defaultProcessing() }) {
+    super();
+    this.input = input;
+  }
+
+  async open(context: AudioContext, events: InputSourceEvents, retrying: boolean): Promise<AudioNode> {
+    const node = await super.open(context, events, retrying);
+    this.onDeviceGone = events.onEnded;
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    return node;
+  }
+
+  close(): void {
+    if (this.onDeviceGone) {
+      navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+      this.onDeviceGone = null;
+    }
+    super.close();
+  }
+
+  /**
+   * When retrying, fall back to any microphone if the chosen one is gone: mid-song, any
+   * microphone beats silence
+   */
+  protected async capture(retrying: boolean): Promise<MediaStream> {
+    const unsupported = checkAudioSupport('microphone');
+    if (unsupported) throw unsupported;
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: audioConstraints(this.input, !retrying) });
+    } catch (error) {
+      throw toAudioInputError(error);
+    }
+  }
+
+  private handleDeviceChange = async () => {
+    const track = this.stream?.getAudioTracks()[0];
+    if (!track || track.readyState === 'ended') {
+      this.onDeviceGone?.();
+      return;
+    }
+    // A headset being unplugged doesn't always end the track; check its device is still there
+    const deviceId = track.getSettings().deviceId;
+    if (!deviceId) return;
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      if (!devices.some((device) => device.kind === 'audioinput' && device.deviceId === deviceId)) {
+        this.onDeviceGone?.();
+      }
+    } catch (err) {
+      console.warn('Failed to list audio devices:', err);
+    }
+  };
+}
+
+/**
+ * Another tab, window or the whole system output, shared through the browser's screen-share
+ * picker. The sound is taken digitally, before the speakers, so there's no room noise
+ */
+export class DisplayCaptureSource extends StreamSource {
+  readonly kind = 'tab';
+  readonly acoustic = false;
+  readonly canReopen = false; // The share picker needs a tap every time
+
+  static isSupported(): boolean {
+    return checkAudioSupport('display') === null;
+  }
+
+  protected async capture(): Promise<MediaStream> {
+    const unsupported = checkAudioSupport('display');
+    if (unsupported) throw unsupported;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getDisplayMedia({
+        // Browsers only share audio along with video
+        video: true,
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+        // Chromium: offer the system audio for screens, and leave this tab out of the picker
+        systemAudio: 'include',
+        selfBrowserSurface: 'exclude',
+      } as DisplayMediaStreamOptions);
+    } catch (error) {
+      throw error instanceof DOMException && error.name === 'NotAllowedError'
+        ? new AudioInputError('capture-cancelled', error)
+        : toAudioInputError(error);
+    }
+    // Only the sound is needed; dropping the video saves decoding it
+    stream.getVideoTracks().forEach((track) => {
+      track.stop();
+      stream.removeTrack(track);
+    });
+    if (stream.getAudioTracks().length === 0) {
+      throw new AudioInputError('capture-no-audio');
+    }
+    return stream;
+  }
+}
+
+/**
+ * A decoded file, played through the speakers while the detector listens to it live
+ */
+export class FileSource implements InputSource {
+  readonly kind = 'file';
+  readonly acoustic = false;
+  readonly canReopen = false; // Once finished, it stays finished
+  private readonly buffer: AudioBuffer;
+  private node: AudioBufferSourceNode | null = null;
+  private ended = false;
+
+  constructor(buffer: AudioBuffer) {
+    this.buffer = buffer;
+  }
+
+  async open(context: AudioContext, events: InputSourceEvents): Promise<AudioNode> {
+    this.close();
+    this.ended = false;
+    const node = context.createBufferSource();
+    node.buffer = this.buffer;
+    node.connect(context.destination);
+    node.onended = () => {
+      this.ended = true;
+      events.onEnded();
+    };
+    node.start();
+    this.node = node;
+    return node;
+  }
+
+  close(): void {
+    if (this.node) {
+      this.node.onended = null;
+      this.node.stop();
+      this.node.disconnect();
+      this.node = null;
+    }
+  }
+
+  isEnded(): boolean {
+    return this.ended;
+  }
+
+  getStream(): MediaStream | null {
+    return null;
+  }
+}
+
+/**
+ * A signal synthesized in the processor's context, e.g. a click track to check the pipeline
+ * end to end; render builds the graph and returns its output node
+ */
+export class GeneratedSource implements InputSource {
+  readonly kind = 'generated';
+  readonly acoustic = false;
+  readonly canReopen = true;
+  private readonly render: (context: AudioContext) => AudioNode;
+  private node: AudioNode | null = null;
+
+  constructor(render: (context: AudioContext) => AudioNode) {
+    this.render = render;
+  }
+
+  async open(context: AudioContext): Promise<AudioNode> {
+    this.close();
+    this.node = this.render(context);
+    return this.node;
+  }
+
+  close(): void {
+    this.node?.disconnect();
+    this.node = null;
+  }
+
+  isEnded(): boolean {
+    return false;
+  }
+
+  getStream(): MediaStream | null {
+    return null;
+  }
+}
+
+/**
+ * The live input the user picked
+ */
+export function createInputSource(kind: 'microphone' | 'tab', input: AudioInputSettings): InputSource {
+  return kind === 'tab' ? new DisplayCaptureSource() : new MicrophoneSource(input);
+}
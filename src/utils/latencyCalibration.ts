@@ -0,0 +1,264 @@
+/**
+ * Latency Calibration
+ * Measures this device's microphone round-trip latency and the user's perceived feedback offset,
+ * and keeps the result per device for beat prediction, haptic and visual timing
+ */
+
+export interface LatencyProfile {
+  inputLatency: number; // ms from sound reaching the mic to the detector seeing it
+  outputLatency: number; // ms the browser reported for its audio output during calibration
+  feedbackOffset: number; // ms the count display/vibration is perceived late (tap-along)
+  calibratedAt: number; // Date.now() of the calibration
+}
+
+export interface TapAlongResult {
+  offset: number; // Median ms from each feedback pulse to the user's tap
+  taps: number; // Taps that matched a pulse
+}
+
+// Used until the device has been calibrated; matches the old fixed 250ms prediction offset
+export const DEFAULT_LATENCY_PROFILE: LatencyProfile = {
+  inputLatency: 200,
+  outputLatency: 0,
+  feedbackOffset: 50,
+  calibratedAt: 0,
+};
+
+const STORAGE_PREFIX = 'baila-beat:latency:';
+const CLICK_COUNT = 8;
+const CLICK_SPACING = 0.6; // Seconds between round-trip clicks
+const CLICK_THRESHOLD = 0.1; // Mic sample level that counts as the click arriving
+const TAP_ALONG_BPM = 100;
+const TAP_ALONG_PULSES = 16;
+const MAX_FEEDBACK_OFFSET = 250; // ms, larger tap offsets are treated as mis-taps
+
+/**
+ * How far ahead (ms) live beats should be emitted so the count lands on the music
+ * Tab and system audio have no input latency, so they're only ahead by the feedback offset
+ * @param acoustic - Whether the source picks the music up through the air, like a microphone
+ */
+export function predictionOffsetFor(
+  profile: Pick<LatencyProfile, 'inputLatency' | 'feedbackOffset'>,
+  acoustic: boolean,
+): number {
+  return Math.max(0, (acoustic ? profile.inputLatency : 0) + profile.feedbackOffset);
+}
+
+export function loadLatencyProfile(): LatencyProfile | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + deviceKey());
+    return stored ? { ...DEFAULT_LATENCY_PROFILE, ...JSON.parse(stored) } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLatencyProfile(profile: LatencyProfile): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + deviceKey(), JSON.stringify(profile));
+  } catch (err) {
+    console.warn('Failed to store latency calibration:', err);
+  }
+}
+
+export function clearLatencyProfile(): void {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + deviceKey());
+  } catch {
+    // Nothing stored
+  }
+}
+
+/**
+ * Runs the two calibration steps
+ * Both need a user gesture to start audio; call dispose() when done
+ */
+export class LatencyCalibrator {
+  private audioContext: AudioContext | null = null;
+  private stream: MediaStream | null = null;
+  private taps: number[] = [];
+
+  /**
+   * Play clicks through the speaker and time their arrival at the microphone
+   * @returns Median round-trip latency and the reported output latency, in ms
+   */
+  async measureRoundTrip(onProgress?: (progress: number) => void): Promise<{ roundTrip: number; outputLatency: number }> {
+    const context = await this.getContext();
+    // Processing would smear or remove the click we are listening for
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+    const microphone = context.createMediaStreamSource(this.stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    microphone.connect(analyser);
+
+    const firstClick = context.currentTime + 0.5;
+    const clickTimes: number[] = [];
+    for (let i = 0; i < CLICK_COUNT; i++) {
+      clickTimes.push(firstClick + i * CLICK_SPACING);
+      this.playClick(context, clickTimes[i], 1500);
+    }
+
+    const samples = new Float32Array(analyser.fftSize);
+    const latencies: number[] = [];
+    let clickIndex = 0;
+    let lastArrival = -Infinity;
+
+    await new Promise<void>((resolve) => {
+      const poll = () => {
+        const now = context.currentTime;
+        analyser.getFloatTimeDomainData(samples);
+
+        // The analyser holds the most recent fftSize samples, ending roughly at currentTime
+        const bufferStart = now - samples.length / context.sampleRate;
+        for (let i = 0; i < samples.length; i++) {
+          const time = bufferStart + i / context.sampleRate;
+          if (Math.abs(samples[i]) < CLICK_THRESHOLD || time - lastArrival < CLICK_SPACING / 2) continue;
+          // Attribute the arrival to the latest click played before it
+          while (clickIndex + 1 < clickTimes.length && clickTimes[clickIndex + 1] <= time) clickIndex++;
+          if (clickTimes[clickIndex] <= time && time - clickTimes[clickIndex] < CLICK_SPACING / 2) {
+            latencies.push((time - clickTimes[clickIndex]) * 1000);
+            onProgress?.(latencies.length / CLICK_COUNT);
+          }
+          lastArrival = time;
+        }
+
+        if (now > clickTimes[clickTimes.length - 1] + CLICK_SPACING) {
+          resolve();
+        } else {
+          requestAnimationFrame(poll);
+        }
+      };
+      poll();
+    });
+
+    microphone.disconnect();
+    this.stopStream();
+
+    if (latencies.length < CLICK_COUNT / 2) {
+      throw new Error('Could not hear the calibration clicks. Turn the volume up and keep the room quiet.');
+    }
+    const outputLatency = ((context.outputLatency || 0) + (context.baseLatency || 0)) * 1000;
+    return { roundTrip: median(latencies), outputLatency };
+  }
+
+  /**
+   * Pulse the count feedback (vibration plus whatever onPulse shows) at a steady tempo, with no sound,
+   * and compare the user's taps to it; taps land late by however late the feedback is perceived
+   * Call tap() on every tap while this runs
+   */
+  async runTapAlong(onPulse?: (index: number) => void): Promise<TapAlongResult> {
+    const interval = 60000 / TAP_ALONG_BPM;
+    const firstPulse = performance.now() + 1000;
+    const pulseTimes: number[] = [];
+    this.taps = [];
+
+    await new Promise<void>((resolve) => {
+      const poll = () => {
+        const now = performance.now();
+        while (pulseTimes.length < TAP_ALONG_PULSES && firstPulse + pulseTimes.length * interval <= now) {
+          if ('vibrate' in navigator) navigator.vibrate(60);
+          onPulse?.(pulseTimes.length);
+          pulseTimes.push(now);
+        }
+        if (now > firstPulse + TAP_ALONG_PULSES * interval) {
+          resolve();
+        } else {
+          requestAnimationFrame(poll);
+        }
+      };
+      poll();
+    });
+
+    // Pair each tap with the nearest pulse, skipping the first few while the user settles in
+    const offsets: number[] = [];
+    for (const tap of this.taps) {
+      let nearest = Infinity;
+      for (const pulseTime of pulseTimes.slice(2)) {
+        if (Math.abs(tap - pulseTime) < Math.abs(nearest)) nearest = tap - pulseTime;
+      }
+      if (Math.abs(nearest) <= MAX_FEEDBACK_OFFSET) offsets.push(nearest);
+    }
+    if (offsets.length < TAP_ALONG_PULSES / 2) {
+      throw new Error('Not enough taps matched the pulses. Tap along with every pulse and try again.');
+    }
+    return { offset: median(offsets), taps: offsets.length };
+  }
+
+  /**
+   * Record a tap during the tap-along step
+   * @param timestamp - performance.now() time of the tap
+   */
+  tap(timestamp: number): void {
+    this.taps.push(timestamp);
+  }
+
+  dispose(): void {
+    this.stopStream();
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+    }
+  }
+
+  private async getContext(): Promise<AudioContext> {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+    }
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+    return this.audioContext;
+  }
+
+  private playClick(context: AudioContext, time: number, frequency: number): void {
+    const oscillator = context.createOscillator();
+    oscillator.frequency.value = frequency;
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0.0001, time);
+    gain.gain.exponentialRampToValueAtTime(1, time + 0.001);
+    gain.gain.exponentialRampToValueAtTime(0.0001, time + 0.03);
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(time);
+    oscillator.stop(time + 0.04);
+  }
+
+  private stopStream(): void {
+    if (this.stream) {
+      this.stream.getTracks().forEach((track) => track.stop());
+      this.stream = null;
+    }
+  }
+}
+
+/**
+ * Profile from the two measurements
+ * The detector only sees the input side of the round trip, so the reported output latency is taken off
+ */
+export function buildLatencyProfile(roundTrip: number, outputLatency: number, tapAlong: TapAlongResult): LatencyProfile {
+  return {
+    inputLatency: Math.max(0, roundTrip - outputLatency),
+    outputLatency,
+    feedbackOffset: tapAlong.offset,
+    calibratedAt: Date.now(),
+  };
+}
+
+/**
+ * Key for this device/browser; the same account on another device gets its own calibration
+ */
+function deviceKey(): string {
+  let hash = 0;
+  for (const char of navigator.userAgent) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
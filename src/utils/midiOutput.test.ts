@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_MIDI_SETTINGS, MidiBeatOutput, MidiOutputSettings, MidiPortLike } from './midiOutput';
+
+const BPM = 120;
+const PERIOD = 500;
+const TICK = PERIOD / 24;
+
+const CLOCK_ONLY: MidiOutputSettings = { ...DEFAULT_MIDI_SETTINGS, portId: 'mock', downbeat: null, count: null };
+
+/**
+ * A port that records what was sent and when it was due
+ */
+function createMockPort() {
+  const messages: Array<{ data: number[]; timestamp: number }> = [];
+  const port: MidiPortLike = {
+    id: 'mock',
+    name: 'Mock port',
+    send: (data, timestamp = 0) => {
+      messages.push({ data, timestamp });
+    },
+  };
+  return { port, messages };
+}
+
+describe('MidiBeatOutput', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Beats heard `lead` ms after they're announced, like the detector's lookahead
+   */
+  function playBeats(output: MidiBeatOutput, positions: number[], lead = 50) {
+    for (const position of positions) {
+      vi.advanceTimersByTime(PERIOD - lead);
+      output.beat(position, Date.now() + lead, BPM);
+      vi.advanceTimersByTime(lead);
+    }
+  }
+
+  it('sends 24 clock ticks per beat, on the beat', () => {
+    const { port, messages } = createMockPort();
+    const output = new MidiBeatOutput(port, CLOCK_ONLY, () => Date.now());
+    const start = Date.now();
+    playBeats(output, [1, 2, 3, 4]);
+
+    const ticks = messages.filter((message) => message.data[0] === 0xf8).map((message) => message.timestamp);
+    const firstBeat = start + PERIOD;
+    // Every tick from the first beat up to the fourth
+    const expected = Array.from({ length: 3 * 24 + 1 }, (_, i) => firstBeat + i * TICK);
+    expect(ticks.slice(0, expected.length).map((time) => Math.round(time * 1000) / 1000)).toEqual(
+      expected.map((time) => Math.round(time * 1000) / 1000),
+    );
+    output.close();
+  });
+
+  it('follows the beat when it drifts instead of bunching or skipping ticks', () => {
+    const { port, messages } = createMockPort();
+    const output = new MidiBeatOutput(port, CLOCK_ONLY, () => Date.now());
+    output.beat(1, Date.now() + 50, BPM);
+    vi.advanceTimersByTime(PERIOD);
+    // The next beat comes 20 ms late
+    const queued = Date.now() + 100; // Ticks up to here were already sent on the old grid
+    const anchor = Date.now() + 70;
+    output.beat(2, anchor, BPM);
+    vi.advanceTimersByTime(PERIOD);
+
+    const ticks = messages.filter((message) => message.data[0] === 0xf8).map((message) => message.timestamp);
+    expect(ticks.length).toBeGreaterThanOrEqual(24 + 12);
+    // Ticks from then on land on the new grid
+    const later = ticks.filter((time) => time > queued);
+    expect(later.length).toBeGreaterThan(0);
+    for (const time of later) {
+      expect(time - anchor).toBeCloseTo(Math.round((time - anchor) / TICK) * TICK, 3);
+    }
+    for (let i = 1; i < ticks.length; i++) {
+      expect(ticks[i]).toBeGreaterThanOrEqual(ticks[i - 1]);
+    }
+    output.close();
+  });
+
+  it('sends Start on the first 1 after locking and Stop when the beat is lost', () => {
+    const { port, messages } = createMockPort();
+    const output = new MidiBeatOutput(port, CLOCK_ONLY, () => Date.now());
+    output.setLocked(true);
+    playBeats(output, [7, 8]);
+    expect(messages.some((message) => message.data[0] === 0xfa)).toBe(false);
+
+    vi.advanceTimersByTime(PERIOD - 50);
+    const downbeat = Date.now() + 50;
+    output.beat(1, downbeat, BPM);
+    const start = messages.find((message) => message.data[0] === 0xfa);
+    expect(start?.timestamp).toBe(downbeat - 1);
+    // Nothing ticks between Start and the 1
+    const afterStart = messages.slice(messages.indexOf(start!) + 1).filter((message) => message.data[0] === 0xf8);
+    expect(afterStart.every((message) => message.timestamp >= downbeat)).toBe(true);
+
+    vi.advanceTimersByTime(PERIOD);
+    output.setLocked(false);
+    expect(messages[messages.length - 1]).toEqual({ data: [0xfc], timestamp: Date.now() });
+
+    // The clock stops with the transport
+    const sent = messages.length;
+    vi.advanceTimersByTime(2 * PERIOD);
+    expect(messages.length).toBe(sent);
+    output.close();
+  });
+
+  it('plays the downbeat note on the 1 and one note per count', () => {
+    const { port, messages } = createMockPort();
+    const output = new MidiBeatOutput(
+      port,
+      {
+        ...CLOCK_ONLY,
+        clock: false,
+        downbeat: { kind: 'note', channel: 10, number: 36, value: 127 },
+        count: { kind: 'note', channel: 1, number: 60, value: 100 },
+      },
+      () => Date.now(),
+    );
+    const heard = Date.now() + 50;
+    output.beat(1, heard, BPM);
+    output.beat(2, heard + PERIOD, BPM);
+
+    expect(messages).toEqual([
+      { data: [0x99, 36, 127], timestamp: heard },
+      { data: [0x89, 36, 0], timestamp: heard + 100 },
+      { data: [0x90, 60, 100], timestamp: heard },
+      { data: [0x80, 60, 0], timestamp: heard + 100 },
+      { data: [0x90, 61, 100], timestamp: heard + PERIOD },
+      { data: [0x80, 61, 0], timestamp: heard + PERIOD + 100 },
+    ]);
+    output.close();
+  });
+
+  it('sends the count position as a CC value', () => {
+    const { port, messages } = createMockPort();
+    const output = new MidiBeatOutput(
+      port,
+      { ...CLOCK_ONLY, clock: false, count: { kind: 'cc', channel: 2, number: 20, value: 0 } },
+      () => Date.now(),
+    );
+    const heard = Date.now() + 50;
+    output.beat(5, heard, BPM);
+    expect(messages).toEqual([{ data: [0xb1, 20, 5], timestamp: heard }]);
+    output.close();
+  });
+
+  it('sends Stop when closed while playing', () => {
+    const { port, messages } = createMockPort();
+    const output = new MidiBeatOutput(port, CLOCK_ONLY, () => Date.now());
+    output.setLocked(true);
+    output.beat(1, Date.now(), BPM);
+    output.close();
+    expect(messages[messages.length - 1].data).toEqual([0xfc]);
+
+    const sent = messages.length;
+    vi.advanceTimersByTime(2 * PERIOD);
+    expect(messages.length).toBe(sent);
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * MIDI Output
+ * Drives DAWs, loopers and lighting desks from the tracked beat over Web MIDI: 24-PPQN clock,
+ * Start on the first 1 after the beat locks and Stop when it's lost, and a note or CC on the 1
+ * and on every count
+ * Messages are sent with Web MIDI timestamps for when each beat is heard, so the browser's event
+ * loop doesn't add jitter
+ */
+
+export type MidiMessageKind = 'note' | 'cc';
+
+/**
+ * A note or controller message fired on a beat
+ * For the per-count trigger, a note plays number + position - 1 (one note per count), and a CC
+ * sends the position (1-8) as its value
+ */
+export interface MidiTrigger {
+  kind: MidiMessageKind;
+  channel: number; // 1-16
+  number: number; // Note or controller number, 0-127
+  value: number; // Velocity or controller value, 0-127
+}
+
+export interface MidiOutputSettings {
+  portId: string | null; // null: MIDI output off
+  clock: boolean; // 24-PPQN timing clock
+  transport: boolean; // Start when the beat locks, Stop when it's lost
+  downbeat: MidiTrigger | null; // On the 1
+  count: MidiTrigger | null; // On every count, 1-8
+}
+
+// The part of MIDIOutput used here, so tests can supply their own port
+export interface MidiPortLike {
+  readonly id: string;
+  readonly name: string | null;
+  send(data: number[], timestamp?: number): void;
+}
+
+export interface MidiPortInfo {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_MIDI_SETTINGS: MidiOutputSettings = {
+  portId: null,
+  clock: true,
+  transport: true,
+  downbeat: { kind: 'note', channel: 10, number: 36, value: 127 }, // GM kick
+  count: null,
+};
+
+// MIDI status bytes
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const CONTROL_CHANGE = 0xb0;
+const TIMING_CLOCK = 0xf8;
+const START = 0xfa;
+const STOP = 0xfc;
+
+const PPQN = 24; // Clock ticks per beat
+const SCHEDULE_AHEAD = 100; // ms of clock scheduled in advance
+const SCHEDULER_INTERVAL = 25; // ms between scheduler runs
+const NOTE_LENGTH = 100; // ms, shortened to half a beat at fast tempos
+
+export class MidiBeatOutput {
+  private readonly port: MidiPortLike;
+  private settings: MidiOutputSettings;
+  private readonly now: () => number;
+  private schedulerId: number | null = null;
+
+  private period = 0; // ms per beat, 0 until a beat with a tempo arrives
+  private anchorTime = 0; // Time of the last beat
+  private anchorTick = 0; // Clock tick that falls on it
+  private nextTick = 0; // Next clock tick to schedule
+  private locked = false;
+  private playing = false; // Start sent, Stop not yet
+
+  constructor(port: MidiPortLike, settings: MidiOutputSettings, now: () => number = () => performance.now()) {
+    this.port = port;
+    this.settings = settings;
+    this.now = now;
+    this.schedulerId = window.setInterval(() => this.schedule(), SCHEDULER_INTERVAL);
+  }
+
+  getPortId(): string {
+    return this.port.id;
+  }
+
+  updateSettings(settings: MidiOutputSettings): void {
+    if (this.playing && !settings.transport) {
+      this.sendStop(this.now());
+    }
+    this.settings = settings;
+  }
+
+  /**
+   * A counted beat
+   * @param timestamp When it is heard, on the performance.now() clock
+   */
+  beat(position: number, timestamp: number, bpm: number): void {
+    if (bpm <= 0) return;
+    const period = 60000 / bpm;
+
+    if (this.period === 0) {
+      // First beat: the clock starts on it
+      this.anchorTick = 0;
+      this.nextTick = 0;
+    } else {
+      // Align the clock to this beat, at the whole beat nearest where the clock has got to
+      const elapsedBeats = Math.max(1, Math.round((timestamp - this.anchorTime) / this.period));
+      this.anchorTick += elapsedBeats * PPQN;
+      // Ticks already sent past this beat can't be taken back; carry on from the next free one
+      this.nextTick = Math.max(this.nextTick, this.anchorTick);
+    }
+    this.period = period;
+    this.anchorTime = timestamp;
+
+    // Start on the first 1 after locking, so the DAW's bar lines up with the music
+    // A millisecond early, so it's delivered before the tick on the 1 even if that's already queued
+    if (this.locked && !this.playing && this.settings.transport && position === 1) {
+      this.send([START], this.sendTime(timestamp - 1));
+      this.playing = true;
+    }
+
+    this.schedule();
+
+    const noteLength = Math.min(NOTE_LENGTH, period / 2);
+    if (position === 1 && this.settings.downbeat) {
+      this.trigger(this.settings.downbeat, this.settings.downbeat.number, this.settings.downbeat.value, timestamp, noteLength);
+    }
+    const count = this.settings.count;
+    if (count) {
+      const number = count.kind === 'note' ? count.number + position - 1 : count.number;
+      const value = count.kind === 'note' ? count.value : position;
+      this.trigger(count, number, value, timestamp, noteLength);
+    }
+  }
+
+  /**
+   * Follow the tracker: Start waits for the next 1 once locked; Stop goes out as soon as it's lost
+   */
+  setLocked(locked: boolean): void {
+    this.locked = locked;
+    if (!locked) {
+      if (this.playing) this.sendStop(this.now());
+      // No tempo to clock until beats come back
+      this.period = 0;
+    }
+  }
+
+  /**
+   * Stop the clock and transport, and release the port
+   */
+  close(): void {
+    if (this.schedulerId !== null) {
+      clearInterval(this.schedulerId);
+      this.schedulerId = null;
+    }
+    if (this.playing) this.sendStop(this.now());
+    this.period = 0;
+  }
+
+  private schedule(): void {
+    if (this.period === 0 || !this.settings.clock) return;
+    const now = this.now();
+    const until = now + SCHEDULE_AHEAD;
+    const tickLength = this.period / PPQN;
+    for (;;) {
+      const time = this.anchorTime + (this.nextTick - this.anchorTick) * tickLength;
+      if (time > until) break;
+      // Ticks that are already well past (e.g. after a stalled tab) are dropped, not bunched up
+      if (time >= now - tickLength) {
+        this.send([TIMING_CLOCK], this.sendTime(time));
+      }
+      this.nextTick++;
+    }
+  }
+
+  private trigger(trigger: MidiTrigger, number: number, value: number, timestamp: number, noteLength: number): void {
+    const channel = clamp(trigger.channel, 1, 16) - 1;
+    const data = clamp(number, 0, 127);
+    const level = clamp(value, 0, 127);
+    if (trigger.kind === 'cc') {
+      this.send([CONTROL_CHANGE | channel, data, level], this.sendTime(timestamp));
+      return;
+    }
+    this.send([NOTE_ON | channel, data, level], this.sendTime(timestamp));
+    this.send([NOTE_OFF | channel, data, 0], this.sendTime(timestamp + noteLength));
+  }
+
+  private sendStop(timestamp: number): void {
+    this.send([STOP], this.sendTime(timestamp));
+    this.playing = false;
+  }
+
+  /**
+   * Timestamp for send(): a time already past would be sent immediately anyway
+   */
+  private sendTime(time: number): number {
+    return Math.max(time, this.now());
+  }
+
+  // An unplugged port throws; the beat carries on without it until it's chosen again
+  private send(data: number[], timestamp: number): void {
+    try {
+      this.port.send(data, timestamp);
+    } catch (err) {
+      console.warn('Failed to send MIDI:', err);
+    }
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+let midiAccess: Promise<MIDIAccess> | null = null;
+
+export function isMidiSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+}
+
+/**
+ * Ask for MIDI access once; the browser may show a permission prompt
+ */
+function getMidiAccess(): Promise<MIDIAccess> {
+  midiAccess ??= navigator.requestMIDIAccess({ sysex: false }).catch((err) => {
+    midiAccess = null;
+    throw err;
+  });
+  return midiAccess;
+}
+
+export async function listMidiOutputs(): Promise<MidiPortInfo[]> {
+  const access = await getMidiAccess();
+  return [...access.outputs.values()].map((output) => ({ id: output.id, name: output.name ?? output.id }));
+}
+
+export async function openMidiOutput(portId: string): Promise<MidiPortLike | null> {
+  const access = await getMidiAccess();
+  return access.outputs.get(portId) ?? null;
+}
+
+/**
+ * Subscribe to MIDI devices being plugged in or removed
+ * @returns Unsubscribe function
+ */
+export function onMidiOutputsChange(listener: () => void): () => void {
+  let unsubscribed = false;
+  let access: MIDIAccess | null = null;
+  getMidiAccess()
+    .then((result) => {
+      if (unsubscribed) return;
+      access = result;
+      access.addEventListener('statechange', listener);
+    })
+    .catch(() => {
+      // Listing the outputs reports the refusal
+    });
+  return () => {
+    unsubscribed = true;
+    access?.removeEventListener('statechange', listener);
+  };
+}
+
+const STORAGE_KEY = 'baila-beat:midi';
+
+export function loadMidiSettings(): MidiOutputSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_MIDI_SETTINGS, ...(JSON.parse(stored) as Partial<MidiOutputSettings>) };
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_MIDI_SETTINGS;
+}
+
+export function saveMidiSettings(settings: MidiOutputSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Failed to store MIDI settings:', err);
+  }
+}
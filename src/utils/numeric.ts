@@ -0,0 +1,20 @@
+/**
+ * Numeric helpers shared by the downbeat and clave detectors
+ */
+
+/**
+ * Remainder that is never negative, for wrapping beat indices onto a cycle
+ */
+export function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+/**
+ * Zero mean, unit variance; all zeros if the values don't vary
+ */
+export function standardize(values: number[]): number[] {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / values.length;
+  const standardDeviation = Math.sqrt(variance);
+  return standardDeviation > 0 ? values.map((v) => (v - mean) / standardDeviation) : values.map(() => 0);
+}
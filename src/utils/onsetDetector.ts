@@ -0,0 +1,169 @@
+/**
+ * Multi-band Onset Detector
+ * Spectral-flux onset detection across several frequency bands, each with its own adaptive threshold,
+ * so congas, timbales and cowbell can carry the pulse as well as the kick
+ */
+
+export interface FrequencyBand {
+  name: string;
+  minFrequency: number; // Hz
+  maxFrequency: number; // Hz
+  weight: number; // Contribution to the combined onset strength
+}
+
+export interface OnsetFrame {
+  strength: number; // Combined onset strength (weighted sum of per-band excess over threshold)
+  isOnset: boolean; // True if any band crossed its adaptive threshold
+  bandFlux: number[]; // Raw spectral flux per band
+  bandOnsets: boolean[]; // Which bands crossed their threshold this frame
+  bandEnergy: number[]; // Mean byte magnitude per band
+}
+
+// Salsa-oriented split: kick/bass, congas & tumbao, timbales & piano, cowbell/clave/guiro
+export const DEFAULT_BANDS: FrequencyBand[] = [
+  { name: 'bass', minFrequency: 30, maxFrequency: 150, weight: 1.5 },
+  { name: 'low-mid', minFrequency: 150, maxFrequency: 500, weight: 1.2 },
+  { name: 'mid', minFrequency: 500, maxFrequency: 2000, weight: 1 },
+  { name: 'high', minFrequency: 2000, maxFrequency: 8000, weight: 1 },
+];
+
+export interface OnsetDetectorOptions {
+  sampleRate?: number;
+  bands?: FrequencyBand[];
+  historySize?: number; // Frames used for each band's adaptive threshold
+  thresholdMultiplier?: number; // Standard deviations above the band mean that count as an onset
+  minFlux?: number; // Ignore flux below this (byte units per bin) to avoid triggering on noise
+}
+
+export class OnsetDetector {
+  private readonly sampleRate: number;
+  private bands: FrequencyBand[];
+  private historySize: number;
+  private thresholdMultiplier: number;
+  private readonly minFlux: number;
+  private previousSpectrum: Uint8Array | null = null;
+  private fluxHistory: number[][];
+  private binRanges: Array<[number, number]> = [];
+  private binCount = 0;
+
+  constructor(options: OnsetDetectorOptions = {}) {
+    this.sampleRate = options.sampleRate ?? 44100;
+    this.bands = options.bands ?? DEFAULT_BANDS;
+    this.historySize = options.historySize ?? 43; // ~0.7 seconds of frames at 60fps
+    this.thresholdMultiplier = options.thresholdMultiplier ?? 1.3;
+    this.minFlux = options.minFlux ?? 0.5;
+    this.fluxHistory = this.bands.map(() => []);
+  }
+
+  /**
+   * Process one frame of byte frequency data
+   * @param spectrum - Byte magnitudes covering 0 Hz to Nyquist
+   */
+  process(spectrum: Uint8Array): OnsetFrame {
+    if (spectrum.length !== this.binCount) {
+      this.computeBinRanges(spectrum.length);
+      this.previousSpectrum = null;
+    }
+
+    const bandFlux: number[] = [];
+    const bandOnsets: boolean[] = [];
+    const bandEnergy: number[] = [];
+    let strength = 0;
+    let totalWeight = 0;
+
+    for (let b = 0; b < this.bands.length; b++) {
+      const [start, end] = this.binRanges[b];
+      const bins = Math.max(1, end - start);
+
+      // Spectral flux: sum of positive magnitude changes (byte data is already log-scaled)
+      let flux = 0;
+      let energy = 0;
+      for (let i = start; i < end; i++) {
+        energy += spectrum[i];
+        if (this.previousSpectrum) {
+          const diff = spectrum[i] - this.previousSpectrum[i];
+          if (diff > 0) flux += diff;
+        }
+      }
+      flux /= bins;
+      energy /= bins;
+
+      // Adaptive threshold from this band's recent flux
+      const history = this.fluxHistory[b];
+      let excess = 0;
+      let onset = false;
+      if (history.length >= this.historySize) {
+        const mean = history.reduce((a, v) => a + v, 0) / history.length;
+        const variance = history.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / history.length;
+        const standardDeviation = Math.sqrt(variance);
+        const threshold = mean + this.thresholdMultiplier * standardDeviation;
+        onset = flux > threshold && flux > this.minFlux;
+        // Express the flux in band-relative units so quiet bands count as much as loud ones
+        excess = Math.max(0, flux - mean) / (standardDeviation + 0.5);
+      }
+
+      history.push(flux);
+      if (history.length > this.historySize) {
+        history.shift();
+      }
+
+      bandFlux.push(flux);
+      bandOnsets.push(onset);
+      bandEnergy.push(energy);
+      strength += excess * this.bands[b].weight;
+      totalWeight += this.bands[b].weight;
+    }
+
+    if (!this.previousSpectrum || this.previousSpectrum.length !== spectrum.length) {
+      this.previousSpectrum = new Uint8Array(spectrum.length);
+    }
+    this.previousSpectrum.set(spectrum);
+
+    return {
+      strength: totalWeight > 0 ? strength / totalWeight : 0,
+      isOnset: bandOnsets.some(Boolean),
+      bandFlux,
+      bandOnsets,
+      bandEnergy,
+    };
+  }
+
+  getBands(): FrequencyBand[] {
+    return this.bands;
+  }
+
+  /**
+   * Change how much each band contributes to the combined strength, in band order
+   */
+  setBandWeights(weights: number[]): void {
+    this.bands = this.bands.map((band, i) => ({ ...band, weight: weights[i] ?? band.weight }));
+  }
+
+  setHistorySize(historySize: number): void {
+    this.historySize = Math.max(2, Math.round(historySize));
+    for (const history of this.fluxHistory) {
+      if (history.length > this.historySize) {
+        history.splice(0, history.length - this.historySize);
+      }
+    }
+  }
+
+  setThresholdMultiplier(thresholdMultiplier: number): void {
+    this.thresholdMultiplier = thresholdMultiplier;
+  }
+
+  reset(): void {
+    this.previousSpectrum = null;
+    this.fluxHistory = this.bands.map(() => []);
+  }
+
+  private computeBinRanges(binCount: number): void {
+    this.binCount = binCount;
+    const binWidth = this.sampleRate / 2 / binCount;
+    this.binRanges = this.bands.map((band) => {
+      const start = Math.min(binCount - 1, Math.max(0, Math.floor(band.minFrequency / binWidth)));
+      const end = Math.min(binCount, Math.max(start + 1, Math.ceil(band.maxFrequency / binWidth)));
+      return [start, end];
+    });
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * Practice Metronome
+ * Synthesizes a salsa groove (clave, cowbell, conga tumbao, bass) in Web Audio at a chosen tempo,
+ * optionally ramping the tempo, and fires count positions in sync with what is heard
+ */
+
+import { contextTimeAt, duckGain } from './audioClock';
+
+export type PercussionLayer = 'clave' | 'cowbell' | 'conga' | 'bass';
+
+export interface TempoRamp {
+  startBPM: number;
+  endBPM: number;
+  durationSeconds: number; // Time to go from start to end; the end tempo is held afterwards
+}
+
+export interface PracticeMetronomeOptions {
+  bpm?: number; // Fixed tempo when there is no ramp
+  layers?: PercussionLayer[];
+  ramp?: TempoRamp | null;
+  claveDirection?: '2-3' | '3-2';
+  feedbackLead?: number; // Fire beats this many ms early so the count is perceived on time
+}
+
+export interface PracticeMetronomeCallbacks {
+  onBeat: (position: number, timestamp: number) => void; // 1-8 count position, performance.now() time it is heard
+  onBPMUpdate?: (bpm: number) => void;
+}
+
+interface ScheduledBeat {
+  time: number; // AudioContext time
+  position: number;
+}
+
+export const ALL_PERCUSSION_LAYERS: PercussionLayer[] = ['clave', 'cowbell', 'conga', 'bass'];
+
+const BEATS_PER_CYCLE = 8;
+const SCHEDULE_AHEAD = 0.12; // Seconds of audio scheduled in advance
+const SCHEDULER_INTERVAL = 25; // ms between scheduler runs
+const OUTPUT_LEVEL = 0.8;
+
+// Eighth-note slots over the 8-count, slot 0 = "the 1"
+const CLAVE_SLOTS = { '3-2': [0, 3, 6, 10, 12], '2-3': [2, 4, 8, 11, 14] };
+const CONGA_SLAP_SLOTS = [2, 10]; // Slaps on 2 and 6
+const CONGA_OPEN_SLOTS = [6, 7, 14, 15]; // Open tones on 4, 4-and, 8, 8-and
+// Anticipated tumbao bass on 2-and and 4 of each bar (Hz)
+const BASS_NOTES: Array<[number, number]> = [[3, 55], [6, 82.41], [11, 73.42], [14, 82.41]];
+
+export class PracticeMetronome {
+  private audioContext: AudioContext | null = null;
+  private output: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+  private callbacks: PracticeMetronomeCallbacks;
+  private layers: Set<PercussionLayer>;
+  private bpm: number;
+  private ramp: TempoRamp | null;
+  private claveDirection: '2-3' | '3-2';
+
+  private schedulerId: number | null = null;
+  private animationFrameId: number | null = null;
+  private startTime = 0; // AudioContext time of the first beat
+  private nextBeatTime = 0;
+  private nextBeatIndex = 0;
+  private pendingBeats: ScheduledBeat[] = [];
+  private lastReportedBPM = 0;
+  private readonly staleBeatWindow = 0.1; // Don't fire beats more than 100ms late
+  private readonly feedbackLead: number; // Seconds
+
+  constructor(callbacks: PracticeMetronomeCallbacks, options: PracticeMetronomeOptions = {}) {
+    this.callbacks = callbacks;
+    this.bpm = options.bpm ?? 180;
+    this.layers = new Set(options.layers ?? ALL_PERCUSSION_LAYERS);
+    this.ramp = options.ramp ?? null;
+    this.claveDirection = options.claveDirection ?? '2-3';
+    this.feedbackLead = Math.max(0, options.feedbackLead ?? 0) / 1000;
+  }
+
+  async start(): Promise<void> {
+    if (this.schedulerId !== null) return;
+
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+      this.output = this.audioContext.createGain();
+      this.output.gain.value = OUTPUT_LEVEL;
+      this.output.connect(this.audioContext.destination);
+      this.noise = this.createNoise(this.audioContext);
+    }
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+
+    this.startTime = this.audioContext.currentTime + 0.1;
+    this.nextBeatTime = this.startTime;
+    this.nextBeatIndex = 0;
+    this.pendingBeats = [];
+    this.lastReportedBPM = 0;
+
+    this.schedulerId = window.setInterval(() => this.schedule(), SCHEDULER_INTERVAL);
+    this.schedule();
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.schedulerId !== null) {
+      clearInterval(this.schedulerId);
+      this.schedulerId = null;
+    }
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.pendingBeats = [];
+    // Silence anything already scheduled by dropping the output
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+      this.output = null;
+      this.noise = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.schedulerId !== null;
+  }
+
+  /**
+   * Change the fixed tempo; cancels any ramp
+   */
+  setBPM(bpm: number): void {
+    if (bpm <= 0) return;
+    this.bpm = bpm;
+    this.ramp = null;
+  }
+
+  /**
+   * Start a tempo ramp from the next beat, or null to hold the current tempo
+   */
+  setRamp(ramp: TempoRamp | null): void {
+    if (ramp && this.audioContext && this.isRunning()) {
+      // Ramps run from now, not from when the metronome started
+      this.startTime = this.nextBeatTime;
+    }
+    if (!ramp) {
+      this.bpm = this.getBPM();
+    }
+    this.ramp = ramp;
+  }
+
+  setLayers(layers: PercussionLayer[]): void {
+    this.layers = new Set(layers);
+  }
+
+  setClaveDirection(direction: '2-3' | '3-2'): void {
+    this.claveDirection = direction;
+  }
+
+  /**
+   * Lower the groove briefly (e.g. under a spoken count cue)
+   * @param timestamp - When to duck, performance.now() clock (ms)
+   * @param depth - 0-1 fraction of the level to take away
+   * @param duration - How long to stay ducked (ms)
+   */
+  duck(timestamp: number, depth: number, duration: number): void {
+    if (!this.audioContext || !this.output) return;
+    duckGain(this.output.gain, contextTimeAt(this.audioContext, timestamp), depth, duration / 1000, OUTPUT_LEVEL);
+  }
+
+  /**
+   * Tempo at the next scheduled beat
+   */
+  getBPM(): number {
+    return this.tempoAt(this.nextBeatTime);
+  }
+
+  private tempoAt(time: number): number {
+    if (!this.ramp) return this.bpm;
+    const { startBPM, endBPM, durationSeconds } = this.ramp;
+    const progress = durationSeconds > 0 ? Math.min(1, Math.max(0, (time - this.startTime) / durationSeconds)) : 1;
+    return startBPM + (endBPM - startBPM) * progress;
+  }
+
+  /**
+   * Schedule every beat that starts within the look-ahead window
+   */
+  private schedule(): void {
+    if (!this.audioContext) return;
+
+    while (this.nextBeatTime < this.audioContext.currentTime + SCHEDULE_AHEAD) {
+      const bpm = this.tempoAt(this.nextBeatTime);
+      const interval = 60 / bpm;
+      const position = (this.nextBeatIndex % BEATS_PER_CYCLE) + 1;
+
+      this.scheduleBeat(this.nextBeatTime, position, interval);
+      this.pendingBeats.push({ time: this.nextBeatTime, position });
+
+      if (Math.round(bpm) !== this.lastReportedBPM) {
+        this.lastReportedBPM = Math.round(bpm);
+        this.callbacks.onBPMUpdate?.(this.lastReportedBPM);
+      }
+
+      this.nextBeatTime += interval;
+      this.nextBeatIndex++;
+    }
+  }
+
+  /**
+   * Fire count positions as their beats become audible
+   */
+  private tick(): void {
+    if (!this.audioContext) return;
+
+    const latency = (this.audioContext.outputLatency || 0) + (this.audioContext.baseLatency || 0);
+    const heard = this.audioContext.currentTime - latency;
+    while (this.pendingBeats.length > 0 && this.pendingBeats[0].time <= heard + this.feedbackLead) {
+      const beat = this.pendingBeats.shift()!;
+      if (heard - beat.time <= this.staleBeatWindow) {
+        this.callbacks.onBeat(beat.position, performance.now() + (beat.time - heard) * 1000);
+      }
+    }
+
+    this.animationFrameId = requestAnimationFrame(() => this.tick());
+  }
+
+  /**
+   * Schedule the sounds of one beat (its downbeat and "and" slots)
+   */
+  private scheduleBeat(time: number, position: number, interval: number): void {
+    const firstSlot = (position - 1) * 2;
+    for (let half = 0; half < 2; half++) {
+      const slot = firstSlot + half;
+      const slotTime = time + (half * interval) / 2;
+
+      if (this.layers.has('clave') && CLAVE_SLOTS[this.claveDirection].includes(slot)) {
+        this.playClave(slotTime);
+      }
+      if (this.layers.has('conga')) {
+        if (CONGA_SLAP_SLOTS.includes(slot)) this.playConga(slotTime, 'slap');
+        if (CONGA_OPEN_SLOTS.includes(slot)) this.playConga(slotTime, 'open');
+      }
+      if (this.layers.has('bass')) {
+        const note = BASS_NOTES.find(([noteSlot]) => noteSlot === slot);
+        if (note) this.playBass(slotTime, note[1], interval * 1.4);
+      }
+    }
+    if (this.layers.has('cowbell')) {
+      // Bongo bell: low bell on the odd beats, high bell on the even ones
+      this.playCowbell(time, position % 2 === 1 ? 'low' : 'high');
+    }
+  }
+
+  private playClave(time: number): void {
+    this.playTone(time, 2500, 0.05, 0.6, 'sine');
+  }
+
+  private playCowbell(time: number, pitch: 'low' | 'high'): void {
+    const frequency = pitch === 'low' ? 560 : 830;
+    this.playTone(time, frequency, 0.12, 0.25, 'square');
+    this.playTone(time, frequency * 1.48, 0.08, 0.15, 'square');
+  }
+
+  private playConga(time: number, stroke: 'open' | 'slap'): void {
+    if (stroke === 'open') {
+      this.playTone(time, 330, 0.25, 0.5, 'sine', 280);
+    } else {
+      this.playNoise(time, 0.06, 0.5, 1200);
+      this.playTone(time, 400, 0.06, 0.3, 'sine');
+    }
+  }
+
+  private playBass(time: number, frequency: number, duration: number): void {
+    this.playTone(time, frequency, duration, 0.6, 'triangle');
+  }
+
+  /**
+   * Oscillator with a fast attack and exponential decay, optionally gliding to another pitch
+   */
+  private playTone(time: number, frequency: number, duration: number, level: number, type: OscillatorType, endFrequency?: number): void {
+    if (!this.audioContext || !this.output) return;
+
+    const oscillator = this.audioContext.createOscillator();
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(frequency, time);
+    if (endFrequency) {
+      oscillator.frequency.exponentialRampToValueAtTime(endFrequency, time + duration);
+    }
+
+    const gain = this.audioContext.createGain();
+    gain.gain.setValueAtTime(0.0001, time);
+    gain.gain.exponentialRampToValueAtTime(level, time + 0.003);
+    gain.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+
+    oscillator.connect(gain);
+    gain.connect(this.output);
+    oscillator.start(time);
+    oscillator.stop(time + duration + 0.01);
+  }
+
+  /**
+   * Band-passed noise burst (slaps)
+   */
+  private playNoise(time: number, duration: number, level: number, frequency: number): void {
+    if (!this.audioContext || !this.output || !this.noise) return;
+
+    const source = this.audioContext.createBufferSource();
+    source.buffer = this.noise;
+    const filter = this.audioContext.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.value = frequency;
+    const gain = this.audioContext.createGain();
+    gain.gain.setValueAtTime(level, time);
+    gain.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+
+    source.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.output);
+    source.start(time);
+    source.stop(time + duration + 0.01);
+  }
+
+  private createNoise(context: AudioContext): AudioBuffer {
+    const buffer = context.createBuffer(1, Math.round(context.sampleRate * 0.5), context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+    return buffer;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Progressive Web App
+ * Service worker registration for offline use, and the pieces of the install flow
+ */
+
+// Chromium's install prompt event isn't part of the DOM typings
+export interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  readonly userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+/**
+ * Register /sw.js in production builds; the dev server serves modules the worker doesn't know about
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => {
+      console.warn('Service worker registration failed, the app will not work offline:', err);
+    });
+  });
+}
+
+let deferredPrompt: BeforeInstallPromptEvent | null = null;
+const installListeners = new Set<(available: boolean) => void>();
+
+function setDeferredPrompt(event: BeforeInstallPromptEvent | null): void {
+  deferredPrompt = event;
+  installListeners.forEach((listener) => listener(event !== null));
+}
+
+/**
+ * Hold on to the browser's install prompt so the app can offer it at a better moment
+ * Call before the app renders: the event can fire right after load
+ */
+export function captureInstallPrompt(): void {
+  window.addEventListener('beforeinstallprompt', (event) => {
+    event.preventDefault();
+    setDeferredPrompt(event as BeforeInstallPromptEvent);
+  });
+  window.addEventListener('appinstalled', () => setDeferredPrompt(null));
+}
+
+/**
+ * Subscribe to whether the install prompt can be shown
+ * @returns Unsubscribe function
+ */
+export function onInstallAvailable(listener: (available: boolean) => void): () => void {
+  installListeners.add(listener);
+  listener(deferredPrompt !== null);
+  return () => {
+    installListeners.delete(listener);
+  };
+}
+
+/**
+ * Show the browser's install prompt; it can only be used once
+ * @returns True if the user installed the app
+ */
+export async function promptInstall(): Promise<boolean> {
+  const event = deferredPrompt;
+  if (!event) return false;
+  setDeferredPrompt(null);
+  await event.prompt();
+  const { outcome } = await event.userChoice;
+  return outcome === 'accepted';
+}
+
+/**
+ * Whether the app is already running installed, from the home screen
+ */
+export function isStandalone(): boolean {
+  const iosStandalone = (navigator as Navigator & { standalone?: boolean }).standalone === true;
+  return iosStandalone || window.matchMedia('(display-mode: standalone)').matches;
+}
+
+/**
+ * iOS has no install prompt; Safari's Share → Add to Home Screen is the only way
+ */
+export function needsManualInstall(): boolean {
+  return /iPad|iPhone|iPod/.test(navigator.userAgent) && !isStandalone();
+}
+
+const INSTALL_DISMISSED_KEY = 'baila-beat:install-dismissed';
+
+export function loadInstallDismissed(): boolean {
+  try {
+    return localStorage.getItem(INSTALL_DISMISSED_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function saveInstallDismissed(): void {
+  try {
+    localStorage.setItem(INSTALL_DISMISSED_KEY, 'true');
+  } catch (err) {
+    console.warn('Failed to store the install prompt dismissal:', err);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Session Export
+ * Turns recorded sessions into downloadable JSON and CSV files
+ */
+
+import { SessionRecord } from './sessionRecorder';
+
+/**
+ * The full session, as stored
+ */
+export function sessionToJSON(session: SessionRecord): string {
+  return JSON.stringify(session, null, 2);
+}
+
+/**
+ * One row per beat, with the tempo and lock state in effect at that beat
+ */
+export function sessionToCSV(session: SessionRecord): string {
+  const rows = ['time_s,position,downbeat,confidence,energy,bpm,bpm_confidence,state'];
+  let tempoIndex = -1;
+  let stateIndex = -1;
+  for (const beat of session.beats) {
+    while (tempoIndex + 1 < session.tempo.length && session.tempo[tempoIndex + 1].time <= beat.time) tempoIndex++;
+    while (stateIndex + 1 < session.states.length && session.states[stateIndex + 1].time <= beat.time) stateIndex++;
+    const tempo = session.tempo[tempoIndex];
+    const state = session.states[stateIndex];
+    rows.push(
+      [
+        (beat.time / 1000).toFixed(3),
+        beat.position,
+        beat.downbeat ? 1 : 0,
+        beat.confidence.toFixed(3),
+        beat.energy.toFixed(2),
+        tempo?.bpm ?? '',
+        tempo ? tempo.confidence.toFixed(3) : '',
+        state?.state ?? '',
+      ].join(','),
+    );
+  }
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * Base name for a session's exported files, e.g. "baila-beat-2024-05-01-2130"
+ */
+export function sessionBaseName(session: SessionRecord): string {
+  const date = new Date(session.startedAt);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `baila-beat-${stamp}`;
+}
+
+export function sessionFileName(session: SessionRecord, extension: string): string {
+  return `${sessionBaseName(session)}.${extension}`;
+}
+
+/**
+ * Offer content to the user as a file download
+ */
+export function downloadFile(content: Blob | string, fileName: string, type = 'application/octet-stream'): void {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,173 @@
+/**
+ * Session Recorder
+ * Collects what live detection produced during one listening session (beats, tempo, level and lock
+ * state) plus the settings it ran with, and optionally the microphone audio, for later review
+ */
+
+import { BeatDetectionResult, DetectionTuning, TrackingStatus } from './beatDetector';
+import { CountingSchemeId } from './countingScheme';
+import { AudioPresetId } from './audioPresets';
+import { LatencyProfile } from './latencyCalibration';
+
+export interface SessionMetadata {
+  userAgent: string;
+  analysis: 'worklet' | 'analyser' | null; // Which live analysis path ran
+  sampleRate: number;
+  countingScheme: CountingSchemeId;
+  presetId: AudioPresetId;
+  tuning: DetectionTuning;
+  latency: LatencyProfile;
+  calibrated: boolean; // False if the latency is the uncalibrated default
+}
+
+// All times are ms from the start of the session
+export interface RecordedBeat {
+  time: number;
+  position: number; // 1-8 count position from downbeat detection
+  downbeat: boolean;
+  confidence: number;
+  energy: number;
+}
+
+export interface RecordedTempo {
+  time: number;
+  bpm: number;
+  confidence: number;
+}
+
+export interface RecordedEnergy {
+  time: number;
+  energy: number;
+}
+
+export interface RecordedState {
+  time: number;
+  state: TrackingStatus['state'];
+  confidence: number;
+}
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number; // Date.now() at the start
+  duration: number; // ms
+  metadata: SessionMetadata;
+  beats: RecordedBeat[];
+  tempo: RecordedTempo[];
+  energy: RecordedEnergy[];
+  states: RecordedState[];
+  hasAudio: boolean; // Audio is stored separately, under the same id
+}
+
+export interface FinishedSession {
+  record: SessionRecord;
+  audio: Blob | null;
+}
+
+export class SessionRecorder {
+  private readonly record: SessionRecord;
+  private readonly startTime: number; // performance.now() at the start
+  private mediaRecorder: MediaRecorder | null = null;
+  private audioChunks: Blob[] = [];
+
+  /**
+   * @param stream - Microphone stream to record, or null to record detection data only
+   */
+  constructor(metadata: SessionMetadata, stream: MediaStream | null = null) {
+    this.startTime = performance.now();
+    this.record = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      startedAt: Date.now(),
+      duration: 0,
+      metadata,
+      beats: [],
+      tempo: [],
+      energy: [],
+      states: [],
+      hasAudio: false,
+    };
+
+    if (stream && typeof MediaRecorder !== 'undefined') {
+      try {
+        this.mediaRecorder = new MediaRecorder(stream);
+        this.mediaRecorder.ondataavailable = (event) => {
+          if (event.data.size > 0) this.audioChunks.push(event.data);
+        };
+        this.mediaRecorder.start(1000);
+      } catch (err) {
+        console.warn('Audio recording unavailable, recording detection data only:', err);
+        this.mediaRecorder = null;
+      }
+    }
+  }
+
+  // Timestamps passed in are performance.now() times, as the detector reports them
+  addBeat(result: BeatDetectionResult): void {
+    this.record.beats.push({
+      time: this.relative(result.timestamp),
+      position: result.phase.position,
+      downbeat: result.downbeat,
+      confidence: result.confidence,
+      energy: result.energy,
+    });
+  }
+
+  addTempo(bpm: number, confidence: number, timestamp: number): void {
+    this.record.tempo.push({ time: this.relative(timestamp), bpm, confidence });
+  }
+
+  addEnergy(energy: number, timestamp: number): void {
+    this.record.energy.push({ time: this.relative(timestamp), energy });
+  }
+
+  addState(status: TrackingStatus): void {
+    this.record.states.push({ time: this.relative(status.timestamp), state: status.state, confidence: status.confidence });
+  }
+
+  /**
+   * Stop recording and hand back the session, with its audio if it was recorded
+   */
+  async finish(): Promise<FinishedSession> {
+    this.record.duration = performance.now() - this.startTime;
+    const audio = await this.stopAudio();
+    this.record.hasAudio = audio !== null;
+    return { record: this.record, audio };
+  }
+
+  private async stopAudio(): Promise<Blob | null> {
+    const recorder = this.mediaRecorder;
+    if (!recorder) return null;
+    this.mediaRecorder = null;
+    if (recorder.state !== 'inactive') {
+      await new Promise<void>((resolve) => {
+        recorder.onstop = () => resolve();
+        recorder.stop();
+      });
+    }
+    return this.audioChunks.length > 0 ? new Blob(this.audioChunks, { type: recorder.mimeType }) : null;
+  }
+
+  private relative(timestamp: number): number {
+    return Math.round((timestamp - this.startTime) * 10) / 10;
+  }
+}
+
+const RECORD_AUDIO_KEY = 'baila-beat:record-audio';
+
+/**
+ * Whether the user chose to keep the microphone audio with their sessions (off by default)
+ */
+export function loadRecordAudioPreference(): boolean {
+  try {
+    return localStorage.getItem(RECORD_AUDIO_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function saveRecordAudioPreference(enabled: boolean): void {
+  try {
+    localStorage.setItem(RECORD_AUDIO_KEY, String(enabled));
+  } catch (err) {
+    console.warn('Failed to store the audio recording preference:', err);
+  }
+}
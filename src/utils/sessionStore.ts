@@ -0,0 +1,90 @@
+/**
+ * Session Store
+ * Keeps recorded sessions, and their audio when it was recorded, in IndexedDB
+ */
+
+import { FinishedSession, SessionRecord } from './sessionRecorder';
+
+const DB_NAME = 'baila-beat';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const AUDIO = 'session-audio';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Session history needs IndexedDB, which this browser does not provide'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          db.createObjectStore(SESSIONS, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(AUDIO)) {
+          db.createObjectStore(AUDIO);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again rather than caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveSession({ record, audio }: FinishedSession): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS, AUDIO], 'readwrite');
+  transaction.objectStore(SESSIONS).put(record);
+  if (audio) {
+    transaction.objectStore(AUDIO).put(audio, record.id);
+  }
+  await completion(transaction);
+}
+
+/**
+ * All stored sessions, newest first
+ */
+export async function listSessions(): Promise<SessionRecord[]> {
+  const db = await openDatabase();
+  const index = db.transaction(SESSIONS).objectStore(SESSIONS).index('startedAt');
+  const sessions = await result(index.getAll() as IDBRequest<SessionRecord[]>);
+  return sessions.reverse();
+}
+
+export async function getSessionAudio(id: string): Promise<Blob | null> {
+  const db = await openDatabase();
+  const audio = await result(db.transaction(AUDIO).objectStore(AUDIO).get(id) as IDBRequest<Blob | undefined>);
+  return audio ?? null;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS, AUDIO], 'readwrite');
+  transaction.objectStore(SESSIONS).delete(id);
+  transaction.objectStore(AUDIO).delete(id);
+  await completion(transaction);
+}
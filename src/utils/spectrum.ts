@@ -0,0 +1,129 @@
+/**
+ * Spectrum Analyzer for raw PCM frames
+ * Mirrors AnalyserNode.getByteFrequencyData so detection behaves the same
+ * whether frames come from the microphone graph or from decoded samples
+ */
+
+export interface SpectrumAnalyzerOptions {
+  minDecibels?: number;
+  maxDecibels?: number;
+  smoothingTimeConstant?: number;
+}
+
+export class SpectrumAnalyzer {
+  private readonly minDecibels: number;
+  private readonly maxDecibels: number;
+  private readonly smoothingTimeConstant: number;
+  private fftSize = 0;
+  private window: Float32Array = new Float32Array(0);
+  private real: Float32Array = new Float32Array(0);
+  private imag: Float32Array = new Float32Array(0);
+  private smoothed: Float32Array = new Float32Array(0);
+  private output: Uint8Array = new Uint8Array(0);
+
+  constructor(options: SpectrumAnalyzerOptions = {}) {
+    // Same defaults as AnalyserNode, with the smoothing AudioProcessor uses
+    this.minDecibels = options.minDecibels ?? -100;
+    this.maxDecibels = options.maxDecibels ?? -30;
+    this.smoothingTimeConstant = options.smoothingTimeConstant ?? 0.3;
+  }
+
+  /**
+   * Compute byte magnitudes (0-255) for a PCM frame
+   * Frame length must be a power of two; the result has frameLength / 2 bins
+   * The returned array is reused between calls
+   */
+  process(samples: Float32Array): Uint8Array {
+    const size = samples.length;
+    if ((size & (size - 1)) !== 0 || size < 2) {
+      throw new Error(`PCM frame length must be a power of two, got ${size}`);
+    }
+    if (size !== this.fftSize) {
+      this.allocate(size);
+    }
+
+    for (let i = 0; i < size; i++) {
+      this.real[i] = samples[i] * this.window[i];
+      this.imag[i] = 0;
+    }
+    fft(this.real, this.imag);
+
+    const binCount = size / 2;
+    const range = this.maxDecibels - this.minDecibels;
+    for (let i = 0; i < binCount; i++) {
+      const magnitude = Math.hypot(this.real[i], this.imag[i]) / size;
+      // Blend with previous frame like AnalyserNode's smoothingTimeConstant
+      this.smoothed[i] = this.smoothingTimeConstant * this.smoothed[i] + (1 - this.smoothingTimeConstant) * magnitude;
+      const db = this.smoothed[i] > 0 ? 20 * Math.log10(this.smoothed[i]) : -Infinity;
+      const scaled = (255 / range) * (db - this.minDecibels);
+      this.output[i] = Math.max(0, Math.min(255, Math.floor(scaled)));
+    }
+
+    return this.output;
+  }
+
+  reset(): void {
+    this.smoothed.fill(0);
+  }
+
+  private allocate(size: number): void {
+    this.fftSize = size;
+    this.real = new Float32Array(size);
+    this.imag = new Float32Array(size);
+    this.smoothed = new Float32Array(size / 2);
+    this.output = new Uint8Array(size / 2);
+    // Blackman window, matching the Web Audio spec for AnalyserNode
+    this.window = new Float32Array(size);
+    const alpha = 0.16;
+    const a0 = (1 - alpha) / 2;
+    const a1 = 0.5;
+    const a2 = alpha / 2;
+    for (let i = 0; i < size; i++) {
+      const phase = (2 * Math.PI * i) / size;
+      this.window[i] = a0 - a1 * Math.cos(phase) + a2 * Math.cos(2 * phase);
+    }
+  }
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wReal = Math.cos(angle);
+    const wImag = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curReal = 1;
+      let curImag = 0;
+      for (let j = 0; j < len / 2; j++) {
+        const aIndex = i + j;
+        const bIndex = i + j + len / 2;
+        const tReal = real[bIndex] * curReal - imag[bIndex] * curImag;
+        const tImag = real[bIndex] * curImag + imag[bIndex] * curReal;
+        real[bIndex] = real[aIndex] - tReal;
+        imag[bIndex] = imag[aIndex] - tImag;
+        real[aIndex] += tReal;
+        imag[aIndex] += tImag;
+        const nextReal = curReal * wReal - curImag * wImag;
+        curImag = curReal * wImag + curImag * wReal;
+        curReal = nextReal;
+      }
+    }
+  }
+}
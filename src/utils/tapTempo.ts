@@ -0,0 +1,65 @@
+/**
+ * Tap Tempo
+ * Turns a series of taps into a BPM reading
+ */
+
+export interface TapTempoOptions {
+  maxTaps?: number; // Taps kept for the estimate
+  resetAfter?: number; // A pause this long (ms) starts a new series
+  minBPM?: number;
+  maxBPM?: number;
+}
+
+export class TapTempo {
+  private readonly maxTaps: number;
+  private readonly resetAfter: number;
+  private readonly minInterval: number;
+  private readonly maxInterval: number;
+  private taps: number[] = [];
+
+  constructor(options: TapTempoOptions = {}) {
+    this.maxTaps = options.maxTaps ?? 8;
+    this.resetAfter = options.resetAfter ?? 2000;
+    this.minInterval = 60000 / (options.maxBPM ?? 240);
+    this.maxInterval = 60000 / (options.minBPM ?? 60);
+  }
+
+  /**
+   * Register a tap
+   * @param timestamp - Tap time in milliseconds
+   * @returns BPM from the current series, or null until there are two taps in range
+   */
+  tap(timestamp: number): number | null {
+    const last = this.taps[this.taps.length - 1];
+    if (last !== undefined && (timestamp - last > this.resetAfter || timestamp <= last)) {
+      this.taps = [];
+    }
+    this.taps.push(timestamp);
+    if (this.taps.length > this.maxTaps) {
+      this.taps.shift();
+    }
+
+    // Median interval, so one sloppy tap doesn't throw the reading
+    const intervals: number[] = [];
+    for (let i = 1; i < this.taps.length; i++) {
+      const interval = this.taps[i] - this.taps[i - 1];
+      if (interval >= this.minInterval && interval <= this.maxInterval) {
+        intervals.push(interval);
+      }
+    }
+    if (intervals.length === 0) return null;
+
+    intervals.sort((a, b) => a - b);
+    const mid = Math.floor(intervals.length / 2);
+    const interval = intervals.length % 2 ? intervals[mid] : (intervals[mid - 1] + intervals[mid]) / 2;
+    return 60000 / interval;
+  }
+
+  getTapCount(): number {
+    return this.taps.length;
+  }
+
+  reset(): void {
+    this.taps = [];
+  }
+}
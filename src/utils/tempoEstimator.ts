@@ -0,0 +1,280 @@
+/**
+ * Tempo Estimator
+ * Estimates BPM from the onset-strength envelope with autocorrelation and a comb-filter bank,
+ * using a salsa-aware tempo prior to resolve half-time / double-time (octave) errors
+ */
+
+export interface TempoCandidate {
+  bpm: number;
+  strength: number; // 0-1, relative to the strongest candidate
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  candidates: TempoCandidate[]; // Strongest first, includes the chosen tempo
+  confidence: number; // 0-1, how periodic the music is at this tempo and how steady the estimate has been
+}
+
+export interface TempoPrior {
+  centerBPM: number; // Most likely tempo for the music being played
+  widthOctaves: number; // Standard deviation of the log-tempo Gaussian, in octaves
+}
+
+export interface TempoEstimatorOptions {
+  envelopeRate?: number; // Onset envelope resampling rate (Hz)
+  windowSeconds?: number; // Length of envelope analyzed per estimate
+  minBPM?: number;
+  maxBPM?: number;
+  prior?: TempoPrior;
+  candidateCount?: number;
+}
+
+// Salsa usually sits between 160 and 220 BPM; mambo around 180-200
+export const SALSA_TEMPO_PRIOR: TempoPrior = { centerBPM: 185, widthOctaves: 0.45 };
+
+const COMB_HARMONICS = 4; // Comb teeth at 1x-4x the beat period
+const BPM_STEP = 0.5;
+const CONTINUITY_WIDTH_OCTAVES = 0.05; // Favour staying near the previous estimate
+const CONTINUITY_BONUS = 0.3;
+const OCTAVE_RAW_GUARD = 0.5; // The other octave needs at least half the raw evidence of the strongest period
+const OCTAVE_PRIOR_MARGIN = 3; // ...and the prior must favour it clearly, not just tip a near-tie
+const CLEAR_PERIODICITY = 0.4; // Normalized autocorrelation at which the beat counts as unmistakable
+const STEADY_TOLERANCE = 0.02; // Estimates within 2% of the previous one count as agreeing
+const STEADINESS_RATE = 0.25; // How quickly steadiness follows agreement between estimates
+
+export class TempoEstimator {
+  private readonly envelopeRate: number;
+  private readonly windowSize: number;
+  private minBPM: number;
+  private maxBPM: number;
+  private prior: TempoPrior;
+  private readonly candidateCount: number;
+
+  private envelope: number[] = [];
+  private lastFrameTime = -1;
+  private lastFrameValue = 0;
+  private nextSampleTime = 0;
+  private previousBPM = 0;
+  private steadiness = 0; // Running 0-1 agreement of consecutive estimates
+
+  constructor(options: TempoEstimatorOptions = {}) {
+    this.envelopeRate = options.envelopeRate ?? 100;
+    this.windowSize = Math.round((options.windowSeconds ?? 8) * this.envelopeRate);
+    this.minBPM = options.minBPM ?? 60;
+    this.maxBPM = options.maxBPM ?? 240;
+    this.prior = options.prior ?? SALSA_TEMPO_PRIOR;
+    this.candidateCount = options.candidateCount ?? 3;
+  }
+
+  /**
+   * Add one onset-strength value
+   * Frames may arrive at an irregular rate; they are resampled onto a fixed-rate envelope
+   * @param strength - Onset strength for the frame
+   * @param timestamp - Frame time in milliseconds
+   */
+  addFrame(strength: number, timestamp: number): void {
+    const time = timestamp / 1000;
+    // Start over on the first frame, if time ran backwards, or after a gap longer than the window
+    const gap = time - this.lastFrameTime;
+    if (this.lastFrameTime < 0 || gap < 0 || gap * this.envelopeRate > this.windowSize) {
+      this.envelope = [];
+      this.lastFrameTime = time;
+      this.lastFrameValue = strength;
+      this.nextSampleTime = time;
+    }
+
+    // Linearly interpolate between the previous frame and this one
+    const span = time - this.lastFrameTime;
+    while (this.nextSampleTime <= time) {
+      const fraction = span > 0 ? (this.nextSampleTime - this.lastFrameTime) / span : 1;
+      this.envelope.push(this.lastFrameValue + (strength - this.lastFrameValue) * fraction);
+      this.nextSampleTime += 1 / this.envelopeRate;
+    }
+    if (this.envelope.length > this.windowSize) {
+      this.envelope.splice(0, this.envelope.length - this.windowSize);
+    }
+
+    this.lastFrameTime = time;
+    this.lastFrameValue = strength;
+  }
+
+  /**
+   * Estimate the tempo from the buffered envelope
+   * Returns null until enough envelope is available or if it has no periodicity
+   */
+  estimate(): TempoEstimate | null {
+    const maxLag = Math.ceil((60 / this.minBPM) * this.envelopeRate);
+    if (this.envelope.length < Math.min(this.windowSize, maxLag * 3)) {
+      return null;
+    }
+
+    const acf = this.autocorrelate(Math.min(this.envelope.length - 1, maxLag * COMB_HARMONICS));
+    if (acf[0] <= 0) {
+      return null;
+    }
+
+    // Comb-filter bank: each tempo's score sums the autocorrelation at multiples of its period
+    const tempos: number[] = [];
+    const rawScores: number[] = [];
+    for (let bpm = this.minBPM; bpm <= this.maxBPM; bpm += BPM_STEP) {
+      const lag = (60 / bpm) * this.envelopeRate;
+      let score = 0;
+      let weight = 0;
+      for (let k = 1; k <= COMB_HARMONICS && k * lag < acf.length - 1; k++) {
+        score += interpolate(acf, k * lag) / k;
+        weight += 1 / k;
+      }
+      tempos.push(bpm);
+      rawScores.push(Math.max(0, score / (weight || 1)));
+    }
+
+    // Peaks are picked on the evidence alone; the prior only chooses between octaves of the winner
+    const scores = rawScores.map((score, i) => score * this.continuityWeight(tempos[i]));
+    const priorScores = rawScores.map((score, i) => score * this.priorWeight(tempos[i]));
+    const peaks = findPeaks(scores);
+    if (peaks.length === 0) {
+      return null;
+    }
+    peaks.sort((a, b) => scores[b] - scores[a]);
+
+    const best = this.resolveOctave(peaks[0], tempos, rawScores, priorScores);
+    const bestScore = scores[best];
+    if (bestScore <= 0) {
+      return null;
+    }
+
+    const bpm = refinePeak(tempos, scores, best);
+    const agrees = this.previousBPM > 0 && Math.abs(bpm / this.previousBPM - 1) < STEADY_TOLERANCE;
+    this.steadiness += STEADINESS_RATE * ((agrees ? 1 : 0) - this.steadiness);
+    this.previousBPM = bpm;
+    const periodicity = Math.min(1, Math.max(0, rawScores[best] / acf[0]) / CLEAR_PERIODICITY);
+
+    const candidates: TempoCandidate[] = [{ bpm, strength: 1 }];
+    for (const index of peaks) {
+      if (candidates.length >= this.candidateCount) break;
+      if (index === best) continue;
+      candidates.push({ bpm: refinePeak(tempos, scores, index), strength: scores[index] / bestScore });
+    }
+
+    return { bpm, candidates, confidence: periodicity * this.steadiness };
+  }
+
+  setPrior(prior: TempoPrior): void {
+    this.prior = prior;
+  }
+
+  setRange(minBPM: number, maxBPM: number): void {
+    this.minBPM = minBPM;
+    this.maxBPM = maxBPM;
+  }
+
+  reset(): void {
+    this.envelope = [];
+    this.lastFrameTime = -1;
+    this.lastFrameValue = 0;
+    this.nextSampleTime = 0;
+    this.previousBPM = 0;
+    this.steadiness = 0;
+  }
+
+  /**
+   * Unbiased autocorrelation of the mean-removed envelope
+   */
+  private autocorrelate(maxLag: number): Float32Array {
+    const n = this.envelope.length;
+    const mean = this.envelope.reduce((a, b) => a + b, 0) / n;
+    const centered = this.envelope.map((v) => v - mean);
+    const acf = new Float32Array(maxLag + 1);
+    for (let lag = 0; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let i = lag; i < n; i++) {
+        sum += centered[i] * centered[i - lag];
+      }
+      acf[lag] = sum / (n - lag);
+    }
+    return acf;
+  }
+
+  /**
+   * Log-Gaussian tempo prior
+   */
+  private priorWeight(bpm: number): number {
+    const octaves = Math.log2(bpm / this.prior.centerBPM);
+    return Math.exp(-(octaves * octaves) / (2 * this.prior.widthOctaves * this.prior.widthOctaves));
+  }
+
+  /**
+   * Bonus for staying near the previous estimate, so the reading doesn't flicker between neighbours
+   */
+  private continuityWeight(bpm: number): number {
+    if (this.previousBPM === 0) return 1;
+    const drift = Math.log2(bpm / this.previousBPM);
+    return 1 + CONTINUITY_BONUS * Math.exp(-(drift * drift) / (2 * CONTINUITY_WIDTH_OCTAVES * CONTINUITY_WIDTH_OCTAVES));
+  }
+
+  /**
+   * Choose between a tempo and its double / half
+   * Periodic music scores well at every metrical level; move to the one the prior favours only
+   * if its raw evidence is at least half that of the strongest period and the prior clearly
+   * outweighs the difference, so a slow pulse with a few off-beats (cha-cha) isn't doubled.
+   * Continuity is deliberately left out here so an earlier octave error can't lock itself in
+   */
+  private resolveOctave(index: number, tempos: number[], rawScores: number[], priorScores: number[]): number {
+    let best = index;
+    for (const factor of [2, 0.5]) {
+      const target = tempos[index] * factor;
+      if (target < this.minBPM || target > this.maxBPM) continue;
+      const other = Math.round((target - this.minBPM) / BPM_STEP);
+      const local = localMax(priorScores, other, 2);
+      if (
+        rawScores[local] >= rawScores[index] * OCTAVE_RAW_GUARD &&
+        priorScores[local] > priorScores[index] * OCTAVE_PRIOR_MARGIN &&
+        priorScores[local] > priorScores[best]
+      ) {
+        best = local;
+      }
+    }
+    return best;
+  }
+}
+
+/**
+ * Linear interpolation into an array at a fractional index
+ */
+function interpolate(values: Float32Array, position: number): number {
+  const index = Math.floor(position);
+  const fraction = position - index;
+  if (index + 1 >= values.length) return values[values.length - 1];
+  return values[index] * (1 - fraction) + values[index + 1] * fraction;
+}
+
+function findPeaks(values: number[]): number[] {
+  const peaks: number[] = [];
+  for (let i = 1; i < values.length - 1; i++) {
+    if (values[i] > 0 && values[i] >= values[i - 1] && values[i] > values[i + 1]) {
+      peaks.push(i);
+    }
+  }
+  return peaks;
+}
+
+function localMax(values: number[], center: number, radius: number): number {
+  let best = Math.max(0, Math.min(values.length - 1, center));
+  for (let i = Math.max(0, center - radius); i <= Math.min(values.length - 1, center + radius); i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+}
+
+/**
+ * Parabolic interpolation around a peak for sub-step tempo precision
+ */
+function refinePeak(tempos: number[], scores: number[], index: number): number {
+  if (index <= 0 || index >= scores.length - 1) return tempos[index];
+  const left = scores[index - 1];
+  const center = scores[index];
+  const right = scores[index + 1];
+  const denominator = left - 2 * center + right;
+  const offset = denominator !== 0 ? (0.5 * (left - right)) / denominator : 0;
+  return tempos[index] + Math.max(-0.5, Math.min(0.5, offset)) * BPM_STEP;
+}
@@ -0,0 +1,184 @@
+/**
+ * Track Player for analyzed files
+ * Plays a decoded track and fires beats from its precomputed grid in sync with what is heard
+ */
+
+import { BeatGrid, GridBeat, findBeatIndexAt } from './beatGrid';
+import { contextTimeAt, duckGain } from './audioClock';
+
+export interface TrackPlayerCallbacks {
+  onBeat: (beat: GridBeat, timestamp: number) => void;
+  onTimeUpdate?: (time: number) => void;
+  onEnded?: () => void;
+}
+
+export class TrackPlayer {
+  private audioContext: AudioContext | null = null;
+  private source: AudioBufferSourceNode | null = null;
+  private output: GainNode | null = null;
+  private animationFrameId: number | null = null;
+  private readonly buffer: AudioBuffer;
+  private readonly grid: BeatGrid;
+  private callbacks: TrackPlayerCallbacks;
+
+  private playing = false;
+  private offset = 0; // Track position (s) when playback last started or paused
+  private startedAt = 0; // AudioContext time when playback last started
+  private nextBeatIndex = 0;
+  private readonly staleBeatWindow = 0.1; // Don't fire beats more than 100ms late (e.g. after a stall)
+  private feedbackLead = 0; // Fire beats this many seconds early so the count is perceived on time
+
+  constructor(buffer: AudioBuffer, grid: BeatGrid, callbacks: TrackPlayerCallbacks) {
+    this.buffer = buffer;
+    this.grid = grid;
+    this.callbacks = callbacks;
+  }
+
+  async play(): Promise<void> {
+    if (this.playing) return;
+
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+      this.output = this.audioContext.createGain();
+      this.output.connect(this.audioContext.destination);
+    }
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+
+    if (this.offset >= this.buffer.duration) {
+      this.offset = 0;
+    }
+
+    this.source = this.audioContext.createBufferSource();
+    this.source.buffer = this.buffer;
+    this.source.connect(this.output!);
+    this.source.onended = () => {
+      // Pause and seek detach this handler first, so this is a natural end
+      this.stopPlayback();
+      this.offset = this.buffer.duration;
+      this.callbacks.onEnded?.();
+    };
+    this.source.start(0, this.offset);
+    this.startedAt = this.audioContext.currentTime;
+    this.playing = true;
+    this.nextBeatIndex = findBeatIndexAt(this.grid, this.offset) + 1;
+
+    this.tick();
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+    this.offset = this.getCurrentTime();
+    this.stopPlayback();
+  }
+
+  /**
+   * Jump to a position in the track
+   * The beat at or before the new position is fired so the count updates immediately
+   */
+  seek(time: number): void {
+    const wasPlaying = this.playing;
+    if (wasPlaying) {
+      this.stopPlayback();
+    }
+    this.offset = Math.max(0, Math.min(time, this.buffer.duration));
+    this.callbacks.onTimeUpdate?.(this.offset);
+
+    const index = findBeatIndexAt(this.grid, this.offset);
+    if (index >= 0) {
+      this.callbacks.onBeat(this.grid.beats[index], performance.now());
+    }
+
+    if (wasPlaying) {
+      this.play().catch((err) => console.warn('Failed to resume playback after seek:', err));
+    }
+  }
+
+  /**
+   * Current audible position in seconds
+   * Accounts for the output latency so beats line up with what the listener hears
+   */
+  getCurrentTime(): number {
+    if (!this.playing || !this.audioContext) {
+      return this.offset;
+    }
+    const latency = (this.audioContext.outputLatency || 0) + (this.audioContext.baseLatency || 0);
+    const elapsed = this.audioContext.currentTime - this.startedAt - latency;
+    return Math.min(this.buffer.duration, this.offset + Math.max(0, elapsed));
+  }
+
+  /**
+   * How early (ms) beats are fired to make up for display and vibration lag
+   */
+  setFeedbackLead(lead: number): void {
+    this.feedbackLead = Math.max(0, lead) / 1000;
+  }
+
+  /**
+   * Lower the track briefly (e.g. under a spoken count cue)
+   * @param timestamp - When to duck, performance.now() clock (ms)
+   * @param depth - 0-1 fraction of the level to take away
+   * @param duration - How long to stay ducked (ms)
+   */
+  duck(timestamp: number, depth: number, duration: number): void {
+    if (!this.audioContext || !this.output) return;
+    duckGain(this.output.gain, contextTimeAt(this.audioContext, timestamp), depth, duration / 1000);
+  }
+
+  getDuration(): number {
+    return this.buffer.duration;
+  }
+
+  getGrid(): BeatGrid {
+    return this.grid;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  dispose(): void {
+    this.stopPlayback();
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+      this.output = null;
+    }
+  }
+
+  private tick(): void {
+    if (!this.playing) return;
+
+    const time = this.getCurrentTime();
+    const beats = this.grid.beats;
+
+    // Fire every grid beat we've passed (or are about to, by the feedback lead),
+    // skipping ones that are too late to be useful
+    while (this.nextBeatIndex < beats.length && beats[this.nextBeatIndex].time <= time + this.feedbackLead) {
+      const beat = beats[this.nextBeatIndex];
+      if (time - beat.time <= this.staleBeatWindow) {
+        // Timestamp is when the beat is heard, even when fired early
+        this.callbacks.onBeat(beat, performance.now() + (beat.time - time) * 1000);
+      }
+      this.nextBeatIndex++;
+    }
+
+    this.callbacks.onTimeUpdate?.(time);
+    this.animationFrameId = requestAnimationFrame(() => this.tick());
+  }
+
+  private stopPlayback(): void {
+    this.playing = false;
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    if (this.source) {
+      this.source.onended = null;
+      this.source.stop();
+      this.source.disconnect();
+      this.source = null;
+    }
+  }
+}
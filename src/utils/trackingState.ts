@@ -0,0 +1,91 @@
+/**
+ * Tracking State
+ * Turns per-frame detector observations into an explicit lock state:
+ * idle (no music) → searching (tentative beats) → locked → drifting (confidence dropping) → lost
+ */
+
+export type TrackingState = 'idle' | 'searching' | 'locked' | 'drifting' | 'lost';
+
+export interface TrackingStatus {
+  state: TrackingState;
+  confidence: number; // 0-1 beat confidence when the state was entered
+  timestamp: number; // Time of the change (ms)
+}
+
+export interface TrackingObservation {
+  time: number; // Frame time (ms)
+  silent: boolean; // Input level is below the silence threshold
+  trackerLocked: boolean; // Beat tracker is emitting beats on a grid
+  confidence: number; // 0-1 beat confidence from the tracker
+}
+
+export interface TrackingStateOptions {
+  lockConfidence?: number; // Confidence needed to call the beat locked
+  driftConfidence?: number; // Below this a locked beat is drifting
+  silenceTimeout?: number; // ms of silence before a lock is lost
+  idleTimeout?: number; // ms of silence before going back to idle
+}
+
+export class TrackingStateMachine {
+  private readonly lockConfidence: number;
+  private readonly driftConfidence: number;
+  private readonly silenceTimeout: number;
+  private readonly idleTimeout: number;
+
+  private state: TrackingState = 'idle';
+  private silentSince: number | null = null;
+
+  constructor(options: TrackingStateOptions = {}) {
+    this.lockConfidence = options.lockConfidence ?? 0.6;
+    this.driftConfidence = options.driftConfidence ?? 0.35;
+    this.silenceTimeout = options.silenceTimeout ?? 2000;
+    this.idleTimeout = options.idleTimeout ?? 5000;
+  }
+
+  /**
+   * Advance with one frame's observation
+   * @returns The new status if the state changed, otherwise null
+   */
+  update(observation: TrackingObservation): TrackingStatus | null {
+    const { time, silent, trackerLocked, confidence } = observation;
+    if (!silent) {
+      this.silentSince = null;
+    } else if (this.silentSince === null) {
+      this.silentSince = time;
+    }
+    const silentFor = this.silentSince === null ? 0 : time - this.silentSince;
+
+    const next = this.nextState(silent, silentFor, trackerLocked, confidence);
+    if (next === this.state) return null;
+    this.state = next;
+    return { state: next, confidence, timestamp: time };
+  }
+
+  getState(): TrackingState {
+    return this.state;
+  }
+
+  reset(): void {
+    this.state = 'idle';
+    this.silentSince = null;
+  }
+
+  private nextState(silent: boolean, silentFor: number, trackerLocked: boolean, confidence: number): TrackingState {
+    switch (this.state) {
+      case 'idle':
+        return silent ? 'idle' : 'searching';
+      case 'searching':
+        if (silentFor >= this.idleTimeout) return 'idle';
+        return trackerLocked && confidence >= this.lockConfidence ? 'locked' : 'searching';
+      case 'locked':
+      case 'drifting':
+        if (!trackerLocked || silentFor >= this.silenceTimeout) return 'lost';
+        if (confidence >= this.lockConfidence) return 'locked';
+        // Between the two thresholds the current state holds, so it doesn't flicker
+        return confidence < this.driftConfidence ? 'drifting' : this.state;
+      case 'lost':
+        if (silentFor >= this.idleTimeout) return 'idle';
+        return trackerLocked && !silent ? 'searching' : 'lost';
+    }
+  }
+}
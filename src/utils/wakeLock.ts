@@ -0,0 +1,91 @@
+/**
+ * Screen Wake Lock
+ * Keeps the phone's screen on while the beat is on display; a sleeping screen stops the
+ * animation loop mid-song
+ * The browser drops the lock whenever the page is hidden, so it is released explicitly then and
+ * requested again when the page is visible
+ */
+
+export class ScreenWakeLock {
+  private sentinel: WakeLockSentinel | null = null;
+  private wanted = false;
+  private requesting = false;
+  private readonly onChange?: (active: boolean) => void;
+
+  constructor(onChange?: (active: boolean) => void) {
+    this.onChange = onChange;
+  }
+
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'wakeLock' in navigator;
+  }
+
+  /**
+   * Hold the lock until release(), across the page being hidden and shown again
+   */
+  async acquire(): Promise<void> {
+    if (this.wanted) return;
+    this.wanted = true;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    await this.request();
+  }
+
+  async release(): Promise<void> {
+    if (!this.wanted) return;
+    this.wanted = false;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    await this.drop();
+  }
+
+  isActive(): boolean {
+    return this.sentinel !== null;
+  }
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      void this.request();
+    } else {
+      void this.drop();
+    }
+  };
+
+  private async request(): Promise<void> {
+    if (!ScreenWakeLock.isSupported() || this.sentinel || this.requesting || document.visibilityState !== 'visible') {
+      return;
+    }
+    this.requesting = true;
+    try {
+      const sentinel = await navigator.wakeLock.request('screen');
+      // Released, or the page hidden, while the request was pending
+      if (!this.wanted || document.visibilityState !== 'visible') {
+        await sentinel.release();
+        return;
+      }
+      this.sentinel = sentinel;
+      sentinel.addEventListener('release', () => {
+        if (this.sentinel === sentinel) {
+          this.sentinel = null;
+          this.onChange?.(false);
+        }
+      });
+      this.onChange?.(true);
+    } catch (err) {
+      // Refused, e.g. in battery saver mode; the app still works, the screen may just sleep
+      console.warn('Screen wake lock unavailable:', err);
+    } finally {
+      this.requesting = false;
+    }
+  }
+
+  private async drop(): Promise<void> {
+    const sentinel = this.sentinel;
+    if (!sentinel) return;
+    this.sentinel = null;
+    this.onChange?.(false);
+    try {
+      await sentinel.release();
+    } catch (err) {
+      console.warn('Failed to release the screen wake lock:', err);
+    }
+  }
+}
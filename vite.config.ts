@@ -1,8 +1,75 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const SERVICE_WORKER_ENTRY = 'sw'
+
+/**
+ * Builds src/serviceWorker.ts to /sw.js (unhashed, so it can control the whole site) and fills in
+ * its precache manifest: every built file plus everything in public/
+ */
+function serviceWorker(): Plugin {
+  let publicDir = ''
+  return {
+    name: 'baila-beat-service-worker',
+    apply: 'build',
+    enforce: 'post', // After index.html is emitted, so it goes into the version
+    config: () => ({
+      build: {
+        rollupOptions: {
+          input: {
+            index: fileURLToPath(new URL('./index.html', import.meta.url)),
+            [SERVICE_WORKER_ENTRY]: fileURLToPath(new URL('./src/serviceWorker.ts', import.meta.url)),
+          },
+          output: {
+            entryFileNames: (chunk) =>
+              chunk.name === SERVICE_WORKER_ENTRY ? 'sw.js' : 'assets/[name]-[hash].js',
+          },
+        },
+      },
+    }),
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    generateBundle(_options, bundle) {
+      // Built file names carry content hashes; index.html and public files don't, so their contents
+      // go into the version. index.html itself is cached as the app shell, "/"
+      const built = Object.keys(bundle).filter((name) => name !== 'sw.js' && name !== 'index.html' && !name.endsWith('.map'))
+      const publicFiles = listFiles(publicDir)
+      const hash = createHash('sha256').update(built.sort().join('\n'))
+      const html = bundle['index.html']
+      if (html?.type === 'asset') hash.update(html.source)
+      publicFiles.forEach((name) => hash.update(readFileSync(join(publicDir, name))))
+      const version = hash.digest('hex').slice(0, 12)
+      const files = [...built, ...publicFiles].map((name) => `/${name}`).sort()
+      const worker = bundle['sw.js']
+      if (worker?.type === 'chunk') {
+        worker.code = worker.code.replace('__PRECACHE_MANIFEST__', JSON.stringify({ version, files }))
+      }
+    },
+  }
+}
+
+/**
+ * Paths of all files under dir, relative to it, or none if it doesn't exist
+ */
+function listFiles(dir: string, prefix = ''): string[] {
+  let entries
+  try {
+    entries = readdirSync(join(dir, prefix), { withFileTypes: true })
+  } catch {
+    return []
+  }
+  return entries.flatMap((entry) => {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name
+    return entry.isDirectory() ? listFiles(dir, path) : [path]
+  })
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })
-